@@ -0,0 +1,71 @@
+import React, { useState, useId } from 'react';
+import { AVAILABLE_VOICES, describeError } from '../services/ai';
+import { audioEngine } from '../services/audioEngine';
+import { useTranslation } from '../services/i18n';
+
+// Mimi's write-up of a landmark with narration and sources. Shared by the Magic Lens and the Map.
+// `text` is what gets read aloud; `body` replaces it on screen when there's something richer to show.
+const AnalysisCard = ({ text, sources, title = '', headerAction = null, isOnline = true, body = null, children = null }) => {
+    const { t } = useTranslation();
+    const heading = title || t('analysis.title');
+    const [selectedVoice, setSelectedVoice] = useState('Kore');
+    const [error, setError] = useState('');
+    const voiceGroupId = useId();
+
+    const playNarration = () => {
+        if (!text) return;
+        setError('');
+        audioEngine.play({ text, voice: selectedVoice, label: heading }).catch(err => {
+            console.error("TTS Error:", err);
+            setError(`${t('analysis.audioError')} ${describeError(err)}`);
+        });
+    };
+
+    return (
+        <div className="result-container">
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                <h3>{heading}</h3>
+                {headerAction}
+            </div>
+
+            {body || <p>{text}</p>}
+
+            <div className="narration-controls">
+                <button onClick={playNarration} disabled={!isOnline}>
+                    <span className="material-icons" aria-hidden="true">volume_up</span>
+                    {t('analysis.readAloud')}
+                </button>
+                <div className="voice-radio-group" role="radiogroup" aria-labelledby={`${voiceGroupId}-label`}>
+                    <span className="voice-label" id={`${voiceGroupId}-label`}>{t('analysis.voice')}</span>
+                    {AVAILABLE_VOICES.map(voice => (
+                        <div key={voice} className="voice-radio-option">
+                            <input
+                                type="radio"
+                                id={`${voiceGroupId}-${voice}`}
+                                name={`${voiceGroupId}-voice`}
+                                value={voice}
+                                checked={selectedVoice === voice}
+                                onChange={() => setSelectedVoice(voice)}
+                            />
+                            <label htmlFor={`${voiceGroupId}-${voice}`}>{voice}</label>
+                        </div>
+                    ))}
+                </div>
+            </div>
+            {error && <p role="alert" style={{ color: 'red' }}>{error}</p>}
+
+            {children}
+
+            {sources.length > 0 && (
+                <div className="grounding-sources">
+                    <h3>{t('analysis.sources')}</h3>
+                    {sources.map((source, index) => (
+                        <a key={index} href={source.uri} target="_blank" rel="noopener noreferrer">{source.title}</a>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default AnalysisCard;
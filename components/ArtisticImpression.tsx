@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { ART_STYLES, generateArtwork, refineArtwork, createPostcard } from '../services/artwork';
+import { describeError, isCancelled } from '../services/ai';
+import { useRequestSignal } from '../services/cancellation';
+import { useDestination } from '../services/destination';
+import { useTranslation } from '../services/i18n';
+import Loader from './Loader';
+
+// The restyled picture of a landmark, with style choice, refinement and postcard download.
+// `isGenerating` and `generationError` cover the first picture, which the Magic Lens starts itself once it knows the landmark.
+const ArtisticImpression = ({ landmarkName, details = null, image, photo = null, styleId, onStyleChange, onImageChange, isGenerating = false, generationError = '', isOnline = true }) => {
+    const { t } = useTranslation();
+    const destination = useDestination();
+    const [instruction, setInstruction] = useState('');
+    const [caption, setCaption] = useState(() => t('artwork.caption', { name: landmarkName }));
+    const [isWorking, setIsWorking] = useState(false);
+    const [error, setError] = useState('');
+    const nextSignal = useRequestSignal();
+
+    // A new request replaces one still painting, so a slow old picture never overwrites the newer choice.
+    const run = async (makeImage) => {
+        const signal = nextSignal();
+        setIsWorking(true);
+        setError('');
+        try {
+            const imageUrl = await makeImage(signal);
+            if (imageUrl) {
+                onImageChange(imageUrl);
+                return true;
+            }
+            setError(t('lens.artworkEmpty'));
+        } catch (err) {
+            if (isCancelled(err)) return false;
+            console.error("Artwork generation failed:", err);
+            setError(`${t('artwork.refineError')} ${describeError(err, t('lens.artworkHint'))}`);
+        } finally {
+            if (!signal.aborted) setIsWorking(false);
+        }
+        return false;
+    };
+
+    const regenerate = (nextStyleId = styleId) => run((signal) => generateArtwork({ landmarkName, details, styleId: nextStyleId, photo, signal }));
+
+    const handleStyleChange = (e) => {
+        onStyleChange(e.target.value);
+        regenerate(e.target.value);
+    };
+
+    const handleRefine = (e) => {
+        e.preventDefault();
+        const text = instruction.trim();
+        if (!text || !image) return;
+        run((signal) => refineArtwork(image, text, styleId, signal)).then(done => done && setInstruction(''));
+    };
+
+    const downloadPostcard = async () => {
+        try {
+            const link = document.createElement('a');
+            link.href = await createPostcard(image, caption);
+            link.download = `${destination.id}-postcard.jpg`;
+            link.click();
+        } catch (err) {
+            console.error("Postcard failed:", err);
+            setError(t('artwork.postcardError'));
+        }
+    };
+
+    const isBusy = isGenerating || isWorking;
+
+    return (
+        <div className="stylized-image-container">
+            <h3>{t('artwork.title')}</h3>
+            <div className="artwork-controls">
+                <select className="voice-selector" value={styleId} onChange={handleStyleChange} disabled={isBusy || !isOnline} aria-label={t('artwork.style')}>
+                    {ART_STYLES.map(style => <option key={style.id} value={style.id}>{t(style.label)}</option>)}
+                </select>
+                <button className="button" onClick={() => regenerate()} disabled={isBusy || !isOnline} title={t('artwork.regenerateTitle')}>
+                    <span className="material-icons" aria-hidden="true">refresh</span> {t('artwork.regenerate')}
+                </button>
+            </div>
+            {isBusy && <Loader />}
+            {!isBusy && (error || generationError) && <p role="alert" style={{ color: 'red' }}>{error || generationError}</p>}
+            {image && (
+                <>
+                    <img src={image} alt={t('artwork.alt', { name: landmarkName, style: t((ART_STYLES.find(style => style.id === styleId) || ART_STYLES[0]).label) })} className="image-preview" />
+                    <form className="chat-input-form" onSubmit={handleRefine}>
+                        <input
+                            type="text"
+                            className="chat-input"
+                            value={instruction}
+                            onChange={(e) => setInstruction(e.target.value)}
+                            placeholder={t('artwork.refinePlaceholder')}
+                            aria-label={t('artwork.refineLabel')}
+                            disabled={isBusy || !isOnline}
+                        />
+                        <button type="submit" className="button" disabled={isBusy || !instruction.trim() || !isOnline} aria-label={t('artwork.refine')}>
+                            <span className="material-icons" aria-hidden="true">auto_fix_high</span>
+                        </button>
+                    </form>
+                    <div className="artwork-controls">
+                        <input
+                            type="text"
+                            className="chat-input"
+                            value={caption}
+                            onChange={(e) => setCaption(e.target.value)}
+                            aria-label={t('artwork.captionLabel')}
+                        />
+                        <button className="button" onClick={downloadPostcard} disabled={isBusy}>
+                            <span className="material-icons" aria-hidden="true">download</span> {t('artwork.postcard')}
+                        </button>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default ArtisticImpression;
@@ -0,0 +1,70 @@
+import React from 'react';
+import { audioEngine, useAudioEngine, PLAYBACK_RATES } from '../services/audioEngine';
+import { useTranslation } from '../services/i18n';
+
+const formatTime = (seconds: number) => {
+    const whole = Math.floor(seconds);
+    return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+// Mini player pinned to the bottom of the screen whenever Mimi is talking.
+const AudioPlayer = () => {
+    const { t } = useTranslation();
+    const { status, label, duration, position, rate, queueLength } = useAudioEngine();
+
+    if (status === 'idle') return null;
+
+    const isLoading = status === 'loading';
+    const progress = duration ? (position / duration) * 100 : 0;
+
+    return (
+        <>
+        {/* Keeps the end of the page scrollable out from under the player. */}
+        <div className="audio-player-spacer" />
+        <div className="audio-player" role="region" aria-label={t('audio.player')}>
+            <div className="audio-player-progress" style={{ width: `${progress}%` }} />
+            <button
+                className="audio-player-button"
+                onClick={() => audioEngine.togglePause()}
+                disabled={isLoading}
+                aria-label={status === 'playing' ? t('audio.pause') : t('audio.play')}
+            >
+                <span className="material-icons" aria-hidden="true">{isLoading ? 'hourglass_empty' : status === 'playing' ? 'pause' : 'play_arrow'}</span>
+            </button>
+            <div className="audio-player-body">
+                <span className="audio-player-label" title={label}>
+                    {isLoading ? t('audio.preparing') : label}
+                    {queueLength > 0 && <span className="audio-player-queue"> {t('audio.queued', { count: queueLength })}</span>}
+                </span>
+                <div className="audio-player-timeline">
+                    <span>{formatTime(position)}</span>
+                    <input
+                        type="range"
+                        min={0}
+                        max={duration || 0}
+                        step={0.1}
+                        value={position}
+                        onChange={e => audioEngine.seek(Number(e.target.value))}
+                        disabled={isLoading}
+                        aria-label={t('audio.seek')}
+                    />
+                    <span>{formatTime(duration)}</span>
+                </div>
+            </div>
+            <select
+                className="audio-player-rate"
+                value={rate}
+                onChange={e => audioEngine.setRate(Number(e.target.value))}
+                aria-label={t('audio.speed')}
+            >
+                {PLAYBACK_RATES.map(r => <option key={r} value={r}>{r}×</option>)}
+            </select>
+            <button className="audio-player-button" onClick={() => audioEngine.stop()} aria-label={t('audio.stop')}>
+                <span className="material-icons" aria-hidden="true">stop</span>
+            </button>
+        </div>
+        </>
+    );
+};
+
+export default AudioPlayer;
@@ -0,0 +1,162 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { AUTO_DETECT, findLanguage, getSpeechCode } from '../services/languages';
+import { audioEngine } from '../services/audioEngine';
+import { translate } from '../services/translation';
+import { describeError, isCancelled } from '../services/ai';
+import { useRequestSignal } from '../services/cancellation';
+import { useTranslation } from '../services/i18n';
+
+// Face-to-face mode: speaker A is the tourist, speaker B the person they're talking to.
+const otherSpeaker = (speaker) => speaker === 'a' ? 'b' : 'a';
+
+const isSameLanguage = (a, b) => Boolean(a && b) && (findLanguage(a)?.name || a) === (findLanguage(b)?.name || b);
+
+const ConversationMode = ({ languageA, languageB, context, voice, onExit }) => {
+    const { t } = useTranslation();
+    const [turns, setTurns] = useState([]);
+    const [activeSpeaker, setActiveSpeaker] = useState(null);
+    const [phase, setPhase] = useState('idle');
+    const [error, setError] = useState('');
+    const recognitionRef = useRef(null);
+    const isRunningRef = useRef(false);
+    const nextSignal = useRequestSignal();
+
+    const languageOf = (speaker) => speaker === 'a' ? languageA : languageB;
+
+    useEffect(() => () => {
+        isRunningRef.current = false;
+        recognitionRef.current?.abort();
+        audioEngine.stop();
+    }, []);
+
+    const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
+
+    const listen = (speaker) => {
+        recognitionRef.current?.abort();
+        const recognition = new SpeechRecognition();
+        recognition.continuous = false;
+        recognition.interimResults = false;
+        recognition.lang = getSpeechCode(languageOf(speaker));
+        let heardSomething = false;
+        recognition.onresult = (event) => {
+            heardSomething = true;
+            handleUtterance(speaker, event.results[0][0].transcript);
+        };
+        recognition.onerror = (event) => {
+            if (event.error !== 'no-speech' && event.error !== 'aborted') {
+                console.error("Speech recognition error:", event.error);
+                setError(`${t('conversation.hearError')} ${t('conversation.retry')}`);
+                stop();
+            }
+        };
+        // Silence just means nobody spoke yet; keep the same side listening while the conversation runs.
+        recognition.onend = () => {
+            if (!heardSomething && isRunningRef.current && recognitionRef.current === recognition) {
+                listen(speaker);
+            }
+        };
+        recognitionRef.current = recognition;
+        setActiveSpeaker(speaker);
+        setPhase('listening');
+        recognition.start();
+    };
+
+    const handleUtterance = async (speaker, text) => {
+        if (!text.trim()) return;
+        setPhase('translating');
+        const signal = nextSignal();
+        try {
+            // The tap tells us who we expect, but detection has the final word on who actually spoke.
+            let actualSpeaker = speaker;
+            let result = await translate({ text, from: AUTO_DETECT, to: languageOf(otherSpeaker(speaker)), context, signal });
+            if (isSameLanguage(result.detectedLanguage, languageOf(otherSpeaker(speaker)))) {
+                actualSpeaker = otherSpeaker(speaker);
+                result = await translate({ text, from: languageOf(actualSpeaker), to: languageOf(speaker), context, signal });
+            }
+            if (!isRunningRef.current) return;
+
+            setTurns(prev => [...prev, { id: crypto.randomUUID(), speaker: actualSpeaker, original: text, translation: result.translation }]);
+            setActiveSpeaker(actualSpeaker);
+            setPhase('speaking');
+            const outcome = await audioEngine.play({ text: result.translation, voice, label: t('translator.audioLabel', { language: languageOf(otherSpeaker(actualSpeaker)) }) });
+            if (outcome === 'ended' && isRunningRef.current) {
+                listen(otherSpeaker(actualSpeaker));
+            }
+        } catch (err) {
+            if (isCancelled(err)) return;
+            console.error("Conversation turn failed:", err);
+            setError(`${t('conversation.translateError')} ${describeError(err, t('conversation.retry'))}`);
+            stop();
+        }
+    };
+
+    const start = (speaker) => {
+        setError('');
+        isRunningRef.current = true;
+        listen(speaker);
+    };
+
+    const stop = () => {
+        isRunningRef.current = false;
+        recognitionRef.current?.abort();
+        recognitionRef.current = null;
+        audioEngine.stop();
+        setActiveSpeaker(null);
+        setPhase('idle');
+    };
+
+    const statusText = {
+        idle: t('conversation.idle'),
+        listening: t('conversation.listening', { language: languageOf(activeSpeaker) }),
+        translating: t('translator.translating'),
+        speaking: t('conversation.speaking', { language: languageOf(otherSpeaker(activeSpeaker)) }),
+    }[phase];
+
+    const renderSide = (speaker) => (
+        <div className={`conversation-side side-${speaker} ${activeSpeaker === speaker && phase === 'listening' ? 'active' : ''}`}>
+            <div className="conversation-side-header">
+                <span className="lang-label">{languageOf(speaker)}</span>
+                <button
+                    type="button"
+                    className={`button voice-button ${activeSpeaker === speaker && phase === 'listening' ? 'recording' : ''}`}
+                    onClick={() => start(speaker)}
+                    disabled={!SpeechRecognition || phase === 'translating' || phase === 'speaking'}
+                    title={t('conversation.speak', { language: languageOf(speaker) })}
+                    aria-label={t('conversation.speak', { language: languageOf(speaker) })}
+                >
+                    <span className="material-icons" aria-hidden="true">mic</span>
+                </button>
+            </div>
+            <div className="conversation-transcript">
+                {turns.map(turn => (
+                    <p key={turn.id} className={turn.speaker === speaker ? 'own-turn' : 'other-turn'}>
+                        {turn.speaker === speaker ? turn.original : turn.translation}
+                    </p>
+                ))}
+            </div>
+        </div>
+    );
+
+    return (
+        <div className="conversation-mode">
+            {renderSide('b')}
+            <div className="conversation-divider">
+                <span>{error || statusText}</span>
+                <div style={{ display: 'flex', gap: '5px' }}>
+                    {phase !== 'idle' && (
+                        <button type="button" className="button" onClick={stop} title={t('conversation.pause')} aria-label={t('conversation.pause')}>
+                            <span className="material-icons" aria-hidden="true">pause</span>
+                        </button>
+                    )}
+                    <button type="button" className="button" onClick={() => { stop(); onExit(); }} title={t('conversation.exit')} aria-label={t('conversation.exit')}>
+                        <span className="material-icons" aria-hidden="true">close</span>
+                    </button>
+                </div>
+            </div>
+            {renderSide('a')}
+            {!SpeechRecognition && <p role="alert" style={{ color: 'red' }}>{t('conversation.unsupported')}</p>}
+        </div>
+    );
+};
+
+export default ConversationMode;
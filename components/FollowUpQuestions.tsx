@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import Markdown from './Markdown';
+import { describeError, isCancelled } from '../services/ai';
+import { useRequestSignal } from '../services/cancellation';
+import { useTranslation } from '../services/i18n';
+import Loader from './Loader';
+
+// Questions about a landmark Mimi has just identified, asked in a chat that still has the photos in context.
+const FollowUpQuestions = ({ chat, isOnline = true }) => {
+    const { t } = useTranslation();
+    const [exchanges, setExchanges] = useState([]);
+    const [question, setQuestion] = useState('');
+    const [isLoading, setIsLoading] = useState(false);
+    const nextSignal = useRequestSignal();
+
+    const ask = async (e) => {
+        e.preventDefault();
+        const text = question.trim();
+        if (!text || !chat) return;
+        const id = crypto.randomUUID();
+        setExchanges(prev => [...prev, { id, question: text, answer: '', sources: [] }]);
+        setQuestion('');
+        setIsLoading(true);
+        const signal = nextSignal();
+        try {
+            const { text: answer, sources } = await chat.sendMessage(text, { signal });
+            setExchanges(prev => prev.map(x => x.id === id ? { ...x, answer, sources } : x));
+        } catch (err) {
+            if (isCancelled(err)) return;
+            console.error("Follow-up failed:", err);
+            setExchanges(prev => prev.map(x => x.id === id ? { ...x, answer: `${t('guide.answerError')} ${describeError(err)}` } : x));
+        } finally {
+            if (!signal.aborted) setIsLoading(false);
+        }
+    };
+
+    return (
+        <div className="follow-up">
+            <h3>{t('followUp.title')}</h3>
+            <div role="log" aria-live="polite">
+                {exchanges.map(x => (
+                    <div key={x.id} className="follow-up-exchange">
+                        <div className="chat-message user-message">{x.question}</div>
+                        {x.answer && (
+                            <div className="chat-message model-message">
+                                <Markdown text={x.answer} />
+                                {x.sources.length > 0 && (
+                                    <div className="message-sources">
+                                        <span className="material-icons" aria-hidden="true">link</span>
+                                        {x.sources.map(source => (
+                                            <a key={source.uri} href={source.uri} target="_blank" rel="noopener noreferrer">{source.title}</a>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                ))}
+            </div>
+            {isLoading && <Loader label={t('guide.thinking')} />}
+            <form className="chat-input-form" onSubmit={ask}>
+                <input
+                    type="text"
+                    className="chat-input"
+                    value={question}
+                    onChange={e => setQuestion(e.target.value)}
+                    placeholder={t('followUp.placeholder')}
+                    aria-label={t('followUp.label')}
+                    disabled={isLoading || !isOnline}
+                />
+                <button type="submit" className="button" disabled={isLoading || !question.trim() || !isOnline} aria-label={t('followUp.ask')}>
+                    <span className="material-icons" aria-hidden="true">send</span>
+                </button>
+            </form>
+        </div>
+    );
+};
+
+export default FollowUpQuestions;
@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { DIETARY_NEEDS, suggestFood, explainDish, type DietaryNeed } from '../services/food';
+import { describeError, isCancelled } from '../services/ai';
+import { useSetting } from '../services/settings';
+import { useRequestSignal } from '../services/cancellation';
+import { useTranslation } from '../services/i18n';
+import { useDestination } from '../services/destination';
+import { announce } from '../services/announcer';
+import { audioEngine } from '../services/audioEngine';
+import { PHRASEBOOK_VOICE } from '../data/phrasebook';
+import Markdown from './Markdown';
+import Loader from './Loader';
+
+// The visitor's dietary needs shape both the nearby suggestions and every dish Mimi explains.
+const Food = ({ location, isOnline = true }) => {
+    const { t } = useTranslation();
+    const destination = useDestination();
+    const [needs, setNeeds] = useSetting<DietaryNeed[]>('dietaryNeeds', []);
+    const [suggestions, setSuggestions] = useState(null);
+    const [isSuggesting, setIsSuggesting] = useState(false);
+    const [suggestError, setSuggestError] = useState('');
+    const [dish, setDish] = useState('');
+    const [explanation, setExplanation] = useState(null);
+    const [isExplaining, setIsExplaining] = useState(false);
+    const [explainError, setExplainError] = useState('');
+    const [audioError, setAudioError] = useState('');
+    const nextSuggestSignal = useRequestSignal();
+    const nextExplainSignal = useRequestSignal();
+
+    const toggleNeed = (need: DietaryNeed) => {
+        setNeeds(needs.includes(need) ? needs.filter(n => n !== need) : [...needs, need]);
+    };
+
+    const findFood = async () => {
+        const signal = nextSuggestSignal();
+        setIsSuggesting(true);
+        setSuggestError('');
+        try {
+            setSuggestions(await suggestFood({ needs, location, signal }));
+            announce(t('food.suggestionsReady'));
+        } catch (err) {
+            if (isCancelled(err)) return;
+            console.error("Food suggestions failed:", err);
+            setSuggestError(`${t('food.suggestError')} ${describeError(err)}`);
+        } finally {
+            if (!signal.aborted) setIsSuggesting(false);
+        }
+    };
+
+    const explain = async (name: string) => {
+        const text = name.trim();
+        if (!text) return;
+        const signal = nextExplainSignal();
+        setIsExplaining(true);
+        setExplainError('');
+        setAudioError('');
+        setExplanation(null);
+        try {
+            const result = await explainDish({ dish: text, needs, signal });
+            setExplanation(result);
+            setDish('');
+            announce(t('food.dishReady', { name: result.name || text }));
+        } catch (err) {
+            if (isCancelled(err)) return;
+            console.error("Dish explanation failed:", err);
+            setExplainError(`${t('food.explainError')} ${describeError(err)}`);
+        } finally {
+            if (!signal.aborted) setIsExplaining(false);
+        }
+    };
+
+    const handleExplain = (e) => {
+        e.preventDefault();
+        explain(dish);
+    };
+
+    const playOrderPhrase = () => {
+        setAudioError('');
+        audioEngine.play({ text: explanation.orderPhrase, voice: PHRASEBOOK_VOICE, label: explanation.name }).catch(err => {
+            console.error("Order phrase playback failed:", err);
+            setAudioError(`${t('analysis.audioError')} ${describeError(err)}`);
+        });
+    };
+
+    // Only the needs the visitor actually set count against a dish.
+    const unsuitableLabels = explanation
+        ? DIETARY_NEEDS.filter(need => needs.includes(need.id) && explanation.unsuitableFor.includes(need.id)).map(need => t(need.label))
+        : [];
+
+    return (
+        <div className="card">
+            <p>{t('food.intro')}</p>
+            <fieldset className="tour-option">
+                <legend className="voice-label">{t('food.dietaryNeeds')}</legend>
+                {DIETARY_NEEDS.map(need => (
+                    <label key={need.id} className="chip">
+                        <input type="checkbox" checked={needs.includes(need.id)} onChange={() => toggleNeed(need.id)} />
+                        {t(need.label)}
+                    </label>
+                ))}
+            </fieldset>
+            {!isOnline && <p className="offline-notice">{t('food.offline')}</p>}
+
+            <button className="button" onClick={findFood} disabled={isSuggesting || !isOnline}>
+                <span className="material-icons" aria-hidden="true">restaurant</span>
+                {t('food.findNearby')}
+            </button>
+            {isSuggesting && <Loader label={t('food.suggesting')} />}
+            {suggestError && <p role="alert" style={{ color: 'red' }}>{suggestError}</p>}
+            {suggestions && (
+                <div className="result-container">
+                    <Markdown text={suggestions.text} />
+                    {suggestions.sources.length > 0 && (
+                        <div className="grounding-sources">
+                            <h3>{t('analysis.sources')}</h3>
+                            {suggestions.sources.map((source, index) => (
+                                <a key={index} href={source.uri} target="_blank" rel="noopener noreferrer">{source.title}</a>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+
+            <h3>{t('food.dishTitle')}</h3>
+            <div className="food-specialities" role="group" aria-label={t('food.specialities')}>
+                {destination.specialities.map(speciality => (
+                    <button key={speciality} type="button" className="chip" onClick={() => explain(speciality)} disabled={isExplaining || !isOnline}>
+                        {speciality}
+                    </button>
+                ))}
+            </div>
+            <form className="chat-input-form" onSubmit={handleExplain}>
+                <input
+                    type="text"
+                    className="chat-input"
+                    value={dish}
+                    onChange={(e) => setDish(e.target.value)}
+                    placeholder={t('food.dishPlaceholder')}
+                    aria-label={t('food.dishLabel')}
+                    disabled={isExplaining || !isOnline}
+                />
+                <button type="submit" className="button" disabled={isExplaining || !dish.trim() || !isOnline} aria-label={t('food.explain')}>
+                    <span className="material-icons" aria-hidden="true">menu_book</span>
+                </button>
+            </form>
+            {isExplaining && <Loader label={t('food.explaining')} />}
+            {explainError && <p role="alert" style={{ color: 'red' }}>{explainError}</p>}
+            {explanation && (
+                <div className="result-container">
+                    <h3>{explanation.name}</h3>
+                    <p>{explanation.description}</p>
+                    <p className="food-allergens">
+                        <span className="material-icons" aria-hidden="true">warning_amber</span>
+                        {explanation.allergens.length > 0 ? t('food.allergens', { allergens: explanation.allergens.join(', ') }) : t('food.noAllergens')}
+                    </p>
+                    {needs.length > 0 && (unsuitableLabels.length > 0
+                        ? <p className="food-warning">{t('food.unsuitable', { needs: unsuitableLabels.join(', ') })}</p>
+                        : <p>{t('food.suitable')}</p>)}
+                    <div className="order-phrase">
+                        <p lang="it"><strong>{explanation.orderPhrase}</strong></p>
+                        <p className="saved-place-meta">{explanation.orderPhraseMeaning}</p>
+                        <button className="button" onClick={playOrderPhrase} disabled={!isOnline}>
+                            <span className="material-icons" aria-hidden="true">volume_up</span>
+                            {t('food.howToOrder')}
+                        </button>
+                    </div>
+                    {audioError && <p role="alert" style={{ color: 'red' }}>{audioError}</p>}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default Food;
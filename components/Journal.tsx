@@ -0,0 +1,125 @@
+import React, { useState, useEffect } from 'react';
+import { listJournalEntries, deleteJournalEntry, JOURNAL_KIND_LABELS } from '../services/journal';
+import { JOURNAL_FORMATS, exportJournal, canShareJournal, shareJournalFile, downloadJournalFile, printJournal } from '../services/journalExport';
+import { useTranslation } from '../services/i18n';
+import Markdown from './Markdown';
+import Loader from './Loader';
+
+const formatDay = (time) => new Date(time).toLocaleDateString(undefined, { weekday: 'long', day: 'numeric', month: 'long' });
+
+const Journal = () => {
+    const { t } = useTranslation();
+    const [entries, setEntries] = useState([]);
+    const [format, setFormat] = useState('html');
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        listJournalEntries()
+            .then(setEntries)
+            .catch(err => {
+                console.error("Failed to load journal:", err);
+                setError(t('journal.loadError'));
+            })
+            .finally(() => setIsLoading(false));
+    }, []);
+
+    const handleDelete = async (id) => {
+        try {
+            await deleteJournalEntry(id);
+            setEntries(prev => prev.filter(entry => entry.id !== id));
+        } catch (err) {
+            console.error("Failed to delete journal entry:", err);
+            setError(t('journal.deleteError'));
+        }
+    };
+
+    const handleShare = async () => {
+        setError('');
+        try {
+            await shareJournalFile(exportJournal(entries, format));
+        } catch (err) {
+            console.error("Sharing failed:", err);
+            setError(t('journal.shareError'));
+        }
+    };
+
+    const handlePrint = () => {
+        setError('');
+        try {
+            printJournal(entries);
+        } catch (err) {
+            console.error("Printing failed:", err);
+            setError(t('journal.printError'));
+        }
+    };
+
+    // The book icon sits where the message says {icon}.
+    const [emptyBefore, emptyAfter = ''] = t('journal.empty').split('{icon}');
+
+    // Entries are stored oldest first; group them by day for reading.
+    const days = [];
+    for (const entry of entries) {
+        const day = formatDay(entry.createdAt);
+        if (days[days.length - 1]?.day !== day) days.push({ day, entries: [] });
+        days[days.length - 1].entries.push(entry);
+    }
+
+    return (
+        <div className="card">
+            <p>{t('journal.intro')}</p>
+            <div className="journal-export">
+                <select className="voice-selector" value={format} onChange={(e) => setFormat(e.target.value)} aria-label={t('journal.format')}>
+                    {Object.entries(JOURNAL_FORMATS).map(([id, { label }]) => (
+                        <option key={id} value={id}>{t(label)}</option>
+                    ))}
+                </select>
+                <button className="button" onClick={() => downloadJournalFile(exportJournal(entries, format))} disabled={entries.length === 0}>
+                    <span className="material-icons" aria-hidden="true">download</span> {t('journal.download')}
+                </button>
+                {canShareJournal(format) && (
+                    <button className="button" onClick={handleShare} disabled={entries.length === 0}>
+                        <span className="material-icons" aria-hidden="true">share</span> {t('journal.share')}
+                    </button>
+                )}
+                <button className="button" onClick={handlePrint} disabled={entries.length === 0}>
+                    <span className="material-icons" aria-hidden="true">picture_as_pdf</span> {t('journal.print')}
+                </button>
+            </div>
+            {isLoading && <Loader />}
+            {error && <p role="alert" style={{ color: 'red' }}>{error}</p>}
+            {!isLoading && entries.length === 0 && !error && (
+                <p className="saved-places-empty">{emptyBefore}<span className="material-icons" aria-hidden="true">book</span>{emptyAfter}</p>
+            )}
+            {days.map(({ day, entries: dayEntries }) => (
+                <section key={day}>
+                    <h3 className="journal-day">{day}</h3>
+                    {dayEntries.map(entry => (
+                        <article key={entry.id} className="journal-entry">
+                            <div className="journal-entry-header">
+                                <span className="material-icons" aria-hidden="true">{JOURNAL_KIND_LABELS[entry.kind].icon}</span>
+                                <h4>{entry.title}</h4>
+                                <button className="button" onClick={() => handleDelete(entry.id)} title={t('journal.remove')} aria-label={t('journal.remove')}>
+                                    <span className="material-icons" aria-hidden="true">delete</span>
+                                </button>
+                            </div>
+                            <p className="saved-place-meta">
+                                {new Date(entry.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                                {entry.location && ` · ${entry.location.latitude.toFixed(4)}, ${entry.location.longitude.toFixed(4)}`}
+                            </p>
+                            {(entry.photo || entry.artwork) && (
+                                <div className="journal-entry-images">
+                                    {entry.photo && <img src={entry.photo} alt={t('journal.photoAlt')} />}
+                                    {entry.artwork && <img src={entry.artwork} alt={t('journal.artworkAlt')} />}
+                                </div>
+                            )}
+                            {entry.kind === 'chat' ? <Markdown text={entry.text} /> : <p className="journal-entry-text">{entry.text}</p>}
+                        </article>
+                    ))}
+                </section>
+            ))}
+        </div>
+    );
+};
+
+export default Journal;
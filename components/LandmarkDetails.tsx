@@ -0,0 +1,46 @@
+import React from 'react';
+import { ANALYSIS_SECTIONS } from '../services/landmarkAnalysis';
+import { useTranslation, type MessageKey } from '../services/i18n';
+
+const CONFIDENCE_LABELS: Record<string, MessageKey> = {
+    high: 'analysis.confidence.high',
+    medium: 'analysis.confidence.medium',
+    low: 'analysis.confidence.low',
+};
+
+// The sections of a structured Magic Lens identification. When Mimi isn't sure, `onConfirm(name)` lets
+// the user say which place it really is.
+const LandmarkDetails = ({ analysis, onConfirm = null, disabled = false }) => {
+    const { t } = useTranslation();
+    const needsConfirmation = analysis.confidence === 'low' && onConfirm;
+
+    return (
+        <div className="landmark-details">
+            <div className="landmark-details-title">
+                <h4>{analysis.name}</h4>
+                <span className={`confidence-badge ${analysis.confidence}`}>{t(CONFIDENCE_LABELS[analysis.confidence])}</span>
+            </div>
+            {needsConfirmation && (
+                <div className="landmark-confirm">
+                    <p>{t('analysis.confirmQuestion', { name: analysis.name })}</p>
+                    <div className="landmark-confirm-options">
+                        <button className="button" onClick={() => onConfirm(analysis.name)} disabled={disabled}>
+                            <span className="material-icons" aria-hidden="true">check</span> {t('analysis.confirmYes', { name: analysis.name })}
+                        </button>
+                        {analysis.alternatives.map(name => (
+                            <button key={name} className="button" onClick={() => onConfirm(name)} disabled={disabled}>{name}</button>
+                        ))}
+                    </div>
+                </div>
+            )}
+            {ANALYSIS_SECTIONS.filter(section => analysis[section.key]).map(section => (
+                <section key={section.key} className="landmark-section">
+                    <h5><span className="material-icons" aria-hidden="true">{section.icon}</span> {t(section.label)}</h5>
+                    <p>{analysis[section.key]}</p>
+                </section>
+            ))}
+        </div>
+    );
+};
+
+export default LandmarkDetails;
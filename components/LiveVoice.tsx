@@ -0,0 +1,83 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { LiveConversation } from '../services/liveVoice';
+import { describeError } from '../services/ai';
+import { useTranslation, type MessageKey } from '../services/i18n';
+
+const STATUS_TEXT: Record<string, MessageKey> = {
+    connecting: 'live.connecting',
+    listening: 'live.listening',
+    speaking: 'live.speaking',
+    closed: 'live.closed',
+};
+
+// Hands-free voice chat with Mimi. `onExit` receives the transcript so it can join the written conversation.
+const LiveVoice = ({ systemInstruction, voice = 'Kore', onExit }) => {
+    const { t } = useTranslation();
+    const [status, setStatus] = useState('connecting');
+    const [turns, setTurns] = useState([]);
+    const [error, setError] = useState('');
+    const conversationRef = useRef(null);
+    const turnsRef = useRef(turns);
+    const transcriptRef = useRef(null);
+
+    turnsRef.current = turns;
+
+    useEffect(() => {
+        const conversation = new LiveConversation({
+            onStatus: setStatus,
+            onTranscript: (role, text) => setTurns(prev => {
+                const last = prev[prev.length - 1];
+                if (last?.role === role && !last.interrupted) {
+                    return [...prev.slice(0, -1), { ...last, text: last.text + text }];
+                }
+                return [...prev, { id: crypto.randomUUID(), role, text }];
+            }),
+            onInterrupted: () => setTurns(prev => {
+                const last = prev[prev.length - 1];
+                return last?.role === 'model' ? [...prev.slice(0, -1), { ...last, interrupted: true }] : prev;
+            }),
+            onError: (err) => {
+                console.error("Live session failed:", err);
+                setError(err.name === 'NotAllowedError'
+                    ? t('live.micDenied')
+                    : `${t('live.dropped')} ${describeError(err)}`);
+            },
+        });
+        conversationRef.current = conversation;
+        conversation.start({ systemInstruction, voice });
+        return () => conversation.stop();
+    }, []);
+
+    useEffect(() => {
+        if (transcriptRef.current) {
+            transcriptRef.current.scrollTop = transcriptRef.current.scrollHeight;
+        }
+    }, [turns]);
+
+    const handleExit = () => {
+        conversationRef.current?.stop();
+        onExit(turnsRef.current.filter(turn => turn.text.trim()));
+    };
+
+    return (
+        <div className="live-voice">
+            <div className={`live-voice-status ${status}`} role="status">
+                <span className="material-icons" aria-hidden="true">{status === 'speaking' ? 'record_voice_over' : status === 'closed' ? 'mic_off' : 'mic'}</span>
+                {error || t(STATUS_TEXT[status])}
+            </div>
+            <div className="live-voice-transcript" ref={transcriptRef} aria-live="polite">
+                {turns.map(turn => (
+                    <div key={turn.id} className={`chat-message ${turn.role === 'user' ? 'user-message' : 'model-message'}`}>
+                        {turn.text}
+                        {turn.interrupted && <span className="message-status">{t('live.interrupted')}</span>}
+                    </div>
+                ))}
+            </div>
+            <button className="button" onClick={handleExit}>
+                <span className="material-icons" aria-hidden="true">call_end</span> {t('live.end')}
+            </button>
+        </div>
+    );
+};
+
+export default LiveVoice;
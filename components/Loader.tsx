@@ -0,0 +1,15 @@
+import React from 'react';
+import { useTranslation } from '../services/i18n';
+
+// The flashing dots shown while Mimi works, announced to screen readers as a status instead of silence.
+const Loader = ({ label = '', style = undefined }) => {
+    const { t } = useTranslation();
+    return (
+        <div className="loader" role="status" style={style}>
+            <div className="dot-flashing" aria-hidden="true"></div>
+            <span className="visually-hidden">{label || t('a11y.loading')}</span>
+        </div>
+    );
+};
+
+export default Loader;
@@ -0,0 +1,165 @@
+import React, { useState, useEffect, useRef } from 'react';
+import * as L from 'leaflet';
+import { ai, describeError, isCancelled } from '../services/ai';
+import { useRequestSignal } from '../services/cancellation';
+import { LANDMARK_CATEGORIES } from '../data/landmarks';
+import { formatDistance, sortByDistance } from '../services/geo';
+import { languageInstruction, useTranslation } from '../services/i18n';
+import { useDestination, describePlace, themesInstruction } from '../services/destination';
+import { announce } from '../services/announcer';
+import AnalysisCard from './AnalysisCard';
+import Loader from './Loader';
+
+const createPinIcon = (category) => {
+    const { icon, color } = LANDMARK_CATEGORIES[category];
+    return L.divIcon({
+        className: 'landmark-pin',
+        html: `<span class="material-icons" aria-hidden="true" style="color: ${color}">${icon}</span>`,
+        iconSize: [32, 32],
+        iconAnchor: [16, 16],
+    });
+};
+
+const MapView = ({ location, isOnline = true, focusedLandmarkId = null }) => {
+    const { t } = useTranslation();
+    const destination = useDestination();
+    const { landmarks, center } = destination;
+    const [selectedId, setSelectedId] = useState(focusedLandmarkId);
+    const [details, setDetails] = useState({});
+    const [isLoadingDetails, setIsLoadingDetails] = useState(false);
+    const [error, setError] = useState('');
+    const mapContainerRef = useRef(null);
+    const mapRef = useRef(null);
+    const userMarkerRef = useRef(null);
+    const cardRef = useRef(null);
+    const nextSignal = useRequestSignal();
+
+    useEffect(() => {
+        const focused = landmarks.find(landmark => landmark.id === focusedLandmarkId);
+        const map = L.map(mapContainerRef.current, {
+            center: focused ? [focused.latitude, focused.longitude] : [center.latitude, center.longitude],
+            zoom: focused ? 18 : 16,
+        });
+        L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
+            maxZoom: 19,
+            attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+        }).addTo(map);
+        landmarks.forEach(landmark => {
+            L.marker([landmark.latitude, landmark.longitude], { icon: createPinIcon(landmark.category), title: landmark.name })
+                .on('click', () => setSelectedId(landmark.id))
+                .addTo(map);
+        });
+        mapRef.current = map;
+        return () => {
+            map.remove();
+            mapRef.current = null;
+            userMarkerRef.current = null;
+        };
+    }, [destination]);
+
+    useEffect(() => {
+        const map = mapRef.current;
+        if (!map || !location) return;
+        const position: L.LatLngExpression = [location.latitude, location.longitude];
+        if (userMarkerRef.current) {
+            userMarkerRef.current.setLatLng(position);
+        } else {
+            userMarkerRef.current = L.circleMarker(position, { radius: 8, color: '#fff', weight: 3, fillColor: '#1565c0', fillOpacity: 1 })
+                .bindTooltip(t('map.youAreHere'))
+                .addTo(map);
+        }
+    }, [location]);
+
+    // A nearby-landmark alert can point the map somewhere new while it's already open.
+    useEffect(() => {
+        const focused = landmarks.find(landmark => landmark.id === focusedLandmarkId);
+        if (focused && mapRef.current) {
+            selectLandmark(focused);
+        }
+    }, [focusedLandmarkId]);
+
+    useEffect(() => {
+        if (selectedId) {
+            cardRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+        }
+    }, [selectedId]);
+
+    const selectLandmark = (landmark) => {
+        setSelectedId(landmark.id);
+        setError('');
+        mapRef.current?.flyTo([landmark.latitude, landmark.longitude], 18);
+    };
+
+    const loadDetails = async (landmark) => {
+        const signal = nextSignal();
+        setIsLoadingDetails(true);
+        setError('');
+        try {
+            const prompt = `Act as a tour guide named Mimi. Use search to tell me about ${landmark.name} in ${describePlace(destination)}: its history, architectural style, and cultural significance. ${themesInstruction(destination)} Mention anything that connects it to those. ${languageInstruction()}`;
+            const response = await ai.generateText({ prompt, useSearch: true, signal });
+            setDetails(prev => ({ ...prev, [landmark.id]: response }));
+            announce(t('map.detailsReady', { name: landmark.name }));
+        } catch (err) {
+            if (isCancelled(err)) return;
+            console.error("Failed to load landmark details:", err);
+            setError(`${t('map.detailsError')} ${describeError(err)}`);
+        } finally {
+            if (!signal.aborted) setIsLoadingDetails(false);
+        }
+    };
+
+    const selected = landmarks.find(landmark => landmark.id === selectedId);
+    const selectedDetails = selected && details[selected.id];
+    const nearby = sortByDistance(landmarks, location || center);
+
+    return (
+        <div className="card">
+            <div className="map-container" ref={mapContainerRef}></div>
+            <div className="map-legend">
+                {Object.values(LANDMARK_CATEGORIES).map(category => (
+                    <span key={category.label}><span className="material-icons" aria-hidden="true" style={{ color: category.color }}>{category.icon}</span> {t(category.label)}</span>
+                ))}
+            </div>
+
+            {selected && (
+                <div ref={cardRef}>
+                    <AnalysisCard
+                        title={selected.name}
+                        text={selectedDetails?.text || selected.summary}
+                        sources={selectedDetails?.sources || selected.sources}
+                        isOnline={isOnline}
+                        headerAction={
+                            <button type="button" className="button" onClick={() => setSelectedId(null)} title={t('map.close')} aria-label={t('map.close')}>
+                                <span className="material-icons" aria-hidden="true">close</span>
+                            </button>
+                        }
+                    >
+                        {!selectedDetails && (
+                            <button onClick={() => loadDetails(selected)} disabled={isLoadingDetails || !isOnline} style={{ marginTop: '1rem' }}>
+                                <span className="material-icons" aria-hidden="true">auto_awesome</span>
+                                {t('map.tellMeMore')}
+                            </button>
+                        )}
+                        {isLoadingDetails && <Loader />}
+                        {error && <p role="alert" style={{ color: 'red' }}>{error}</p>}
+                    </AnalysisCard>
+                </div>
+            )}
+
+            <h3 className="nearby-heading">{location ? t('map.nearMe') : t('map.fromCentre')}</h3>
+            <ul className="nearby-list">
+                {nearby.map(landmark => (
+                    <li key={landmark.id}>
+                        <button type="button" className={`nearby-item ${landmark.id === selectedId ? 'active' : ''}`} onClick={() => selectLandmark(landmark)}>
+                            <span className="material-icons" aria-hidden="true" style={{ color: LANDMARK_CATEGORIES[landmark.category].color }}>{LANDMARK_CATEGORIES[landmark.category].icon}</span>
+                            <span className="nearby-name">{landmark.name}</span>
+                            <span className="nearby-distance">{formatDistance(landmark.distance)}</span>
+                        </button>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+export default MapView;
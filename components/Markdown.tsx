@@ -0,0 +1,98 @@
+import React from 'react';
+import { getDestination } from '../services/destination';
+import { t } from '../services/i18n';
+import { parseInline, parseBlocks, headingLevel, type InlineToken } from '../services/markdown';
+
+// --- A small Markdown renderer for Mimi's replies ---
+// It builds React elements instead of HTML strings, so nothing the model writes is ever injected as markup.
+// Only http(s) and mailto links are rendered as links.
+
+const LEADING_NAME_PATTERN = /^\*\*([^*]+)\*\*\s*[:\-–—]?\s*/;
+
+function renderTokens(tokens: InlineToken[], keyPrefix: string): React.ReactNode[] {
+    return tokens.map((token, index) => {
+        const key = `${keyPrefix}${index}`;
+        switch (token.type) {
+            case 'strong':
+                return <strong key={key}>{renderTokens(token.children, `${key}-`)}</strong>;
+            case 'em':
+                return <em key={key}>{renderTokens(token.children, `${key}-`)}</em>;
+            case 'code':
+                return <code key={key}>{token.text}</code>;
+            case 'link':
+                return <a key={key} href={token.href} target="_blank" rel="noopener noreferrer" onClick={(e) => e.stopPropagation()}>{renderTokens(token.children, `${key}-`)}</a>;
+            default:
+                return <React.Fragment key={key}>{token.text}</React.Fragment>;
+        }
+    });
+}
+
+export function renderInline(text: string, keyPrefix = ''): React.ReactNode[] {
+    return renderTokens(parseInline(text), keyPrefix);
+}
+
+// A list where every item starts with a bold name reads as a list of places to visit.
+function getPlaceItems(items: string[]) {
+    if (items.length < 2) return null;
+    const places = items.map(item => {
+        const match = item.match(LEADING_NAME_PATTERN);
+        return match && { name: match[1].trim(), description: item.slice(match[0].length) };
+    });
+    return places.every(Boolean) ? places : null;
+}
+
+// The name is the card's button when there's something to do with it; the description and the directions link sit
+// beside it, since links can't go inside a button.
+const renderPlaceCard = ({ name, description }, key, onSelect) => {
+    const header = (
+        <>
+            <span className="material-icons" aria-hidden="true">place</span>
+            <strong>{name}</strong>
+        </>
+    );
+    return (
+        <div key={key} className="place-card">
+            {onSelect
+                ? <button type="button" className="place-card-header place-card-action" onClick={() => onSelect(name)}>{header}</button>
+                : <div className="place-card-header">{header}</div>}
+            {description && <p>{renderInline(description)}</p>}
+            <a
+                className="place-card-directions"
+                href={`https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(`${name}, ${getDestination().name}`)}`}
+                target="_blank"
+                rel="noopener noreferrer"
+            >
+                <span className="material-icons" aria-hidden="true">directions</span> {t('place.directions')}
+            </a>
+        </div>
+    );
+};
+
+const Markdown = ({ text, onPlaceSelect = null }) => (
+    <div className="markdown">
+        {parseBlocks(text).map((block, index) => {
+            switch (block.type) {
+                case 'heading': {
+                    const Heading = `h${headingLevel(block.level)}` as 'h3';
+                    return <Heading key={index}>{renderInline(block.text)}</Heading>;
+                }
+                case 'list': {
+                    const places = getPlaceItems(block.items);
+                    if (places) {
+                        return (
+                            <div key={index} className="place-cards">
+                                {places.map((place, i) => renderPlaceCard(place, i, onPlaceSelect))}
+                            </div>
+                        );
+                    }
+                    const List = block.ordered ? 'ol' : 'ul';
+                    return <List key={index}>{block.items.map((item, i) => <li key={i}>{renderInline(item)}</li>)}</List>;
+                }
+                default:
+                    return <p key={index}>{renderInline(block.text)}</p>;
+            }
+        })}
+    </div>
+);
+
+export default Markdown;
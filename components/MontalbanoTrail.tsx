@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import { getTrail, compareWithScene, recreateScene } from '../services/montalbanoTrail';
+import { describeError, isCancelled } from '../services/ai';
+import { useRequestSignal } from '../services/cancellation';
+import { useTranslation } from '../services/i18n';
+import { useDestination } from '../services/destination';
+import { announce } from '../services/announcer';
+import { prepareImage } from '../services/images';
+import { distanceInMeters, formatDistance } from '../services/geo';
+import AnalysisCard from './AnalysisCard';
+import Markdown from './Markdown';
+import Loader from './Loader';
+
+// Only what the model needs; the preview stays in the browser.
+const toInlineImage = ({ mimeType, data }) => ({ mimeType, data });
+
+const MontalbanoTrail = ({ location, isOnline = true }) => {
+    const { t } = useTranslation();
+    const destination = useDestination();
+    const stops = getTrail(destination);
+    const [index, setIndex] = useState(0);
+    const [photo, setPhoto] = useState(null);
+    const [comparison, setComparison] = useState(null);
+    const [recreation, setRecreation] = useState('');
+    const [isComparing, setIsComparing] = useState(false);
+    const [isRecreating, setIsRecreating] = useState(false);
+    const [error, setError] = useState('');
+    const nextCompareSignal = useRequestSignal();
+    const nextRecreateSignal = useRequestSignal();
+
+    const stop = stops[index];
+
+    // Each stop starts a fresh comparison; anything still running for the last one is dropped.
+    const goToStop = (nextIndex) => {
+        nextCompareSignal();
+        nextRecreateSignal();
+        setIndex(nextIndex);
+        setPhoto(null);
+        setComparison(null);
+        setRecreation('');
+        setIsComparing(false);
+        setIsRecreating(false);
+        setError('');
+    };
+
+    const handlePhotoChange = async (e) => {
+        const file = e.target.files[0];
+        // Let the same photo be picked again.
+        e.target.value = '';
+        if (!file) return;
+        setError('');
+        try {
+            setPhoto(await prepareImage(file));
+            setComparison(null);
+            setRecreation('');
+        } catch (err) {
+            console.error("Failed to read photo:", err);
+            setError(t('lens.readError'));
+        }
+    };
+
+    const compare = async () => {
+        const signal = nextCompareSignal();
+        setIsComparing(true);
+        setError('');
+        try {
+            setComparison(await compareWithScene({ stop, photo: toInlineImage(photo), signal }));
+            announce(t('trail.compareReady'));
+        } catch (err) {
+            if (isCancelled(err)) return;
+            console.error("Scene comparison failed:", err);
+            setError(`${t('trail.compareError')} ${describeError(err)}`);
+        } finally {
+            if (!signal.aborted) setIsComparing(false);
+        }
+    };
+
+    const recreate = async () => {
+        const signal = nextRecreateSignal();
+        setIsRecreating(true);
+        setError('');
+        try {
+            const imageUrl = await recreateScene({ stop, photo: toInlineImage(photo), signal });
+            if (imageUrl) {
+                setRecreation(imageUrl);
+                announce(t('trail.recreateReady'));
+            } else {
+                setError(t('trail.recreateEmpty'));
+            }
+        } catch (err) {
+            if (isCancelled(err)) return;
+            console.error("Scene recreation failed:", err);
+            setError(`${t('trail.recreateError')} ${describeError(err)}`);
+        } finally {
+            if (!signal.aborted) setIsRecreating(false);
+        }
+    };
+
+    if (!stop) {
+        return (
+            <div className="card">
+                <p>{t('trail.none')}</p>
+            </div>
+        );
+    }
+
+    const isBusy = isComparing || isRecreating;
+
+    return (
+        <div className="card">
+            <p>{t('trail.intro')}</p>
+            <ol className="tour-stops" aria-label={t('trail.stops')}>
+                {stops.map((s, i) => (
+                    <li key={s.id} className={i === index ? 'current' : ''}>
+                        <button type="button" className="tour-stop-name" onClick={() => goToStop(i)} aria-current={i === index ? 'step' : undefined}>
+                            {s.landmark.name} · {s.inStoryName}
+                        </button>
+                    </li>
+                ))}
+            </ol>
+
+            <AnalysisCard
+                title={`${index + 1}. ${stop.landmark.name}`}
+                text={`${t('trail.inStory', { name: stop.inStoryName })} ${stop.scene}`}
+                body={
+                    <>
+                        <p><strong>{t('trail.inStory', { name: stop.inStoryName })}</strong></p>
+                        <p className="saved-place-meta">
+                            {t('trail.episodes', { episodes: stop.episodes })}
+                            {location && ` · ${t('trail.fromYou', { distance: formatDistance(distanceInMeters(location, stop.landmark)) })}`}
+                        </p>
+                        <p>{stop.scene}</p>
+                    </>
+                }
+                sources={stop.landmark.sources}
+                isOnline={isOnline}
+            >
+                <h3>{t('trail.thenNow')}</h3>
+                {!isOnline && <p className="offline-notice">{t('trail.offline')}</p>}
+                <label className="button">
+                    <span className="material-icons" aria-hidden="true">photo_camera</span>
+                    {t('trail.takePhoto')}
+                    <input type="file" accept="image/*" capture="environment" className="visually-hidden" onChange={handlePhotoChange} disabled={isBusy} />
+                </label>
+                {photo && (
+                    <>
+                        <div className="then-now">
+                            <figure>
+                                <figcaption>{t('trail.then')}</figcaption>
+                                {recreation
+                                    ? <img src={recreation} alt={t('trail.recreationAlt', { name: stop.inStoryName })} className="image-preview" />
+                                    : <p className="then-now-scene">{stop.scene}</p>}
+                            </figure>
+                            <figure>
+                                <figcaption>{t('trail.now')}</figcaption>
+                                <img src={photo.dataUrl} alt={t('trail.yourPhoto', { name: stop.landmark.name })} className="image-preview" />
+                            </figure>
+                        </div>
+                        <div className="artwork-controls">
+                            <button className="button" onClick={compare} disabled={isBusy || !isOnline}>
+                                <span className="material-icons" aria-hidden="true">compare</span>
+                                {t('trail.compare')}
+                            </button>
+                            <button className="button" onClick={recreate} disabled={isBusy || !isOnline}>
+                                <span className="material-icons" aria-hidden="true">movie_filter</span>
+                                {t('trail.recreate')}
+                            </button>
+                        </div>
+                    </>
+                )}
+                {isComparing && <Loader label={t('trail.comparing')} />}
+                {isRecreating && <Loader label={t('trail.recreating')} />}
+                {error && <p role="alert" style={{ color: 'red' }}>{error}</p>}
+                {comparison && (
+                    <div className="follow-up">
+                        <Markdown text={comparison.text} />
+                        {comparison.sources.length > 0 && (
+                            <div className="message-sources">
+                                <span className="material-icons" aria-hidden="true">link</span>
+                                {comparison.sources.map(source => (
+                                    <a key={source.uri} href={source.uri} target="_blank" rel="noopener noreferrer">{source.title}</a>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                )}
+                <div className="tour-navigation">
+                    <button className="button" onClick={() => goToStop(index - 1)} disabled={index === 0}>
+                        <span className="material-icons" aria-hidden="true">arrow_back</span>
+                        {t('trail.previous')}
+                    </button>
+                    <button className="button" onClick={() => goToStop(index + 1)} disabled={index === stops.length - 1}>
+                        <span className="material-icons" aria-hidden="true">arrow_forward</span>
+                        {t('trail.next')}
+                    </button>
+                </div>
+            </AnalysisCard>
+        </div>
+    );
+};
+
+export default MontalbanoTrail;
@@ -0,0 +1,87 @@
+import React, { useState, useEffect } from 'react';
+import { listSavedPlaces, deleteSavedPlace } from '../services/savedPlaces';
+import { useTranslation } from '../services/i18n';
+import Loader from './Loader';
+
+const MyScicli = ({ onOpen }) => {
+    const { t } = useTranslation();
+    const [places, setPlaces] = useState([]);
+    const [query, setQuery] = useState('');
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        listSavedPlaces()
+            .then(setPlaces)
+            .catch(err => {
+                console.error("Failed to load saved places:", err);
+                setError(t('saved.loadError'));
+            })
+            .finally(() => setIsLoading(false));
+    }, []);
+
+    const handleDelete = async (id) => {
+        try {
+            await deleteSavedPlace(id);
+            setPlaces(prev => prev.filter(place => place.id !== id));
+        } catch (err) {
+            console.error("Failed to delete saved place:", err);
+            setError(t('saved.deleteError'));
+        }
+    };
+
+    const normalizedQuery = query.trim().toLowerCase();
+    const filteredPlaces = normalizedQuery
+        ? places.filter(place =>
+            place.text.toLowerCase().includes(normalizedQuery) ||
+            place.sources.some(source => source.title.toLowerCase().includes(normalizedQuery)))
+        : places;
+
+    return (
+        <div className="card">
+            <p>{t('saved.intro')}</p>
+            <input
+                type="search"
+                className="chat-input saved-places-search"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder={t('saved.searchPlaceholder')}
+                aria-label={t('saved.search')}
+            />
+            {isLoading && <Loader />}
+            {error && <p role="alert" style={{ color: 'red' }}>{error}</p>}
+            {!isLoading && places.length === 0 && !error && (
+                <p className="saved-places-empty">{t('saved.empty')}</p>
+            )}
+            {!isLoading && places.length > 0 && filteredPlaces.length === 0 && (
+                <p className="saved-places-empty">{t('saved.noMatch', { query })}</p>
+            )}
+            <ul className="saved-places-list">
+                {filteredPlaces.map(place => (
+                    <li key={place.id} className="saved-place">
+                        {place.thumbnail
+                            ? <img src={place.thumbnail} alt="" className="saved-place-thumbnail" />
+                            : <span className="material-icons saved-place-thumbnail" aria-hidden="true">image</span>}
+                        <div className="saved-place-details">
+                            <p className="saved-place-excerpt">{place.text}</p>
+                            <p className="saved-place-meta">
+                                {new Date(place.createdAt).toLocaleString()}
+                                {place.location && ` · ${place.location.latitude.toFixed(4)}, ${place.location.longitude.toFixed(4)}`}
+                            </p>
+                        </div>
+                        <div className="saved-place-actions">
+                            <button className="button" onClick={() => onOpen(place)} title={t('saved.open')} aria-label={t('saved.open')}>
+                                <span className="material-icons" aria-hidden="true">open_in_new</span>
+                            </button>
+                            <button className="button" onClick={() => handleDelete(place.id)} title={t('saved.delete')} aria-label={t('saved.delete')}>
+                                <span className="material-icons" aria-hidden="true">delete</span>
+                            </button>
+                        </div>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+export default MyScicli;
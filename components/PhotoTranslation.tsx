@@ -0,0 +1,118 @@
+import React, { useState, useEffect } from 'react';
+import { translatePhoto } from '../services/translation';
+import { describeError, isCancelled } from '../services/ai';
+import { useTranslation } from '../services/i18n';
+import Loader from './Loader';
+
+const CONTEXT_DEBOUNCE_MS = 1000;
+
+const boxStyle = ([ymin, xmin, ymax, xmax]) => ({
+    top: `${ymin / 10}%`,
+    left: `${xmin / 10}%`,
+    width: `${(xmax - xmin) / 10}%`,
+    minHeight: `${(ymax - ymin) / 10}%`,
+});
+
+const PhotoTranslation = ({ photo, targetLang, context, onClose }) => {
+    const { t } = useTranslation();
+    const [result, setResult] = useState(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState('');
+    const [view, setView] = useState('overlay');
+    const [selectedIndex, setSelectedIndex] = useState(null);
+    const [appliedContext, setAppliedContext] = useState(context);
+
+    // Re-read the photo once the context stops changing, not on every keystroke.
+    useEffect(() => {
+        const timeout = setTimeout(() => setAppliedContext(context), CONTEXT_DEBOUNCE_MS);
+        return () => clearTimeout(timeout);
+    }, [context]);
+
+    useEffect(() => {
+        const controller = new AbortController();
+        setIsLoading(true);
+        setError('');
+        setResult(null);
+        setSelectedIndex(null);
+        translatePhoto({ image: { mimeType: photo.mimeType, data: photo.data }, to: targetLang, context: appliedContext, signal: controller.signal })
+            .then(translation => setResult(translation))
+            .catch(err => {
+                if (isCancelled(err)) return;
+                console.error("Photo translation failed:", err);
+                setError(`${t('photo.error')} ${describeError(err, t('photo.hint'))}`);
+            })
+            .finally(() => {
+                if (!controller.signal.aborted) setIsLoading(false);
+            });
+        return () => controller.abort();
+    }, [photo, targetLang, appliedContext]);
+
+    const items = result?.items || [];
+
+    return (
+        <div className="photo-translation">
+            <div className="translator-controls" style={{ margin: '0 0 0.5rem 0' }}>
+                <span className="lang-label">{result?.detectedLanguage ? t('photo.titleFrom', { language: result.detectedLanguage }) : t('photo.title')}</span>
+                <div style={{ display: 'flex', gap: '5px' }}>
+                    <button type="button" className="button" onClick={() => setView(view === 'overlay' ? 'side-by-side' : 'overlay')} disabled={!items.length} title={view === 'overlay' ? t('photo.sideBySide') : t('photo.overlay')} aria-label={view === 'overlay' ? t('photo.sideBySide') : t('photo.overlay')}>
+                        <span className="material-icons" aria-hidden="true">{view === 'overlay' ? 'view_column' : 'layers'}</span>
+                    </button>
+                    <button type="button" className="button" onClick={onClose} title={t('photo.close')} aria-label={t('photo.close')}>
+                        <span className="material-icons" aria-hidden="true">close</span>
+                    </button>
+                </div>
+            </div>
+
+            {(view === 'overlay' || !items.length) && (
+                <div className="photo-overlay-container">
+                    <img src={photo.dataUrl} alt={t('photo.alt')} className="image-preview" style={{ marginTop: 0 }} />
+                    {items.map((item, index) => item.box?.length === 4 && (
+                        <button
+                            type="button"
+                            key={index}
+                            className={`photo-overlay-label ${selectedIndex === index ? 'selected' : ''}`}
+                            style={boxStyle(item.box)}
+                            onClick={() => setSelectedIndex(selectedIndex === index ? null : index)}
+                        >
+                            {item.translation}
+                        </button>
+                    ))}
+                </div>
+            )}
+            {isLoading && <Loader />}
+            {error && <p role="alert" style={{ color: 'red' }}>{error}</p>}
+
+            {view === 'overlay' && selectedIndex !== null && items[selectedIndex] && (
+                <div className="photo-item-details">
+                    <strong>{items[selectedIndex].original}</strong>
+                    <p>{items[selectedIndex].translation}</p>
+                    {items[selectedIndex].explanation && <p className="dish-explanation">{items[selectedIndex].explanation}</p>}
+                </div>
+            )}
+
+            {view === 'side-by-side' && items.length > 0 && (
+                <table className="photo-translation-table">
+                    <thead>
+                        <tr>
+                            <th>{t('photo.original')}</th>
+                            <th>{targetLang}</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {items.map((item, index) => (
+                            <tr key={index}>
+                                <td>{item.original}</td>
+                                <td>
+                                    {item.translation}
+                                    {item.explanation && <p className="dish-explanation">{item.explanation}</p>}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+};
+
+export default PhotoTranslation;
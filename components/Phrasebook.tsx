@@ -0,0 +1,108 @@
+import React, { useState, useEffect } from 'react';
+import { PHRASEBOOK_VOICE, getMainChurch, getPhrasebook, getPhrasebookTexts } from '../data/phrasebook';
+import { getCachedSpeech, getSpeech } from '../services/ttsCache';
+import { audioEngine } from '../services/audioEngine';
+import { describeError } from '../services/ai';
+import { useTranslation } from '../services/i18n';
+import { useDestination } from '../services/destination';
+
+// Offline and never downloaded: the browser's own voice is better than silence.
+const speakWithBrowser = (text) => {
+    if (!('speechSynthesis' in window)) return;
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = 'it-IT';
+    window.speechSynthesis.speak(utterance);
+};
+
+const Phrasebook = ({ isOnline }) => {
+    const { t } = useTranslation();
+    const destination = useDestination();
+    const phrasebook = getPhrasebook(destination);
+    const phraseTexts = getPhrasebookTexts(destination);
+    const church = getMainChurch(destination);
+    const [cachedTexts, setCachedTexts] = useState(new Set());
+    const [downloadProgress, setDownloadProgress] = useState(null);
+    const [playingText, setPlayingText] = useState('');
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        Promise.all(phraseTexts.map(async text => (await getCachedSpeech(text, PHRASEBOOK_VOICE)) ? text : null))
+            .then(texts => setCachedTexts(new Set(texts.filter(Boolean))))
+            .catch(err => console.error("Failed to check phrasebook audio:", err));
+    }, []);
+
+    const downloadAudio = async () => {
+        setError('');
+        setDownloadProgress(0);
+        try {
+            for (let i = 0; i < phraseTexts.length; i++) {
+                const text = phraseTexts[i];
+                if (!cachedTexts.has(text) && await getSpeech(text, PHRASEBOOK_VOICE)) {
+                    setCachedTexts(prev => new Set(prev).add(text));
+                }
+                setDownloadProgress(i + 1);
+            }
+        } catch (err) {
+            console.error("Phrasebook download failed:", err);
+            setError(`${t('phrasebook.downloadError')} ${describeError(err, t('phrasebook.downloadHint'))}`);
+        } finally {
+            setDownloadProgress(null);
+        }
+    };
+
+    const playPhrase = async (text) => {
+        setError('');
+        setPlayingText(text);
+        try {
+            if (cachedTexts.has(text) || isOnline) {
+                // getSpeech stores the audio, so a played phrase stays available offline.
+                await audioEngine.play({ text, voice: PHRASEBOOK_VOICE });
+                setCachedTexts(prev => new Set(prev).add(text));
+            } else {
+                speakWithBrowser(text);
+            }
+        } catch (err) {
+            console.error("Phrase playback failed:", err);
+            speakWithBrowser(text);
+        } finally {
+            setPlayingText('');
+        }
+    };
+
+    const cachedCount = phraseTexts.filter(text => cachedTexts.has(text)).length;
+
+    const renderPhraseButton = (text) => (
+        <button type="button" className="button" onClick={() => playPhrase(text)} disabled={playingText === text} title={t('phrasebook.play', { text })} aria-label={t('phrasebook.play', { text })}>
+            <span className="material-icons" aria-hidden="true">{cachedTexts.has(text) ? 'volume_up' : 'cloud_download'}</span>
+        </button>
+    );
+
+    return (
+        <div className="phrasebook">
+            <div className="phrasebook-header">
+                <span>{t('phrasebook.ready', { count: cachedCount, total: phraseTexts.length })}</span>
+                {cachedCount < phraseTexts.length && (
+                    <button type="button" className="button" onClick={downloadAudio} disabled={!isOnline || downloadProgress !== null}>
+                        <span className="material-icons" aria-hidden="true">download</span>
+                        {downloadProgress !== null ? t('phrasebook.downloading', { count: downloadProgress, total: phraseTexts.length }) : t('phrasebook.download')}
+                    </button>
+                )}
+            </div>
+            {error && <p role="alert" style={{ color: 'red' }}>{error}</p>}
+            {phrasebook.map(category => (
+                <section key={category.name} className="phrasebook-category">
+                    <h3><span className="material-icons" aria-hidden="true">{category.icon}</span> {t(category.name)}</h3>
+                    {category.phrases.map(phrase => (
+                        <div key={phrase.meaning} className="phrase">
+                            <span className="phrase-meaning">{t(phrase.meaning, { church })}</span>
+                            <span className="phrase-translation"><span className="lang-tag">IT</span> {phrase.italian} {renderPhraseButton(phrase.italian)}</span>
+                            <span className="phrase-translation"><span className="lang-tag">SCN</span> {phrase.sicilian} {renderPhraseButton(phrase.sicilian)}</span>
+                        </div>
+                    ))}
+                </section>
+            ))}
+        </div>
+    );
+};
+
+export default Phrasebook;
@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { TOUR_DURATIONS, MOBILITY_LEVELS, generateTour, getTourInterests, getTourMinutes } from '../services/tours';
+import { useSetting } from '../services/settings';
+import { useRequestSignal } from '../services/cancellation';
+import { announce } from '../services/announcer';
+import { describeError, isCancelled } from '../services/ai';
+import { useTranslation } from '../services/i18n';
+import { useDestination } from '../services/destination';
+import { DEFAULT_DESTINATION_ID } from '../data/destinations';
+import { distanceInMeters, formatDistance } from '../services/geo';
+import AnalysisCard from './AnalysisCard';
+import Loader from './Loader';
+
+const TourPlanner = ({ location, isOnline, onTourCreated }) => {
+    const { t } = useTranslation();
+    const destination = useDestination();
+    const [durationMinutes, setDurationMinutes] = useState(120);
+    // The town's headline theme, which every town lists first.
+    const [interests, setInterests] = useState(() => [getTourInterests(destination)[0].id]);
+    const [mobility, setMobility] = useState('easy');
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState('');
+    const nextSignal = useRequestSignal();
+
+    const toggleInterest = (interest) => {
+        setInterests(prev => prev.includes(interest) ? prev.filter(i => i !== interest) : [...prev, interest]);
+    };
+
+    const planTour = async () => {
+        const signal = nextSignal();
+        setIsLoading(true);
+        setError('');
+        try {
+            const tour = await generateTour({ durationMinutes, interests, mobility }, location, signal);
+            onTourCreated(tour);
+            announce(t('tours.ready', { title: tour.title }));
+        } catch (err) {
+            if (isCancelled(err)) return;
+            console.error("Tour planning failed:", err);
+            setError(`${t('tours.error')} ${describeError(err)}`);
+        } finally {
+            if (!signal.aborted) setIsLoading(false);
+        }
+    };
+
+    return (
+        <div className="tour-planner">
+            <p>{t('tours.intro')}</p>
+            <fieldset className="tour-option">
+                <legend className="voice-label">{t('tours.duration')}</legend>
+                {TOUR_DURATIONS.map(duration => (
+                    <label key={duration.minutes} className="chip">
+                        <input type="radio" name="tour-duration" checked={durationMinutes === duration.minutes} onChange={() => setDurationMinutes(duration.minutes)} />
+                        {t(duration.label)}
+                    </label>
+                ))}
+            </fieldset>
+            <fieldset className="tour-option">
+                <legend className="voice-label">{t('tours.interests')}</legend>
+                {getTourInterests(destination).map(interest => (
+                    <label key={interest.id} className="chip">
+                        <input type="checkbox" checked={interests.includes(interest.id)} onChange={() => toggleInterest(interest.id)} />
+                        {t(interest.label)}
+                    </label>
+                ))}
+            </fieldset>
+            <fieldset className="tour-option">
+                <legend className="voice-label">{t('tours.mobility')}</legend>
+                {MOBILITY_LEVELS.map(level => (
+                    <label key={level.id} className="chip">
+                        <input type="radio" name="tour-mobility" checked={mobility === level.id} onChange={() => setMobility(level.id)} />
+                        {t(level.label)}
+                    </label>
+                ))}
+            </fieldset>
+            <button className="button" onClick={planTour} disabled={isLoading || !isOnline}>
+                <span className="material-icons" aria-hidden="true">route</span>
+                {t('tours.plan')}
+            </button>
+            {isLoading && <Loader />}
+            {error && <p role="alert" style={{ color: 'red' }}>{error}</p>}
+        </div>
+    );
+};
+
+const Tours = ({ location, isOnline = true }) => {
+    const { t } = useTranslation();
+    const destination = useDestination();
+    const [tour, setTour] = useSetting('currentTour', null);
+
+    // Tours planned before destinations existed were all for the default town. A saved tour without stops is planned afresh.
+    if (!tour?.stops?.length || (tour.destinationId || DEFAULT_DESTINATION_ID) !== destination.id) {
+        return (
+            <div className="card">
+                <TourPlanner location={location} isOnline={isOnline} onTourCreated={setTour} />
+            </div>
+        );
+    }
+
+    const stop = tour.stops[tour.currentStop];
+    const landmark = destination.landmarks.find(l => l.id === stop.landmarkId);
+    const visitedCount = tour.visited.filter(Boolean).length;
+
+    const goToStop = (index) => setTour({ ...tour, currentStop: index });
+    const toggleVisited = (index) => setTour({ ...tour, visited: tour.visited.map((v, i) => i === index ? !v : v) });
+
+    const markVisitedAndContinue = () => {
+        const visited = tour.visited.map((v, i) => i === tour.currentStop ? true : v);
+        setTour({ ...tour, visited, currentStop: Math.min(tour.currentStop + 1, tour.stops.length - 1) });
+    };
+
+    return (
+        <div className="card">
+            <div className="tour-header">
+                <div>
+                    <h3>{tour.title}</h3>
+                    <p className="saved-place-meta">{t('tours.summary', { stops: tour.stops.length, minutes: getTourMinutes(tour), visited: visitedCount })}</p>
+                </div>
+                <button type="button" className="button" onClick={() => setTour(null)} title={t('tours.new')} aria-label={t('tours.new')}>
+                    <span className="material-icons" aria-hidden="true">restart_alt</span>
+                </button>
+            </div>
+            <progress className="tour-progress" max={tour.stops.length} value={visitedCount}></progress>
+            {tour.currentStop === 0 && visitedCount === 0 && <p>{tour.intro}</p>}
+
+            <AnalysisCard
+                title={`${tour.currentStop + 1}. ${stop.name}`}
+                text={stop.story}
+                sources={landmark?.sources || []}
+                isOnline={isOnline}
+                headerAction={
+                    <label className="chip">
+                        <input type="checkbox" checked={tour.visited[tour.currentStop]} onChange={() => toggleVisited(tour.currentStop)} />
+                        {t('tours.visited')}
+                    </label>
+                }
+            >
+                <p className="saved-place-meta">
+                    {stop.walkingMinutesFromPrevious > 0 && `${t('tours.walk', { minutes: stop.walkingMinutesFromPrevious })} · `}
+                    {t('tours.stay', { minutes: stop.visitMinutes })}
+                    {landmark && location && ` · ${t('trail.fromYou', { distance: formatDistance(distanceInMeters(location, landmark)) })}`}
+                </p>
+                <div className="tour-navigation">
+                    <button className="button" onClick={() => goToStop(tour.currentStop - 1)} disabled={tour.currentStop === 0}>
+                        <span className="material-icons" aria-hidden="true">arrow_back</span>
+                        {t('tours.previous')}
+                    </button>
+                    <button className="button" onClick={markVisitedAndContinue} disabled={tour.currentStop === tour.stops.length - 1 && tour.visited[tour.currentStop]}>
+                        <span className="material-icons" aria-hidden="true">check</span>
+                        {tour.currentStop === tour.stops.length - 1 ? t('tours.finish') : t('tours.next')}
+                    </button>
+                </div>
+            </AnalysisCard>
+
+            <ol className="tour-stops">
+                {tour.stops.map((s, index) => (
+                    <li key={index} className={index === tour.currentStop ? 'current' : ''}>
+                        <input type="checkbox" checked={tour.visited[index]} onChange={() => toggleVisited(index)} aria-label={t('tours.visitedStop', { name: s.name })} />
+                        <button type="button" className="tour-stop-name" onClick={() => goToStop(index)}>{s.name}</button>
+                    </li>
+                ))}
+            </ol>
+        </div>
+    );
+};
+
+export default Tours;
@@ -0,0 +1,96 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { captureVideoFrame } from '../services/images';
+import { useTranslation } from '../services/i18n';
+
+// Seconds between automatic captures; 0 means only on demand.
+const AUTO_CAPTURE_INTERVALS = [0, 5, 10, 30];
+
+// Live rear-camera preview. `onCapture(photo, isAuto)` gets each grabbed frame.
+const Viewfinder = ({ onCapture, onClose, disabled = false }) => {
+    const { t } = useTranslation();
+    const videoRef = useRef(null);
+    const [isReady, setIsReady] = useState(false);
+    const [error, setError] = useState('');
+    const [autoSeconds, setAutoSeconds] = useState(0);
+    const onCaptureRef = useRef(onCapture);
+    const disabledRef = useRef(disabled);
+
+    onCaptureRef.current = onCapture;
+    disabledRef.current = disabled;
+
+    useEffect(() => {
+        // Browsers only offer the camera on secure origins, such as localhost or HTTPS; elsewhere mediaDevices is missing.
+        if (!navigator.mediaDevices?.getUserMedia) {
+            setError(t('camera.error'));
+            return;
+        }
+        let stream = null;
+        let isCurrent = true;
+        navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment', width: { ideal: 1920 } }, audio: false })
+            .then(s => {
+                if (!isCurrent) {
+                    s.getTracks().forEach(track => track.stop());
+                    return;
+                }
+                stream = s;
+                videoRef.current.srcObject = s;
+            })
+            .catch(err => {
+                console.error("Camera unavailable:", err);
+                if (isCurrent) {
+                    setError(err.name === 'NotAllowedError'
+                        ? t('camera.denied')
+                        : t('camera.error'));
+                }
+            });
+        return () => {
+            isCurrent = false;
+            stream?.getTracks().forEach(track => track.stop());
+        };
+    }, []);
+
+    const capture = (isAuto) => {
+        const video = videoRef.current;
+        if (!video?.videoWidth || disabledRef.current) return;
+        onCaptureRef.current(captureVideoFrame(video), isAuto);
+    };
+
+    useEffect(() => {
+        if (!autoSeconds || !isReady) return;
+        const interval = setInterval(() => capture(true), autoSeconds * 1000);
+        return () => clearInterval(interval);
+    }, [autoSeconds, isReady]);
+
+    return (
+        <div className="viewfinder">
+            {error ? (
+                <p className="offline-notice">{error}</p>
+            ) : (
+                <video ref={videoRef} autoPlay playsInline muted onLoadedMetadata={() => setIsReady(true)} className="viewfinder-video" />
+            )}
+            <div className="viewfinder-controls">
+                <button onClick={() => capture(false)} disabled={!isReady || disabled}>
+                    <span className="material-icons" aria-hidden="true">camera</span>
+                    {t('camera.capture')}
+                </button>
+                <select
+                    className="voice-selector"
+                    value={autoSeconds}
+                    onChange={e => setAutoSeconds(Number(e.target.value))}
+                    disabled={!isReady}
+                    aria-label={t('camera.auto')}
+                >
+                    {AUTO_CAPTURE_INTERVALS.map(seconds => (
+                        <option key={seconds} value={seconds}>{seconds ? t('camera.autoEvery', { seconds }) : t('camera.autoOff')}</option>
+                    ))}
+                </select>
+                <button onClick={onClose} className="button">
+                    <span className="material-icons" aria-hidden="true">close</span>
+                    {t('lens.closeCamera')}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default Viewfinder;
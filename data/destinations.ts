@@ -0,0 +1,97 @@
+import type { Coordinates } from '../services/geo';
+import type { MessageKey } from '../services/i18n';
+import { SCICLI_LANDMARKS, RAGUSA_IBLA_LANDMARKS, MODICA_LANDMARKS, NOTO_LANDMARKS, type Landmark } from './landmarks';
+
+// --- The towns Mimi can guide visitors around. Every prompt and the town-specific UI copy is built from these. ---
+
+export interface DestinationTheme {
+    // Offered as a Tours interest.
+    id: string;
+    label: MessageKey;
+    // Completes "Visitors come for ..." in Mimi's prompts.
+    prompt: string;
+}
+
+export interface Destination {
+    // Used in the `?destination=` URL parameter.
+    id: string;
+    name: string;
+    // Follows the name in prompts, e.g. "Scicli, Sicily, Italy".
+    region: string;
+    // Mimi's one-line introduction to the town, in English for the prompts.
+    personaIntro: string;
+    themes: DestinationTheme[];
+    // Translator language names spoken locally, most common first. The Translator translates into the first by default.
+    defaultLanguages: string[];
+    // Local dishes and sweets the Food tab suggests and explains.
+    specialities: string[];
+    landmarks: Landmark[];
+    center: Coordinates;
+}
+
+const BAROQUE: DestinationTheme = {
+    id: 'baroque',
+    label: 'tours.interest.baroque',
+    prompt: 'its Late Baroque churches and palazzi, rebuilt after the 1693 earthquake and listed by UNESCO with the other Val di Noto towns',
+};
+
+export const DESTINATIONS: Destination[] = [
+    {
+        id: 'scicli',
+        name: 'Scicli',
+        region: 'Sicily, Italy',
+        personaIntro: 'Scicli is a Baroque town tucked into three valleys in south-east Sicily, one of the eight Val di Noto towns on the UNESCO World Heritage list.',
+        themes: [
+            BAROQUE,
+            { id: 'montalbano', label: 'tours.interest.montalbano', prompt: 'the Inspector Montalbano TV series, which films its Vigàta scenes here, with the town hall playing the police station' },
+        ],
+        defaultLanguages: ['Italian', 'Sicilian'],
+        specialities: ["'mpanatigghi", 'cassateddi', 'scacce'],
+        landmarks: SCICLI_LANDMARKS,
+        center: { latitude: 36.7918, longitude: 14.7050 },
+    },
+    {
+        id: 'ragusa-ibla',
+        name: 'Ragusa Ibla',
+        region: 'Sicily, Italy',
+        personaIntro: "Ragusa Ibla is the old lower town of Ragusa, a Baroque maze on a ridge in south-east Sicily and part of the Val di Noto's UNESCO World Heritage site.",
+        themes: [
+            BAROQUE,
+            { id: 'montalbano', label: 'tours.interest.montalbano', prompt: "the Inspector Montalbano TV series, which filmed scenes in Ibla's piazzas and streets" },
+        ],
+        defaultLanguages: ['Italian', 'Sicilian'],
+        specialities: ['scacce', 'cavati', 'Ragusano cheese'],
+        landmarks: RAGUSA_IBLA_LANDMARKS,
+        center: { latitude: 36.9265, longitude: 14.7430 },
+    },
+    {
+        id: 'modica',
+        name: 'Modica',
+        region: 'Sicily, Italy',
+        personaIntro: 'Modica is a Baroque town split between an upper and a lower quarter in south-east Sicily, one of the eight Val di Noto towns on the UNESCO World Heritage list.',
+        themes: [
+            BAROQUE,
+            { id: 'chocolate', label: 'tours.interest.chocolate', prompt: 'its chocolate, worked cold to an old recipe that leaves the sugar crystals grainy' },
+        ],
+        defaultLanguages: ['Italian', 'Sicilian'],
+        specialities: ['Modica chocolate', "'mpanatigghi", 'scacce'],
+        landmarks: MODICA_LANDMARKS,
+        center: { latitude: 36.8600, longitude: 14.7605 },
+    },
+    {
+        id: 'noto',
+        name: 'Noto',
+        region: 'Sicily, Italy',
+        personaIntro: 'Noto is the Baroque town rebuilt on a new site after the 1693 earthquake in south-east Sicily, one of the eight Val di Noto towns on the UNESCO World Heritage list.',
+        themes: [
+            BAROQUE,
+            { id: 'infiorata', label: 'tours.interest.infiorata', prompt: 'the Infiorata, when Via Corrado Nicolaci is carpeted with pictures made of flower petals every May' },
+        ],
+        defaultLanguages: ['Italian', 'Sicilian'],
+        specialities: ['almond granita', 'cannoli', 'arancini'],
+        landmarks: NOTO_LANDMARKS,
+        center: { latitude: 36.8925, longitude: 15.0690 },
+    },
+];
+
+export const DEFAULT_DESTINATION_ID = 'scicli';
@@ -0,0 +1,209 @@
+import type { Source } from '../services/ai';
+import type { MessageKey } from '../services/i18n';
+
+// --- Bundled datasets of each destination's main sights. Coordinates are approximate street-level positions. ---
+
+export type LandmarkCategory = 'church' | 'palazzo' | 'montalbano' | 'viewpoint';
+
+export interface Landmark {
+    id: string;
+    name: string;
+    category: LandmarkCategory;
+    latitude: number;
+    longitude: number;
+    summary: string;
+    sources: Source[];
+}
+
+export const LANDMARK_CATEGORIES: Record<LandmarkCategory, { label: MessageKey; icon: string; color: string }> = {
+    church: { label: 'map.category.church', icon: 'church', color: '#D48C46' },
+    palazzo: { label: 'map.category.palazzo', icon: 'account_balance', color: '#4B5320' },
+    montalbano: { label: 'map.category.montalbano', icon: 'movie', color: '#1565c0' },
+    viewpoint: { label: 'map.category.viewpoint', icon: 'landscape', color: '#6a1b9a' },
+};
+
+// A search link keeps working even if the article gets renamed.
+export const wikipedia = (title: string): Source => ({ uri: `https://it.wikipedia.org/w/index.php?search=${encodeURIComponent(title)}`, title: `${title} - Wikipedia` });
+
+export const SCICLI_LANDMARKS: Landmark[] = [
+    {
+        id: 'san-bartolomeo',
+        name: 'Chiesa di San Bartolomeo',
+        category: 'church',
+        latitude: 36.7943,
+        longitude: 14.7083,
+        summary: "Tucked at the mouth of the Santa Maria la Nova valley beneath the rocky hillside, San Bartolomeo was rebuilt after the 1693 earthquake with a tall, tiered façade finished in the early 19th century. Inside is a much-loved 18th-century nativity scene carved from wood by Neapolitan craftsmen.",
+        sources: [wikipedia('Chiesa di San Bartolomeo (Scicli)')],
+    },
+    {
+        id: 'san-giovanni-evangelista',
+        name: 'Chiesa di San Giovanni Evangelista',
+        category: 'church',
+        latitude: 36.7911,
+        longitude: 14.7059,
+        summary: "The showpiece of Via Francesco Mormino Penna, San Giovanni's concave façade sweeps upward in three orders of columns. The church belonged to a Benedictine convent and houses a rare painting of Christ in the Spanish style, dressed in a skirt.",
+        sources: [wikipedia('Chiesa di San Giovanni Evangelista (Scicli)')],
+    },
+    {
+        id: 'santa-maria-la-nova',
+        name: 'Chiesa di Santa Maria la Nova',
+        category: 'church',
+        latitude: 36.7896,
+        longitude: 14.7101,
+        summary: "Rebuilt after 1693 with a later neoclassical façade, Santa Maria la Nova guards a silver statue of the Immacolata and the venerated Madonna della Pietà. It anchors one of the oldest quarters of town.",
+        sources: [wikipedia('Chiesa di Santa Maria la Nova (Scicli)')],
+    },
+    {
+        id: 'sant-ignazio',
+        name: "Chiesa Madre di Sant'Ignazio",
+        category: 'church',
+        latitude: 36.7906,
+        longitude: 14.7046,
+        summary: "Scicli's mother church, built by the Jesuits, faces Piazza Italia. It holds the Madonna dei Milici, the warrior Madonna on horseback celebrated every May in the festival recalling the legendary battle against the Saracens.",
+        sources: [wikipedia("Chiesa di Sant'Ignazio (Scicli)")],
+    },
+    {
+        id: 'san-matteo',
+        name: 'Chiesa di San Matteo',
+        category: 'viewpoint',
+        latitude: 36.7937,
+        longitude: 14.7031,
+        summary: "The abandoned former mother church sits on the Colle di San Matteo, where medieval Scicli began. Its unfinished Baroque façade and the panorama over the rooftops make the climb well worth it, especially at sunset.",
+        sources: [wikipedia('Chiesa di San Matteo (Scicli)')],
+    },
+    {
+        id: 'palazzo-beneventano',
+        name: 'Palazzo Beneventano',
+        category: 'palazzo',
+        latitude: 36.7922,
+        longitude: 14.7039,
+        summary: "Perhaps the most theatrical building in Sicilian Baroque. Its corner balconies rest on grotesque masks, moors' heads and mythical creatures, a playful show of the Beneventano family's status from the late 1700s.",
+        sources: [wikipedia('Palazzo Beneventano')],
+    },
+    {
+        id: 'palazzo-fava',
+        name: 'Palazzo Fava',
+        category: 'palazzo',
+        latitude: 36.7910,
+        longitude: 14.7053,
+        summary: "One of the earliest Baroque palazzi in Scicli, known for the sculpted balcony corbels on Via San Bartolomeo: horses, cherubs and mermaids carved in local limestone.",
+        sources: [wikipedia('Palazzo Fava (Scicli)')],
+    },
+    {
+        id: 'palazzo-spadaro',
+        name: 'Palazzo Spadaro',
+        category: 'palazzo',
+        latitude: 36.7914,
+        longitude: 14.7057,
+        summary: "A noble residence on Via Mormino Penna whose rooms keep their 19th-century painted ceilings and furnishings. Its elegant balconies mark the transition from late Baroque to neoclassical taste.",
+        sources: [wikipedia('Palazzo Spadaro')],
+    },
+    {
+        id: 'palazzo-municipale',
+        name: 'Palazzo Municipale (Town Hall)',
+        category: 'montalbano',
+        latitude: 36.7917,
+        longitude: 14.7063,
+        summary: "Scicli's early 20th-century town hall is where Inspector Montalbano works: in the TV series it plays the Vigàta police station, and the mayor's office becomes the Questore's office in Montelusa. Some rooms are open to visitors.",
+        sources: [wikipedia('Palazzo Municipale (Scicli)')],
+    },
+    {
+        id: 'via-mormino-penna',
+        name: 'Via Francesco Mormino Penna',
+        category: 'montalbano',
+        latitude: 36.7913,
+        longitude: 14.7061,
+        summary: "The Baroque showpiece street of Scicli, lined with churches and palazzi and part of the UNESCO World Heritage site. Montalbano fans will recognise it from countless scenes of the inspector walking to the police station.",
+        sources: [wikipedia('Via Francesco Mormino Penna')],
+    },
+];
+
+export const RAGUSA_IBLA_LANDMARKS: Landmark[] = [
+    {
+        id: 'duomo-san-giorgio-ragusa',
+        name: 'Duomo di San Giorgio',
+        category: 'church',
+        latitude: 36.9270,
+        longitude: 14.7430,
+        summary: "Rosario Gagliardi's masterpiece rises above a sloping piazza at the heart of Ibla, its three-tiered façade set at an angle to the square for maximum drama. The neoclassical dome was only added in the 19th century.",
+        sources: [wikipedia('Duomo di San Giorgio (Ragusa)')],
+    },
+    {
+        id: 'santa-maria-delle-scale',
+        name: 'Chiesa di Santa Maria delle Scale',
+        category: 'viewpoint',
+        latitude: 36.9268,
+        longitude: 14.7347,
+        summary: "Halfway down the long stairway from the upper town to Ibla, this church keeps Gothic fragments that survived the 1693 earthquake. The terrace beside it has the classic view over Ibla's domes and rooftops.",
+        sources: [wikipedia('Chiesa di Santa Maria delle Scale')],
+    },
+    {
+        id: 'giardino-ibleo',
+        name: 'Giardino Ibleo',
+        category: 'viewpoint',
+        latitude: 36.9263,
+        longitude: 14.7488,
+        summary: "The 19th-century public garden at the eastern tip of Ibla, lined with palms, fountains and small churches, with wide views over the Irminio valley.",
+        sources: [wikipedia('Giardino Ibleo')],
+    },
+];
+
+export const MODICA_LANDMARKS: Landmark[] = [
+    {
+        id: 'duomo-san-giorgio-modica',
+        name: 'Duomo di San Giorgio',
+        category: 'church',
+        latitude: 36.8584,
+        longitude: 14.7594,
+        summary: "Modica Alta's great church sits at the top of a monumental flight of steps, its tall tower-like façade one of the landmarks of Sicilian Baroque.",
+        sources: [wikipedia('Duomo di San Giorgio (Modica)')],
+    },
+    {
+        id: 'duomo-san-pietro-modica',
+        name: 'Duomo di San Pietro',
+        category: 'church',
+        latitude: 36.8617,
+        longitude: 14.7612,
+        summary: "The mother church of the lower town stands on Corso Umberto I, reached by a staircase lined with statues of the apostles.",
+        sources: [wikipedia('Duomo di San Pietro (Modica)')],
+    },
+    {
+        id: 'castello-dei-conti',
+        name: 'Castello dei Conti',
+        category: 'viewpoint',
+        latitude: 36.8603,
+        longitude: 14.7601,
+        summary: "What remains of the castle of the Counts of Modica perches on a rocky spur above the town, crowned by its clock tower.",
+        sources: [wikipedia('Castello dei Conti di Modica')],
+    },
+];
+
+export const NOTO_LANDMARKS: Landmark[] = [
+    {
+        id: 'cattedrale-noto',
+        name: 'Cattedrale di San Nicolò',
+        category: 'church',
+        latitude: 36.8929,
+        longitude: 15.0699,
+        summary: "Noto's cathedral crowns a broad flight of steps above Corso Vittorio Emanuele. Its dome collapsed in 1996 and the church reopened in 2007 after a long restoration.",
+        sources: [wikipedia('Cattedrale di Noto')],
+    },
+    {
+        id: 'palazzo-nicolaci',
+        name: 'Palazzo Nicolaci di Villadorata',
+        category: 'palazzo',
+        latitude: 36.8935,
+        longitude: 15.0688,
+        summary: "Its balconies rest on carved corbels of horses, lions, sirens and grotesque faces. The street beside it, Via Corrado Nicolaci, is carpeted with flower pictures for the Infiorata every May.",
+        sources: [wikipedia('Palazzo Nicolaci')],
+    },
+    {
+        id: 'san-domenico-noto',
+        name: 'Chiesa di San Domenico',
+        category: 'church',
+        latitude: 36.8921,
+        longitude: 15.0668,
+        summary: "Rosario Gagliardi's convex façade, built in the honey-coloured local stone, is one of the finest in a town rebuilt from scratch after the 1693 earthquake.",
+        sources: [wikipedia('Chiesa di San Domenico (Noto)')],
+    },
+];
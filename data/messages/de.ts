@@ -0,0 +1,404 @@
+import type { Messages } from './en';
+
+export const de: Messages = {
+    'app.title': 'Mimis Reiseführerin',
+    'app.tagline': 'Deine KI-Begleiterin im Herzen des sizilianischen Barock',
+    'app.language': 'Sprache',
+    'app.destination': 'Reiseziel',
+
+    'tabs.lens': 'Zauberlinse',
+    'tabs.guide': 'Stadtführerin',
+    'tabs.translator': 'Übersetzer',
+    'tabs.tours': 'Touren',
+    'tabs.food': 'Essen',
+    'tabs.montalbano': 'Montalbano',
+    'tabs.map': 'Karte',
+    'tabs.saved': 'Mein {town}',
+    'tabs.journal': 'Tagebuch',
+    'tabs.help': 'Hilfe',
+
+    'settings.nearbyAlerts': 'Hinweise auf Sehenswürdigkeiten in der Nähe',
+    'settings.spokenIntros': 'Gesprochene Einführungen in der Nähe von Sehenswürdigkeiten',
+    'settings.highAccuracy': 'Hochgenaues GPS (verbraucht mehr Akku)',
+    'settings.on': '{label}: an',
+    'settings.off': '{label}: aus',
+    'settings.tracking': 'Standorteinstellungen',
+    'settings.display': 'Anzeige- und Toneinstellungen',
+    'settings.highContrast': 'Hoher Kontrast',
+    'settings.largeText': 'Große Schrift',
+    'settings.autoNarrate': 'Ergebnisse der Zauberlinse vorlesen',
+
+    'nearby.message': 'Du bist in der Nähe von **{name}**. Tippe, um seine Geschichte zu hören.',
+    'nearby.dismiss': 'Schließen',
+    'nearby.spokenIntro': 'Du bist in der Nähe von {name}.',
+
+    'a11y.skipToContent': 'Zum Inhalt springen',
+    'a11y.sections': 'Bereiche',
+    'a11y.loading': 'Wird geladen...',
+    'a11y.analysisReady': 'Mimis Analyse von {name} ist fertig.',
+    'a11y.glimpseReady': 'Der Überblick über {town} ist fertig.',
+
+    'location.available': 'Standort verfügbar: {latitude}, {longitude} (±{accuracy} m)',
+    'location.fetching': 'Standort wird ermittelt...',
+    'location.denied': 'Der Zugriff auf den Standort wurde verweigert.',
+    'location.unavailable': 'Standortinformationen sind nicht verfügbar.',
+    'location.timeout': 'Die Standortabfrage hat zu lange gedauert.',
+    'location.unsupported': 'Dieser Browser unterstützt keine Standortbestimmung.',
+    'location.unknown': 'Ein unbekannter Fehler ist aufgetreten.',
+
+    'offline.banner': 'Du bist offline. Mimi kann dir trotzdem deine gespeicherten Orte, die letzten Analysen und den Sprachführer zeigen.',
+
+    'lens.intro': 'Zeig Mimi eine Sehenswürdigkeit in {town}, und sie erzählt dir alles darüber! Füge bis zu {count} Fotos desselben Ortes hinzu, etwa die Fassade, ein Detail und den Innenraum.',
+    'lens.choosePhotos': 'Fotos auswählen',
+    'lens.addPhotos': 'Fotos hinzufügen',
+    'lens.useCamera': 'Kamera verwenden',
+    'lens.closeCamera': 'Kamera schließen',
+    'lens.analyze': 'Analysieren',
+    'lens.analyzing': 'Mimi sieht sich deine Fotos an...',
+    'lens.offline': 'Du bist offline, deshalb kann ich mir gerade keine neuen Fotos ansehen. Das habe ich dir zuletzt erzählt:',
+    'lens.noRecent': 'Auf diesem Gerät gibt es noch keine Analysen.',
+    'lens.photo': 'Foto {number}',
+    'lens.removePhoto': 'Foto {number} entfernen',
+    'lens.preview': 'Vorschau',
+    'lens.save': 'In Mein {town} speichern',
+    'lens.unsave': 'Aus Mein {town} entfernen',
+    'lens.thisLandmark': 'diese Sehenswürdigkeit',
+    'lens.noPhotos': 'Bitte füge zuerst ein Foto hinzu.',
+    'lens.readError': 'Entschuldige, ich konnte das Foto nicht lesen. Bitte versuch ein anderes.',
+    'lens.analyzeError': 'Entschuldige, ich konnte die Fotos nicht analysieren.',
+    'lens.analyzeHint': 'Versuch einen anderen Blickwinkel oder ein schärferes Foto.',
+    'lens.saveError': 'Entschuldige, deine gespeicherten Orte konnten nicht aktualisiert werden.',
+    'lens.artworkEmpty': 'Mimi konnte das nicht malen. Versuch es noch einmal oder wähle einen anderen Stil.',
+    'lens.artworkError': 'Entschuldige, ich konnte diesen Ort nicht malen.',
+    'lens.artworkHint': 'Versuch es noch einmal oder wähle einen anderen Stil.',
+
+    'analysis.title': 'Mimis Analyse',
+    'analysis.readAloud': 'Vorlesen',
+    'analysis.voice': 'Stimme:',
+    'analysis.sources': 'Quellen:',
+    'analysis.audioError': 'Entschuldige, der Ton konnte gerade nicht erzeugt werden.',
+    'analysis.confidence.high': 'Sicherer Treffer',
+    'analysis.confidence.medium': 'Wahrscheinlicher Treffer',
+    'analysis.confidence.low': 'Nicht sicher',
+    'analysis.confirmQuestion': 'Ich bin nicht sicher, ob das {name} ist. Stimmt das, oder ist es einer von diesen?',
+    'analysis.confirmYes': 'Ja, es ist {name}',
+    'analysis.section.constructionPeriod': 'Erbaut',
+    'analysis.section.architect': 'Architekt',
+    'analysis.section.architecturalStyle': 'Stil',
+    'analysis.section.history': 'Geschichte',
+    'analysis.section.montalbanoConnection': 'Commissario Montalbano',
+    'analysis.section.visitingHours': 'Öffnungszeiten',
+    'analysis.section.notes': 'Mimis Hinweise',
+    'analysis.thisIs': 'Das ist {name}.',
+    'analysis.thisIsBuilt': 'Das ist {name}, {built}.',
+    'analysis.builtIn': 'erbaut {period}',
+    'analysis.builtBy': 'von {architect}',
+    'analysis.builtStyle': 'im Stil {style}',
+
+    'guide.placeholder': 'Frag Mimi alles über {town}...',
+    'guide.newConversation': 'Neues Gespräch',
+    'guide.untitled': 'Ohne Titel',
+    'guide.deleteConversation': 'Gespräch löschen',
+    'guide.talk': 'Mit Mimi sprechen',
+    'guide.stopReply': 'Antwort stoppen',
+    'guide.conversations': 'Gespeicherte Gespräche',
+    'guide.chatLog': 'Gespräch mit Mimi',
+    'guide.thinking': 'Mimi denkt nach...',
+    'guide.speak': 'Frage sprechen',
+    'guide.stopListening': 'Zuhören beenden',
+    'guide.send': 'Senden',
+    'guide.stopped': 'Gestoppt',
+    'guide.interrupted': 'Verbindung verloren, diese Antwort ist vielleicht unvollständig.',
+    'guide.answerError': 'Entschuldige, darauf konnte ich nicht antworten.',
+    'guide.tellMeMore': 'Erzähl mir mehr über {name}.',
+    'guide.inJournal': 'In deinem Tagebuch',
+    'guide.addToJournal': 'Zum Tagebuch hinzufügen',
+    'guide.offline': 'Du bist offline, deshalb kann Mimi keine neuen Fragen beantworten. Deine bisherigen Gespräche sind noch da, und der Sprachführer des Übersetzers funktioniert auch offline.',
+
+    'food.intro': 'Sag mir, was du nicht essen kannst, und ich finde gutes Essen in der Nähe und erkläre dir die Gerichte von {town}.',
+    'food.dietaryNeeds': 'Ernährungsbedürfnisse',
+    'food.need.vegetarian': 'Vegetarisch',
+    'food.need.glutenFree': 'Glutenfrei',
+    'food.need.nutAllergy': 'Nussallergie',
+    'food.need.halal': 'Halal',
+    'food.offline': 'Du bist offline, deshalb kann Mimi gerade nicht nach Essen suchen. Der Sprachführer des Übersetzers hat trotzdem Sätze rund ums Essen.',
+    'food.findNearby': 'Essen in meiner Nähe finden',
+    'food.suggesting': 'Mimi sucht gutes Essen in der Nähe...',
+    'food.suggestionsReady': 'Die Essensvorschläge sind fertig.',
+    'food.suggestError': 'Entschuldige, ich konnte gerade keine Essensvorschläge finden.',
+    'food.dishTitle': 'Was ist das für ein Gericht?',
+    'food.specialities': 'Spezialitäten von {town}',
+    'food.dishPlaceholder': 'Gib ein Gericht von der Karte ein...',
+    'food.dishLabel': 'Zu erklärendes Gericht',
+    'food.explain': 'Erklären',
+    'food.explaining': 'Mimi informiert sich über dieses Gericht...',
+    'food.dishReady': 'Mimis Erklärung zu {name} ist fertig.',
+    'food.explainError': 'Entschuldige, ich konnte dieses Gericht nicht erklären.',
+    'food.allergens': 'Enthält meist: {allergens}. Frag immer beim Personal nach.',
+    'food.noAllergens': 'Im üblichen Rezept stecken keine häufigen Allergene, aber frag immer beim Personal nach.',
+    'food.unsuitable': 'Meist nicht geeignet für dich: {needs}.',
+    'food.suitable': 'Das übliche Rezept passt zu deinen Ernährungsbedürfnissen.',
+    'food.howToOrder': 'Wie bestelle ich das?',
+
+    'trail.intro': 'Folge Commissario Montalbano durch {town}: die Drehorte in der Reihenfolge des Spaziergangs, was jeder in der Serie darstellt und wie er heute neben dem Bildschirm-Original aussieht.',
+    'trail.none': 'Für {town} gibt es noch keinen Montalbano-Rundgang.',
+    'trail.stops': 'Drehorte in der Reihenfolge des Spaziergangs',
+    'trail.inStory': 'In der Serie: {name}.',
+    'trail.episodes': 'Zu sehen: {episodes}',
+    'trail.fromYou': '{distance} von dir entfernt',
+    'trail.thenNow': 'Damals und heute',
+    'trail.offline': 'Du bist offline. Du kannst dem Rundgang trotzdem folgen, aber zum Vergleichen von Fotos brauchst du eine Verbindung.',
+    'trail.takePhoto': 'Mach hier ein Foto',
+    'trail.then': 'Damals',
+    'trail.now': 'Heute',
+    'trail.recreationAlt': '{name}, nachgestellt als Szene aus der Serie',
+    'trail.yourPhoto': 'Dein Foto von {name}',
+    'trail.compare': 'Mit der Serie vergleichen',
+    'trail.recreate': 'Szene nachstellen',
+    'trail.comparing': 'Mimi vergleicht damals und heute...',
+    'trail.recreating': 'Mimi stellt die Szene nach...',
+    'trail.compareReady': 'Der Vergleich ist fertig.',
+    'trail.recreateReady': 'Die nachgestellte Szene ist fertig.',
+    'trail.compareError': 'Entschuldige, ich konnte dein Foto nicht vergleichen.',
+    'trail.recreateError': 'Entschuldige, ich konnte die Szene nicht nachstellen.',
+    'trail.recreateEmpty': 'Mimi konnte diese Szene nicht nachstellen. Versuch es mit einem anderen Foto.',
+    'trail.previous': 'Zurück',
+    'trail.next': 'Nächster Drehort',
+
+    'translator.sourceLanguage': 'Ausgangssprache',
+    'translator.targetLanguage': 'Zielsprache',
+    'translator.autoDetect': 'Automatisch erkennen',
+    'translator.detected': 'Erkannt: {language}',
+    'translator.detectedLanguage': 'Erkannte Sprache',
+    'translator.placeholderAny': 'Gib einen Text in einer beliebigen Sprache ein...',
+    'translator.placeholder': 'Gib einen Text auf {language} ein...',
+    'translator.sourceText': 'Zu übersetzender Text',
+    'translator.photo': 'Foto einer Speisekarte oder eines Schilds übersetzen',
+    'translator.speak': 'Sprich den zu übersetzenden Text',
+    'translator.contextPlaceholder': 'Kontext hinzufügen (z. B. Speisekarte)',
+    'translator.context': 'Kontext',
+    'translator.autoTranslate': 'Beim Tippen automatisch übersetzen',
+    'translator.phrasebook': 'Sprachführer',
+    'translator.conversationMode': 'Gesprächsmodus',
+    'translator.swap': 'Sprachen tauschen',
+    'translator.translate': 'Übersetzen',
+    'translator.translating': 'Wird übersetzt...',
+    'translator.translationPlaceholder': 'Übersetzung auf {language}...',
+    'translator.translationLabel': 'Übersetzung auf {language}',
+    'translator.readAloud': 'Übersetzung vorlesen',
+    'translator.audioLabel': 'Übersetzung auf {language}',
+    'translator.translateError': 'Entschuldige, ich konnte den Text nicht übersetzen.',
+    'translator.speakError': 'Entschuldige, ich konnte die Übersetzung nicht vorlesen.',
+    'translator.back': 'Zurück zum Übersetzer',
+    'translator.offline': 'Du bist offline, deshalb gibt es gerade keine Live-Übersetzung. Diese Sätze funktionieren auch ohne Verbindung.',
+
+    'photo.title': 'Foto-Übersetzung',
+    'photo.titleFrom': 'Foto-Übersetzung aus dem {language}',
+    'photo.sideBySide': 'Nebeneinander zeigen',
+    'photo.overlay': 'Beschriftungen auf dem Foto zeigen',
+    'photo.close': 'Foto schließen',
+    'photo.alt': 'Zu übersetzendes Foto',
+    'photo.original': 'Original',
+    'photo.error': 'Entschuldige, ich konnte den Text auf diesem Foto nicht lesen.',
+    'photo.hint': 'Versuch es mit einer schärferen Aufnahme aus der Nähe.',
+
+    'conversation.idle': 'Tippe auf das Mikrofon auf der Seite von dem, der zuerst spricht.',
+    'conversation.listening': 'Höre auf {language}...',
+    'conversation.speaking': 'Spreche {language}...',
+    'conversation.speak': '{language} sprechen',
+    'conversation.pause': 'Gespräch pausieren',
+    'conversation.exit': 'Gesprächsmodus beenden',
+    'conversation.hearError': 'Entschuldige, das habe ich nicht verstanden.',
+    'conversation.translateError': 'Entschuldige, das konnte ich nicht übersetzen.',
+    'conversation.retry': 'Tippe auf ein Mikrofon, um es noch einmal zu versuchen.',
+    'conversation.unsupported': 'Dieser Browser unterstützt keine Spracherkennung.',
+
+    'phrasebook.ready': '{count} von {total} Sätzen offline bereit',
+    'phrasebook.download': 'Audio herunterladen',
+    'phrasebook.downloading': 'Lade herunter {count}/{total}',
+    'phrasebook.downloadError': 'Entschuldige, der Download wurde unterbrochen.',
+    'phrasebook.downloadHint': 'Tippe noch einmal auf Herunterladen, um fortzufahren.',
+    'phrasebook.play': '„{text}“ abspielen',
+    'phrasebook.category.greetings': 'Begrüßungen',
+    'phrasebook.category.foodDrink': 'Essen & Trinken',
+    'phrasebook.category.gettingAround': 'Unterwegs',
+    'phrasebook.category.help': 'Hilfe',
+    'phrasebook.phrase.goodMorning': 'Guten Morgen',
+    'phrasebook.phrase.goodEvening': 'Guten Abend',
+    'phrasebook.phrase.please': 'Bitte',
+    'phrasebook.phrase.thankYou': 'Danke',
+    'phrasebook.phrase.excuseMe': 'Entschuldigen Sie',
+    'phrasebook.phrase.goodbye': 'Auf Wiedersehen',
+    'phrasebook.phrase.coffee': 'Einen Kaffee, bitte',
+    'phrasebook.phrase.water': 'Etwas Wasser, bitte',
+    'phrasebook.phrase.bill': 'Die Rechnung, bitte',
+    'phrasebook.phrase.vegetarian': 'Ich bin Vegetarier',
+    'phrasebook.phrase.nutAllergy': 'Ich bin allergisch gegen Nüsse',
+    'phrasebook.phrase.delicious': 'Köstlich!',
+    'phrasebook.phrase.bathroom': 'Wo ist die Toilette?',
+    'phrasebook.phrase.townCentre': 'Wie komme ich ins Zentrum?',
+    'phrasebook.phrase.whereIsChurch': 'Wo ist {church}?',
+    'phrasebook.phrase.isItFar': 'Ist es weit?',
+    'phrasebook.phrase.howMuch': 'Wie viel kostet das?',
+    'phrasebook.phrase.dontUnderstand': 'Ich verstehe nicht',
+    'phrasebook.phrase.speakEnglish': 'Sprechen Sie Englisch?',
+    'phrasebook.phrase.help': 'Hilfe!',
+    'phrasebook.phrase.doctor': 'Bitte rufen Sie einen Arzt',
+
+    'tours.intro': 'Sag mir, wie viel Zeit du hast und was du liebst, und ich plane einen Spaziergang durch {town} nur für dich.',
+    'tours.duration': 'Wie lange?',
+    'tours.duration.oneHour': '1 Stunde',
+    'tours.duration.twoHours': '2 Stunden',
+    'tours.duration.halfDay': 'Ein halber Tag',
+    'tours.interests': 'Was interessiert dich?',
+    'tours.mobility': 'Unterwegs',
+    'tours.mobility.stepFree': 'Stufenlos',
+    'tours.mobility.easy': 'Leichtes Gehen',
+    'tours.mobility.active': 'Gern auch bergauf',
+    'tours.interest.baroque': 'Barock',
+    'tours.interest.montalbano': 'Montalbano',
+    'tours.interest.chocolate': 'Schokolade',
+    'tours.interest.infiorata': 'Infiorata',
+    'tours.interest.food': 'Essen',
+    'tours.interest.churches': 'Kirchen',
+    'tours.plan': 'Meine Tour planen',
+    'tours.ready': 'Deine Tour „{title}“ ist fertig.',
+    'tours.error': 'Entschuldige, ich kann gerade keine Tour planen.',
+    'tours.summary': '{stops} Stationen · etwa {minutes} Minuten · {visited} besucht',
+    'tours.new': 'Neue Tour planen',
+    'tours.visited': 'Besucht',
+    'tours.visitedStop': '{name} besucht',
+    'tours.walk': '{minutes} Min. zu Fuß von der letzten Station',
+    'tours.stay': 'etwa {minutes} Min. hier',
+    'tours.previous': 'Zurück',
+    'tours.next': 'Besucht, nächste Station',
+    'tours.finish': 'Fertig',
+
+    'map.youAreHere': 'Du bist hier',
+    'map.detailsReady': 'Mehr über {name} ist fertig.',
+    'map.detailsError': 'Entschuldige, ich kann gerade nicht mehr über diesen Ort herausfinden.',
+    'map.close': 'Schließen',
+    'map.tellMeMore': 'Erzähl mir mehr',
+    'map.nearMe': 'Was ist in meiner Nähe',
+    'map.fromCentre': 'Sehenswürdigkeiten ab dem Zentrum',
+    'map.category.church': 'Barockkirche',
+    'map.category.palazzo': 'Palazzo',
+    'map.category.montalbano': 'Montalbano-Drehort',
+    'map.category.viewpoint': 'Aussichtspunkt',
+
+    'followUp.title': 'Frag Mimi mehr darüber',
+    'followUp.placeholder': 'Wann wurde es gebaut? Wer hat hier gewohnt?',
+    'followUp.label': 'Deine Frage zu diesem Ort',
+    'followUp.ask': 'Fragen',
+
+    'artwork.title': 'Mimis künstlerischer Eindruck',
+    'artwork.style': 'Kunststil',
+    'artwork.style.watercolor': 'Aquarell',
+    'artwork.style.inkSketch': 'Tuschezeichnung',
+    'artwork.style.vintagePostcard': 'Alte Postkarte',
+    'artwork.style.baroqueOil': 'Barockes Ölgemälde',
+    'artwork.style.tvStill': 'Montalbano-Standbild aus den 90ern',
+    'artwork.regenerate': 'Neu malen',
+    'artwork.regenerateTitle': 'Noch einmal malen',
+    'artwork.alt': '{name} als {style}',
+    'artwork.refinePlaceholder': 'Verfeinern, z. B. „füge einen Sonnenuntergang hinzu“',
+    'artwork.refineLabel': 'Wie soll Mimi das Bild ändern?',
+    'artwork.refine': 'Bild verfeinern',
+    'artwork.refineError': 'Entschuldige, ich kann das Bild gerade nicht malen.',
+    'artwork.caption': 'Grüße aus {town} · {name}',
+    'artwork.captionLabel': 'Postkartentext',
+    'artwork.postcard': 'Postkarte',
+    'artwork.postcardError': 'Entschuldige, ich konnte die Postkarte nicht erstellen.',
+
+    'saved.intro': 'Alle Orte, die du in der Zauberlinse mit einem Stern markiert hast, auf diesem Gerät gespeichert.',
+    'saved.searchPlaceholder': 'Gespeicherte Orte durchsuchen...',
+    'saved.search': 'Gespeicherte Orte durchsuchen',
+    'saved.empty': 'Noch keine gespeicherten Orte. Tippe bei einem Ergebnis der Zauberlinse auf den Stern, um es hier aufzubewahren.',
+    'saved.noMatch': 'Keine gespeicherten Orte passen zu „{query}“.',
+    'saved.open': 'Öffnen',
+    'saved.delete': 'Löschen',
+    'saved.loadError': 'Entschuldige, ich konnte deine gespeicherten Orte nicht laden.',
+    'saved.deleteError': 'Entschuldige, ich konnte diesen Ort nicht löschen.',
+
+    'journal.intro': 'Alles, was Mimi dir auf dieser Reise erzählt hat: die Orte, die du fotografiert hast, ihre Aquarelle und die Antworten und Übersetzungen, die du behalten hast. Nimm es als Webseite, PDF oder Markdown-Datei mit nach Hause.',
+    'journal.format': 'Exportformat',
+    'journal.format.html': 'Webseite (HTML)',
+    'journal.format.markdown': 'Markdown',
+    'journal.download': 'Herunterladen',
+    'journal.share': 'Teilen',
+    'journal.print': 'Drucken / PDF',
+    'journal.empty': 'Dein Tagebuch ist leer. Ergebnisse der Zauberlinse kommen automatisch hinein, und Antworten der Stadtführerin und Übersetzungen fügst du mit der Schaltfläche {icon} hinzu.',
+    'journal.remove': 'Aus dem Tagebuch entfernen',
+    'journal.photoAlt': 'Dein Foto',
+    'journal.artworkAlt': 'Mimis Aquarell',
+    'journal.kind.translation': 'Übersetzung',
+    'journal.exportTitle': 'Mein Reisetagebuch aus {town}',
+    'journal.loadError': 'Entschuldige, ich konnte dein Tagebuch nicht laden.',
+    'journal.deleteError': 'Entschuldige, ich konnte diesen Eintrag nicht löschen.',
+    'journal.shareError': 'Entschuldige, das Teilen hat nicht geklappt. Lade das Tagebuch stattdessen herunter.',
+    'journal.printError': 'Erlaube Pop-ups für diese Seite, um dein Tagebuch zu drucken oder als PDF zu speichern.',
+
+    'audio.player': 'Audioplayer',
+    'audio.play': 'Abspielen',
+    'audio.pause': 'Pause',
+    'audio.stop': 'Stopp',
+    'audio.preparing': 'Audio wird vorbereitet...',
+    'audio.queued': '(+{count} in der Warteschlange)',
+    'audio.seek': 'Position',
+    'audio.speed': 'Wiedergabegeschwindigkeit',
+
+    'live.connecting': 'Verbinde mit Mimi...',
+    'live.listening': 'Ich höre zu, fang einfach an zu sprechen.',
+    'live.speaking': 'Mimi spricht. Sprich jederzeit dazwischen, um sie zu unterbrechen.',
+    'live.closed': 'Gespräch beendet.',
+    'live.micDenied': 'Mimi braucht Zugriff auf das Mikrofon, um mit dir zu sprechen.',
+    'live.dropped': 'Entschuldige, die Sprachverbindung ist abgebrochen.',
+    'live.interrupted': 'Unterbrochen',
+    'live.end': 'Sprachchat beenden',
+
+    'camera.denied': 'Mimi braucht Zugriff auf die Kamera, um den Sucher zu verwenden.',
+    'camera.error': 'Entschuldige, ich konnte die Kamera nicht öffnen. Du kannst stattdessen Fotos auswählen.',
+    'camera.capture': 'Aufnehmen',
+    'camera.auto': 'Automatische Aufnahme',
+    'camera.autoEvery': 'Automatisch alle {seconds} s',
+    'camera.autoOff': 'Automatik aus',
+
+    'place.directions': 'Route',
+
+    'help.welcome.title': 'Ciao! Ich bin Mimi!',
+    'help.welcome.body': 'Ich bin deine persönliche Führerin durch das wunderschöne Städtchen {town}. Ich zeige dir, wie ich deinen Besuch unvergesslich machen kann!',
+    'help.lens.body': 'Du siehst ein schönes Gebäude, weißt aber nicht, was es ist? Nutze die **Zauberlinse**! Lade ein paar Fotos hoch oder richte deine Kamera darauf, und ich erzähle dir alles über seine Geschichte und Geheimnisse. Danach kannst du mich alles fragen, was du noch wissen möchtest.',
+    'help.lens.button': 'Zauberlinse ausprobieren',
+    'help.guide.body': 'Du hast eine Frage? Frag mich einfach! Im Tab **Stadtführerin** kannst du mit mir über die besten Restaurants plaudern, die Geschichten hinter dem, was du siehst, erfahren oder lokale Traditionen kennenlernen.',
+    'help.guide.button': 'Eine Frage stellen',
+    'help.translator.body': 'Brauchst du Hilfe mit der Sprache? Der **Übersetzer** ist für dich da. Ich übersetze zwischen Englisch, Italienisch, Deutsch, Französisch, Spanisch, Niederländisch und sogar sizilianischem Dialekt, und ich erkenne selbst, welche Sprache du gerade liest. Du kannst sogar sprechen und dir die Übersetzung anhören!',
+    'help.translator.button': 'Jetzt übersetzen',
+    'help.tours.body': 'Du weißt nicht, wo du anfangen sollst? Sag mir, wie viel Zeit du hast und was du magst, und unter **Touren** plane ich dir einen Spaziergang, Station für Station, mit einer Geschichte an jeder Ecke.',
+    'help.tours.button': 'Tour planen',
+    'help.food.body': 'Hunger? Sag mir unter **Essen**, worauf du achten musst, und ich schlage dir Lokale in der Nähe und örtliche Spezialitäten vor, erkläre dir jedes Gericht auf der Karte, weise auf Allergene hin und bringe dir bei, wie du es auf Italienisch bestellst.',
+    'help.food.button': 'Essen finden',
+    'help.montalbano.body': 'Fan von **Commissario Montalbano**? Folge dem **Montalbano**-Rundgang zu den Drehorten, erfahre, was jeder Ort in der Serie darstellt, und mach ein Foto, um es mit der Szene zu vergleichen, damals und heute.',
+    'help.montalbano.button': 'Zum Rundgang',
+    'help.map.body': 'Neugierig, was hinter der nächsten Ecke liegt? Die **Karte** zeigt, wo du bist, und markiert die Barockkirchen, Palazzi und anderen Sehenswürdigkeiten von {town}. Tippe auf eine Markierung, um ihre Geschichte zu hören, oder sieh nach, was am nächsten liegt.',
+    'help.map.button': 'Karte öffnen',
+    'help.saved.body': 'Einen Lieblingsort gefunden? Tippe bei einem Ergebnis der **Zauberlinse** auf den Stern, und ich bewahre ihn in **Mein {town}** auf, direkt auf deinem Handy, damit du ihn später wiederfindest.',
+    'help.saved.button': 'Meine Orte ansehen',
+    'help.journal.body': 'Möchtest du dich an alles erinnern? Jeder Ort, den du der **Zauberlinse** zeigst, landet in deinem **Tagebuch**, zusammen mit den Antworten und Übersetzungen, die du mit dem Buch-Symbol hinzufügst. Lade es herunter, teile es oder drucke es zu Hause als PDF.',
+    'help.journal.button': 'Mein Tagebuch öffnen',
+    'help.glimpse.title': 'Ein Blick auf {town}',
+    'help.glimpse.body': 'Neugierig auf die Stadt selbst? Tippe auf die Schaltfläche unten für eine kurze Einführung in die Geschichte und Bedeutung von {town}.',
+    'help.glimpse.button': 'Erzähl mir von {town}',
+    'help.glimpse.loading': 'Wird geladen...',
+    'help.glimpse.cached': 'Von einem früheren Besuch gespeichert, solange du offline bist.',
+    'help.glimpse.error': 'Entschuldige, ich konnte gerade keine Informationen über {town} abrufen.',
+    'help.glimpse.hint': 'Bitte versuch es später noch einmal.',
+    'help.farewell': 'Ich hoffe, das hilft dir! Entdecke alle meine Funktionen und hab eine wunderbare Zeit in {town}!',
+
+    'errors.network': 'Mimi erreicht gerade das Internet nicht. Prüfe deine Verbindung und versuch es noch einmal.',
+    'errors.quotaSeconds': 'Mimi bekommt gerade sehr viele Fragen. Bitte versuch es in {seconds} Sekunden noch einmal.',
+    'errors.quota': 'Mimi bekommt gerade sehr viele Fragen. Bitte warte eine Minute und versuch es dann noch einmal.',
+    'errors.safety': 'Dabei kann Mimi nicht helfen. Formuliere es anders oder nimm ein anderes Foto.',
+    'errors.invalid': 'Das war zu viel auf einmal für Mimi. Versuch es mit einer kürzeren Nachricht oder weniger Fotos.',
+    'errors.timeout': 'Mimi hat zu lange für die Antwort gebraucht. Bitte versuch es noch einmal.',
+    'errors.retry': 'Bitte versuch es noch einmal.',
+};
@@ -0,0 +1,408 @@
+// --- English UI strings: the source catalogue every other language must match key for key ---
+// `{name}` placeholders are filled in by t(), which always knows `{town}`; `**bold**` is rendered where the text goes through renderInline.
+
+export const en = {
+    'app.title': 'Mimi‘s tour guide',
+    'app.tagline': 'Your AI companion in the heart of Sicilian Baroque',
+    'app.language': 'Language',
+    'app.destination': 'Destination',
+
+    'tabs.lens': 'Magic Lens',
+    'tabs.guide': 'Local Guide',
+    'tabs.translator': 'Translator',
+    'tabs.tours': 'Tours',
+    'tabs.food': 'Food',
+    'tabs.montalbano': 'Montalbano',
+    'tabs.map': 'Map',
+    'tabs.saved': 'My {town}',
+    'tabs.journal': 'Journal',
+    'tabs.help': 'Help',
+
+    'settings.nearbyAlerts': 'Nearby landmark alerts',
+    'settings.spokenIntros': 'Spoken intros near landmarks',
+    'settings.highAccuracy': 'High-accuracy GPS (uses more battery)',
+    'settings.on': '{label}: on',
+    'settings.off': '{label}: off',
+    'settings.tracking': 'Location settings',
+    'settings.display': 'Display and sound settings',
+    'settings.highContrast': 'High contrast',
+    'settings.largeText': 'Large text',
+    'settings.autoNarrate': 'Read Magic Lens results aloud',
+
+    'nearby.message': "You're near **{name}**. Tap to hear its story.",
+    'nearby.dismiss': 'Dismiss',
+    'nearby.spokenIntro': "You're near {name}.",
+
+    'a11y.skipToContent': 'Skip to content',
+    'a11y.sections': 'Sections',
+    'a11y.loading': 'Loading...',
+    'a11y.analysisReady': "Mimi's analysis of {name} is ready.",
+    'a11y.glimpseReady': 'The overview of {town} is ready.',
+
+    'location.available': 'Location available: {latitude}, {longitude} (±{accuracy} m)',
+    'location.fetching': 'Fetching location...',
+    'location.denied': 'Location access was denied.',
+    'location.unavailable': 'Location information is unavailable.',
+    'location.timeout': 'The request to get your location timed out.',
+    'location.unsupported': 'Geolocation is not supported by this browser.',
+    'location.unknown': 'An unknown error occurred.',
+
+    'offline.banner': "You're offline. Mimi can still show your saved places, recent analyses and the phrasebook.",
+
+    'lens.intro': "Show Mimi a landmark in {town}, and she'll tell you all about it! Add up to {count} photos of the same place, like the façade, a detail and the interior.",
+    'lens.choosePhotos': 'Choose Photos',
+    'lens.addPhotos': 'Add Photos',
+    'lens.useCamera': 'Use Camera',
+    'lens.closeCamera': 'Close Camera',
+    'lens.analyze': 'Analyze',
+    'lens.analyzing': 'Mimi is looking at your photos...',
+    'lens.offline': "You're offline, so I can't look at new photos right now. Here's what I told you recently:",
+    'lens.noRecent': 'No recent analyses on this device yet.',
+    'lens.photo': 'Photo {number}',
+    'lens.removePhoto': 'Remove photo {number}',
+    'lens.preview': 'Preview',
+    'lens.save': 'Save to My {town}',
+    'lens.unsave': 'Remove from My {town}',
+    'lens.thisLandmark': 'this landmark',
+    'lens.noPhotos': 'Please add a photo first.',
+    'lens.readError': "Sorry, I couldn't read that photo. Please try another one.",
+    'lens.analyzeError': "Sorry, I couldn't analyze the photos.",
+    'lens.analyzeHint': 'Try another angle or a clearer photo.',
+    'lens.saveError': 'Sorry, could not update your saved places.',
+    'lens.artworkEmpty': "Mimi couldn't paint this one. Try again or pick another style.",
+    'lens.artworkError': "Sorry, I couldn't paint this place.",
+    'lens.artworkHint': 'Try again or pick another style.',
+
+    'analysis.title': "Mimi's Analysis",
+    'analysis.readAloud': 'Read Aloud',
+    'analysis.voice': 'Voice:',
+    'analysis.sources': 'Sources:',
+    'analysis.audioError': 'Sorry, could not generate audio at this time.',
+    'analysis.confidence.high': 'Confident match',
+    'analysis.confidence.medium': 'Likely match',
+    'analysis.confidence.low': 'Not sure',
+    'analysis.confirmQuestion': "I'm not certain this is {name}. Is it, or is it one of these?",
+    'analysis.confirmYes': "Yes, it's {name}",
+    'analysis.section.constructionPeriod': 'Built',
+    'analysis.section.architect': 'Architect',
+    'analysis.section.architecturalStyle': 'Style',
+    'analysis.section.history': 'History',
+    'analysis.section.montalbanoConnection': 'Inspector Montalbano',
+    'analysis.section.visitingHours': 'Visiting hours',
+    'analysis.section.notes': "Mimi's notes",
+    // Narration glue around the model's own fields.
+    'analysis.thisIs': 'This is {name}.',
+    'analysis.thisIsBuilt': 'This is {name}, {built}.',
+    'analysis.builtIn': 'built in {period}',
+    'analysis.builtBy': 'by {architect}',
+    'analysis.builtStyle': 'in the {style} style',
+
+    'guide.placeholder': 'Ask Mimi anything about {town}...',
+    'guide.newConversation': 'New conversation',
+    'guide.untitled': 'Untitled',
+    'guide.deleteConversation': 'Delete conversation',
+    'guide.talk': 'Talk to Mimi',
+    'guide.stopReply': 'Stop reply',
+    'guide.conversations': 'Saved conversations',
+    'guide.chatLog': 'Conversation with Mimi',
+    'guide.thinking': 'Mimi is thinking...',
+    'guide.speak': 'Speak your question',
+    'guide.stopListening': 'Stop listening',
+    'guide.send': 'Send',
+    'guide.stopped': 'Stopped',
+    'guide.interrupted': 'Connection lost, this answer may be incomplete.',
+    'guide.answerError': "Sorry, I couldn't answer that.",
+    'guide.tellMeMore': 'Tell me more about {name}.',
+    'guide.inJournal': 'In your journal',
+    'guide.addToJournal': 'Add to journal',
+    'guide.offline': "You're offline, so Mimi can't answer new questions. Your past conversations are still here, and the Translator's phrasebook works offline.",
+
+    'food.intro': "Tell me what you can't eat, and I'll find good food nearby and explain the dishes of {town}.",
+    'food.dietaryNeeds': 'Dietary needs',
+    'food.need.vegetarian': 'Vegetarian',
+    'food.need.glutenFree': 'Gluten-free',
+    'food.need.nutAllergy': 'Nut allergy',
+    'food.need.halal': 'Halal',
+    'food.offline': "You're offline, so Mimi can't look up food right now. The Translator's phrasebook still has food phrases.",
+    'food.findNearby': 'Find food near me',
+    'food.suggesting': 'Mimi is looking for good food nearby...',
+    'food.suggestionsReady': 'Food suggestions are ready.',
+    'food.suggestError': "Sorry, I couldn't find food suggestions right now.",
+    'food.dishTitle': "What's this dish?",
+    'food.specialities': 'Specialities of {town}',
+    'food.dishPlaceholder': 'Type a dish from the menu...',
+    'food.dishLabel': 'Dish to explain',
+    'food.explain': 'Explain',
+    'food.explaining': 'Mimi is reading up on that dish...',
+    'food.dishReady': "Mimi's explanation of {name} is ready.",
+    'food.explainError': "Sorry, I couldn't explain that dish.",
+    'food.allergens': 'Usually contains: {allergens}. Always check with the staff.',
+    'food.noAllergens': 'No common allergens in the usual recipe, but always check with the staff.',
+    'food.unsuitable': 'Usually not suitable for you: {needs}.',
+    'food.suitable': 'The usual recipe suits your dietary needs.',
+    'food.howToOrder': 'How do I order this?',
+
+    'trail.intro': 'Follow Inspector Montalbano around {town}: the filming locations in walking order, what each one plays in the series, and how it looks today next to how it looked on screen.',
+    'trail.none': "There's no Montalbano trail for {town} yet.",
+    'trail.stops': 'Filming locations in walking order',
+    'trail.inStory': 'In the series: {name}.',
+    'trail.episodes': 'Appears: {episodes}',
+    'trail.fromYou': '{distance} from you',
+    'trail.thenNow': 'Then and now',
+    'trail.offline': "You're offline. You can still follow the trail, but comparing photos needs a connection.",
+    'trail.takePhoto': 'Take a photo from here',
+    'trail.then': 'Then',
+    'trail.now': 'Now',
+    'trail.recreationAlt': '{name}, recreated as a scene from the series',
+    'trail.yourPhoto': 'Your photo of {name}',
+    'trail.compare': 'Compare with the series',
+    'trail.recreate': 'Recreate the scene',
+    'trail.comparing': 'Mimi is comparing then and now...',
+    'trail.recreating': 'Mimi is recreating the scene...',
+    'trail.compareReady': 'The comparison is ready.',
+    'trail.recreateReady': 'The recreated scene is ready.',
+    'trail.compareError': "Sorry, I couldn't compare your photo.",
+    'trail.recreateError': "Sorry, I couldn't recreate the scene.",
+    'trail.recreateEmpty': "Mimi couldn't recreate this one. Try another photo.",
+    'trail.previous': 'Previous',
+    'trail.next': 'Next location',
+
+    'translator.sourceLanguage': 'Source language',
+    'translator.targetLanguage': 'Target language',
+    'translator.autoDetect': 'Auto-detect',
+    'translator.detected': 'Detected: {language}',
+    'translator.detectedLanguage': 'Detected language',
+    'translator.placeholderAny': 'Enter text in any language...',
+    'translator.placeholder': 'Enter text in {language}...',
+    'translator.sourceText': 'Text to translate',
+    'translator.photo': 'Translate a photo of a menu or sign',
+    'translator.speak': 'Speak the text to translate',
+    'translator.contextPlaceholder': 'Add context (e.g., food menu)',
+    'translator.context': 'Context',
+    'translator.autoTranslate': 'Auto-translate as I type',
+    'translator.phrasebook': 'Phrasebook',
+    'translator.conversationMode': 'Conversation mode',
+    'translator.swap': 'Swap languages',
+    'translator.translate': 'Translate',
+    'translator.translating': 'Translating...',
+    'translator.translationPlaceholder': 'Translation in {language}...',
+    'translator.translationLabel': 'Translation in {language}',
+    'translator.readAloud': 'Read the translation aloud',
+    'translator.audioLabel': '{language} translation',
+    'translator.translateError': "Sorry, I couldn't translate the text.",
+    'translator.speakError': "Sorry, I couldn't read the translation aloud.",
+    'translator.back': 'Back to Translator',
+    'translator.offline': "You're offline, so live translation isn't available. These phrases work without a connection.",
+
+    'photo.title': 'Photo translation',
+    'photo.titleFrom': 'Photo translation from {language}',
+    'photo.sideBySide': 'Show side by side',
+    'photo.overlay': 'Show labels on photo',
+    'photo.close': 'Close photo',
+    'photo.alt': 'Photo to translate',
+    'photo.original': 'Original',
+    'photo.error': "Sorry, I couldn't read the text in this photo.",
+    'photo.hint': 'Try a sharper, closer shot.',
+
+    'conversation.idle': 'Tap the microphone on the side of whoever speaks first.',
+    'conversation.listening': 'Listening for {language}...',
+    'conversation.speaking': 'Speaking {language}...',
+    'conversation.speak': 'Speak {language}',
+    'conversation.pause': 'Pause conversation',
+    'conversation.exit': 'Exit conversation mode',
+    'conversation.hearError': "Sorry, I couldn't hear that.",
+    'conversation.translateError': "Sorry, I couldn't translate that.",
+    'conversation.retry': 'Tap a microphone to try again.',
+    'conversation.unsupported': 'Speech recognition is not supported by this browser.',
+
+    'phrasebook.ready': '{count} of {total} phrases ready offline',
+    'phrasebook.download': 'Download audio',
+    'phrasebook.downloading': 'Downloading {count}/{total}',
+    'phrasebook.downloadError': 'Sorry, the download was interrupted.',
+    'phrasebook.downloadHint': 'Tap download again to resume.',
+    'phrasebook.play': 'Play "{text}"',
+    'phrasebook.category.greetings': 'Greetings',
+    'phrasebook.category.foodDrink': 'Food & Drink',
+    'phrasebook.category.gettingAround': 'Getting Around',
+    'phrasebook.category.help': 'Help',
+    'phrasebook.phrase.goodMorning': 'Good morning',
+    'phrasebook.phrase.goodEvening': 'Good evening',
+    'phrasebook.phrase.please': 'Please',
+    'phrasebook.phrase.thankYou': 'Thank you',
+    'phrasebook.phrase.excuseMe': 'Excuse me',
+    'phrasebook.phrase.goodbye': 'Goodbye',
+    'phrasebook.phrase.coffee': 'A coffee, please',
+    'phrasebook.phrase.water': 'Some water, please',
+    'phrasebook.phrase.bill': 'The bill, please',
+    'phrasebook.phrase.vegetarian': "I'm vegetarian",
+    'phrasebook.phrase.nutAllergy': "I'm allergic to nuts",
+    'phrasebook.phrase.delicious': 'Delicious!',
+    'phrasebook.phrase.bathroom': 'Where is the bathroom?',
+    'phrasebook.phrase.townCentre': 'How do I get to the town centre?',
+    'phrasebook.phrase.whereIsChurch': 'Where is {church}?',
+    'phrasebook.phrase.isItFar': 'Is it far?',
+    'phrasebook.phrase.howMuch': 'How much is it?',
+    'phrasebook.phrase.dontUnderstand': "I don't understand",
+    'phrasebook.phrase.speakEnglish': 'Do you speak English?',
+    'phrasebook.phrase.help': 'Help!',
+    'phrasebook.phrase.doctor': 'Please call a doctor',
+
+    'tours.intro': "Tell me how long you have and what you love, and I'll plan a walk through {town} just for you.",
+    'tours.duration': 'How long?',
+    'tours.duration.oneHour': '1 hour',
+    'tours.duration.twoHours': '2 hours',
+    'tours.duration.halfDay': 'Half a day',
+    'tours.interests': 'What interests you?',
+    'tours.mobility': 'Getting around',
+    'tours.mobility.stepFree': 'Step-free',
+    'tours.mobility.easy': 'Easy walking',
+    'tours.mobility.active': 'Happy to climb',
+    'tours.interest.baroque': 'Baroque',
+    'tours.interest.montalbano': 'Montalbano',
+    'tours.interest.chocolate': 'Chocolate',
+    'tours.interest.infiorata': 'Infiorata',
+    'tours.interest.food': 'Food',
+    'tours.interest.churches': 'Churches',
+    'tours.plan': 'Plan My Tour',
+    'tours.ready': 'Your tour "{title}" is ready.',
+    'tours.error': "Sorry, I couldn't plan a tour right now.",
+    'tours.summary': '{stops} stops · about {minutes} minutes · {visited} visited',
+    'tours.new': 'Plan a new tour',
+    'tours.visited': 'Visited',
+    'tours.visitedStop': 'Visited {name}',
+    'tours.walk': '{minutes} min walk from the previous stop',
+    'tours.stay': 'about {minutes} min here',
+    'tours.previous': 'Previous',
+    'tours.next': 'Visited, next stop',
+    'tours.finish': 'Finish',
+
+    'map.youAreHere': 'You are here',
+    'map.detailsReady': 'More about {name} is ready.',
+    'map.detailsError': "Sorry, I couldn't fetch more about this place right now.",
+    'map.close': 'Close',
+    'map.tellMeMore': 'Tell me more',
+    'map.nearMe': "What's near me",
+    'map.fromCentre': 'Sights from the town centre',
+    'map.category.church': 'Baroque church',
+    'map.category.palazzo': 'Palazzo',
+    'map.category.montalbano': 'Montalbano location',
+    'map.category.viewpoint': 'Viewpoint',
+
+    'followUp.title': 'Ask Mimi more about it',
+    'followUp.placeholder': 'When was it built? Who lived here?',
+    'followUp.label': 'Your question about this place',
+    'followUp.ask': 'Ask',
+
+    'artwork.title': "Mimi's Artistic Impression",
+    'artwork.style': 'Art style',
+    'artwork.style.watercolor': 'Watercolor',
+    'artwork.style.inkSketch': 'Ink sketch',
+    'artwork.style.vintagePostcard': 'Vintage postcard',
+    'artwork.style.baroqueOil': 'Baroque oil painting',
+    'artwork.style.tvStill': '1990s Montalbano TV still',
+    'artwork.regenerate': 'Regenerate',
+    'artwork.regenerateTitle': 'Paint it again',
+    'artwork.alt': '{name} as {style}',
+    'artwork.refinePlaceholder': 'Refine it, e.g. "add a sunset"',
+    'artwork.refineLabel': 'How should Mimi change the picture?',
+    'artwork.refine': 'Refine the picture',
+    'artwork.refineError': "Sorry, I couldn't create the picture right now.",
+    'artwork.caption': 'Greetings from {town} · {name}',
+    'artwork.captionLabel': 'Postcard caption',
+    'artwork.postcard': 'Postcard',
+    'artwork.postcardError': "Sorry, I couldn't make the postcard.",
+
+    'saved.intro': "All the places you've starred in the Magic Lens, saved on this device.",
+    'saved.searchPlaceholder': 'Search your saved places...',
+    'saved.search': 'Search your saved places',
+    'saved.empty': 'No saved places yet. Tap the star on a Magic Lens result to keep it here.',
+    'saved.noMatch': 'No saved places match "{query}".',
+    'saved.open': 'Open',
+    'saved.delete': 'Delete',
+    'saved.loadError': "Sorry, I couldn't load your saved places.",
+    'saved.deleteError': "Sorry, I couldn't delete that place.",
+
+    'journal.intro': 'Everything Mimi told you on this trip: the places you photographed, her watercolors, and the answers and translations you kept. Take it home as a web page, a PDF or a Markdown file.',
+    'journal.format': 'Export format',
+    'journal.format.html': 'Web page (HTML)',
+    'journal.format.markdown': 'Markdown',
+    'journal.download': 'Download',
+    'journal.share': 'Share',
+    'journal.print': 'Print / PDF',
+    'journal.empty': 'Your journal is empty. Magic Lens results are added automatically, and you can add Local Guide answers and translations with the {icon} button.',
+    'journal.remove': 'Remove from journal',
+    'journal.photoAlt': 'Your photo',
+    'journal.artworkAlt': "Mimi's watercolor",
+    'journal.kind.translation': 'Translation',
+    'journal.exportTitle': 'My {town} trip journal',
+    'journal.loadError': "Sorry, I couldn't load your journal.",
+    'journal.deleteError': "Sorry, I couldn't delete that entry.",
+    'journal.shareError': "Sorry, sharing didn't work. Try downloading the journal instead.",
+    'journal.printError': 'Please allow pop-ups for this site to print or save your journal as a PDF.',
+
+    'audio.player': 'Audio player',
+    'audio.play': 'Play',
+    'audio.pause': 'Pause',
+    'audio.stop': 'Stop',
+    'audio.preparing': 'Preparing audio...',
+    'audio.queued': '(+{count} queued)',
+    'audio.seek': 'Seek',
+    'audio.speed': 'Playback speed',
+
+    'live.connecting': 'Connecting to Mimi...',
+    'live.listening': 'Listening, just start talking.',
+    'live.speaking': 'Mimi is speaking. Talk over her any time to interrupt.',
+    'live.closed': 'Conversation ended.',
+    'live.micDenied': 'Mimi needs microphone access to talk with you.',
+    'live.dropped': 'Sorry, the voice connection dropped.',
+    'live.interrupted': 'Interrupted',
+    'live.end': 'End voice chat',
+
+    'camera.denied': 'Mimi needs camera access to use the viewfinder.',
+    'camera.error': "Sorry, I couldn't open the camera. You can still choose photos instead.",
+    'camera.capture': 'Capture',
+    'camera.auto': 'Automatic capture',
+    'camera.autoEvery': 'Auto every {seconds}s',
+    'camera.autoOff': 'Auto off',
+
+    'place.directions': 'Directions',
+
+    'help.welcome.title': "Ciao! I'm Mimi!",
+    'help.welcome.body': "I'm your personal guide to the beautiful town of {town}. Let me show you how I can help make your visit unforgettable!",
+    'help.lens.body': "See a beautiful building but don't know what it is? Use the **Magic Lens**! Upload a few photos or point your camera at it, and I'll tell you all about its history and secrets. Then ask me anything else you'd like to know about it.",
+    'help.lens.button': 'Try Magic Lens',
+    'help.guide.body': "Have a question? Ask me anything! In the **Local Guide** tab, you can chat with me about the best places to eat, the stories behind what you see, or local traditions.",
+    'help.guide.button': 'Ask a Question',
+    'help.translator.body': "Need help with the language? The **Translator** is here for you. I can translate between English, Italian, German, French, Spanish, Dutch and even Sicilian dialect, and I can work out which language you're reading for you. You can even use your voice to speak and hear the translation!",
+    'help.translator.button': 'Translate Now',
+    'help.tours.body': "Not sure where to start? Tell me how much time you have and what you love, and in **Tours** I'll plan a walk for you, stop by stop, with a story at every corner.",
+    'help.tours.button': 'Plan a Tour',
+    'help.food.body': "Hungry? In **Food**, tell me about any dietary needs and I'll suggest places nearby and local specialities, explain any dish on the menu, flag its allergens and teach you how to order it in Italian.",
+    'help.food.button': 'Find Food',
+    'help.montalbano.body': 'A fan of **Inspector Montalbano**? Follow the **Montalbano** trail past the filming locations, find out what each place plays in the series, and take a photo to compare it with the scene, then and now.',
+    'help.montalbano.button': 'Follow the Trail',
+    'help.map.body': "Wondering what's around the corner? The **Map** shows where you are and pins {town}'s Baroque churches, palazzi and other sights. Tap a pin to hear its story, or check what's nearest to you.",
+    'help.map.button': 'Open the Map',
+    'help.saved.body': "Found a place you love? Tap the star on any **Magic Lens** result and I'll keep it in **My {town}**, right on your phone, so you can find it again later.",
+    'help.saved.button': 'See My Places',
+    'help.journal.body': 'Want to remember it all? Every place you show the **Magic Lens** goes into your **Journal**, along with any answers and translations you add with the book button. Download it, share it or print it as a PDF when you get home.',
+    'help.journal.button': 'Open my Journal',
+    'help.glimpse.title': 'A Glimpse of {town}',
+    'help.glimpse.body': "Curious about the town itself? Click the button below for a quick introduction to {town}'s history and significance.",
+    'help.glimpse.button': 'Tell Me About {town}',
+    'help.glimpse.loading': 'Loading...',
+    'help.glimpse.cached': "Saved from an earlier visit while you're offline.",
+    'help.glimpse.error': "Sorry, I couldn't fetch information about {town} right now.",
+    'help.glimpse.hint': 'Please try again later.',
+    'help.farewell': 'I hope this helps! Feel free to explore all my features and have a wonderful time in {town}!',
+
+    'errors.network': "Mimi can't reach the internet right now. Check your connection and try again.",
+    'errors.quotaSeconds': 'Mimi is getting a lot of questions right now. Please try again in {seconds} seconds.',
+    'errors.quota': 'Mimi is getting a lot of questions right now. Please wait a minute and try again.',
+    'errors.safety': "Mimi can't help with that one. Try rephrasing it or using a different photo.",
+    'errors.invalid': 'That was too much for Mimi to take in. Try a shorter message or fewer photos.',
+    'errors.timeout': 'Mimi took too long to answer. Please try again.',
+    'errors.retry': 'Please try again.',
+};
+
+export type Messages = Record<keyof typeof en, string>;
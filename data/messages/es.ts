@@ -0,0 +1,404 @@
+import type { Messages } from './en';
+
+export const es: Messages = {
+    'app.title': 'La guía de Mimi',
+    'app.tagline': 'Tu compañera de IA en el corazón del Barroco siciliano',
+    'app.language': 'Idioma',
+    'app.destination': 'Destino',
+
+    'tabs.lens': 'Lente mágica',
+    'tabs.guide': 'Guía local',
+    'tabs.translator': 'Traductor',
+    'tabs.tours': 'Rutas',
+    'tabs.food': 'Comida',
+    'tabs.montalbano': 'Montalbano',
+    'tabs.map': 'Mapa',
+    'tabs.saved': 'Mi {town}',
+    'tabs.journal': 'Diario',
+    'tabs.help': 'Ayuda',
+
+    'settings.nearbyAlerts': 'Avisos de monumentos cercanos',
+    'settings.spokenIntros': 'Presentaciones habladas cerca de los monumentos',
+    'settings.highAccuracy': 'GPS de alta precisión (gasta más batería)',
+    'settings.on': '{label}: activado',
+    'settings.off': '{label}: desactivado',
+    'settings.tracking': 'Ajustes de ubicación',
+    'settings.display': 'Ajustes de pantalla y sonido',
+    'settings.highContrast': 'Alto contraste',
+    'settings.largeText': 'Texto grande',
+    'settings.autoNarrate': 'Leer en voz alta los resultados de la Lente mágica',
+
+    'nearby.message': 'Estás cerca de **{name}**. Toca para escuchar su historia.',
+    'nearby.dismiss': 'Cerrar',
+    'nearby.spokenIntro': 'Estás cerca de {name}.',
+
+    'a11y.skipToContent': 'Saltar al contenido',
+    'a11y.sections': 'Secciones',
+    'a11y.loading': 'Cargando...',
+    'a11y.analysisReady': 'El análisis de Mimi sobre {name} está listo.',
+    'a11y.glimpseReady': 'La presentación de {town} está lista.',
+
+    'location.available': 'Ubicación disponible: {latitude}, {longitude} (±{accuracy} m)',
+    'location.fetching': 'Buscando la ubicación...',
+    'location.denied': 'Se denegó el acceso a la ubicación.',
+    'location.unavailable': 'La información de ubicación no está disponible.',
+    'location.timeout': 'La solicitud de ubicación tardó demasiado.',
+    'location.unsupported': 'Este navegador no admite la geolocalización.',
+    'location.unknown': 'Se produjo un error desconocido.',
+
+    'offline.banner': 'Estás sin conexión. Mimi aún puede mostrarte tus lugares guardados, los análisis recientes y el libro de frases.',
+
+    'lens.intro': '¡Enséñale a Mimi un monumento de {town} y te lo contará todo! Añade hasta {count} fotos del mismo lugar, como la fachada, un detalle y el interior.',
+    'lens.choosePhotos': 'Elegir fotos',
+    'lens.addPhotos': 'Añadir fotos',
+    'lens.useCamera': 'Usar la cámara',
+    'lens.closeCamera': 'Cerrar la cámara',
+    'lens.analyze': 'Analizar',
+    'lens.analyzing': 'Mimi está mirando tus fotos...',
+    'lens.offline': 'Estás sin conexión, así que ahora no puedo ver fotos nuevas. Esto es lo que te conté hace poco:',
+    'lens.noRecent': 'Todavía no hay análisis recientes en este dispositivo.',
+    'lens.photo': 'Foto {number}',
+    'lens.removePhoto': 'Quitar la foto {number}',
+    'lens.preview': 'Vista previa',
+    'lens.save': 'Guardar en Mi {town}',
+    'lens.unsave': 'Quitar de Mi {town}',
+    'lens.thisLandmark': 'este monumento',
+    'lens.noPhotos': 'Primero añade una foto.',
+    'lens.readError': 'Lo siento, no pude leer esa foto. Prueba con otra.',
+    'lens.analyzeError': 'Lo siento, no pude analizar las fotos.',
+    'lens.analyzeHint': 'Prueba otro ángulo o una foto más nítida.',
+    'lens.saveError': 'Lo siento, no se pudieron actualizar tus lugares guardados.',
+    'lens.artworkEmpty': 'Mimi no pudo pintar este. Inténtalo de nuevo o elige otro estilo.',
+    'lens.artworkError': 'Lo siento, no pude pintar este lugar.',
+    'lens.artworkHint': 'Inténtalo de nuevo o elige otro estilo.',
+
+    'analysis.title': 'El análisis de Mimi',
+    'analysis.readAloud': 'Leer en voz alta',
+    'analysis.voice': 'Voz:',
+    'analysis.sources': 'Fuentes:',
+    'analysis.audioError': 'Lo siento, ahora mismo no se puede generar el audio.',
+    'analysis.confidence.high': 'Coincidencia segura',
+    'analysis.confidence.medium': 'Coincidencia probable',
+    'analysis.confidence.low': 'No estoy segura',
+    'analysis.confirmQuestion': 'No estoy segura de que sea {name}. ¿Lo es, o es uno de estos?',
+    'analysis.confirmYes': 'Sí, es {name}',
+    'analysis.section.constructionPeriod': 'Construcción',
+    'analysis.section.architect': 'Arquitecto',
+    'analysis.section.architecturalStyle': 'Estilo',
+    'analysis.section.history': 'Historia',
+    'analysis.section.montalbanoConnection': 'El comisario Montalbano',
+    'analysis.section.visitingHours': 'Horario de visita',
+    'analysis.section.notes': 'Las notas de Mimi',
+    'analysis.thisIs': 'Esto es {name}.',
+    'analysis.thisIsBuilt': 'Esto es {name}, {built}.',
+    'analysis.builtIn': 'construido en {period}',
+    'analysis.builtBy': 'por {architect}',
+    'analysis.builtStyle': 'de estilo {style}',
+
+    'guide.placeholder': 'Pregúntale a Mimi lo que quieras sobre {town}...',
+    'guide.newConversation': 'Nueva conversación',
+    'guide.untitled': 'Sin título',
+    'guide.deleteConversation': 'Eliminar conversación',
+    'guide.talk': 'Hablar con Mimi',
+    'guide.stopReply': 'Detener la respuesta',
+    'guide.conversations': 'Conversaciones guardadas',
+    'guide.chatLog': 'Conversación con Mimi',
+    'guide.thinking': 'Mimi está pensando...',
+    'guide.speak': 'Haz tu pregunta en voz alta',
+    'guide.stopListening': 'Dejar de escuchar',
+    'guide.send': 'Enviar',
+    'guide.stopped': 'Detenida',
+    'guide.interrupted': 'Se perdió la conexión, esta respuesta puede estar incompleta.',
+    'guide.answerError': 'Lo siento, no pude responder a eso.',
+    'guide.tellMeMore': 'Cuéntame más sobre {name}.',
+    'guide.inJournal': 'En tu diario',
+    'guide.addToJournal': 'Añadir al diario',
+    'guide.offline': 'Estás sin conexión, así que Mimi no puede responder preguntas nuevas. Tus conversaciones anteriores siguen aquí y el libro de frases del Traductor funciona sin conexión.',
+
+    'food.intro': 'Dime qué no puedes comer y te encontraré buena comida cerca y te explicaré los platos de {town}.',
+    'food.dietaryNeeds': 'Necesidades alimentarias',
+    'food.need.vegetarian': 'Vegetariano',
+    'food.need.glutenFree': 'Sin gluten',
+    'food.need.nutAllergy': 'Alergia a los frutos secos',
+    'food.need.halal': 'Halal',
+    'food.offline': 'Estás sin conexión, así que Mimi no puede buscar comida ahora. El libro de frases del Traductor sigue teniendo frases para comer.',
+    'food.findNearby': 'Buscar comida cerca de mí',
+    'food.suggesting': 'Mimi está buscando buena comida cerca...',
+    'food.suggestionsReady': 'Las sugerencias de comida están listas.',
+    'food.suggestError': 'Lo siento, ahora mismo no he podido encontrar sugerencias de comida.',
+    'food.dishTitle': '¿Qué es este plato?',
+    'food.specialities': 'Especialidades de {town}',
+    'food.dishPlaceholder': 'Escribe un plato del menú...',
+    'food.dishLabel': 'Plato que explicar',
+    'food.explain': 'Explicar',
+    'food.explaining': 'Mimi se está informando sobre ese plato...',
+    'food.dishReady': 'La explicación de Mimi sobre {name} está lista.',
+    'food.explainError': 'Lo siento, no he podido explicar ese plato.',
+    'food.allergens': 'Suele contener: {allergens}. Confírmalo siempre con el personal.',
+    'food.noAllergens': 'La receta habitual no tiene alérgenos comunes, pero confírmalo siempre con el personal.',
+    'food.unsuitable': 'Normalmente no es apto para ti: {needs}.',
+    'food.suitable': 'La receta habitual se ajusta a tus necesidades alimentarias.',
+    'food.howToOrder': '¿Cómo lo pido?',
+
+    'trail.intro': 'Sigue al comisario Montalbano por {town}: los lugares de rodaje en orden de paseo, qué representa cada uno en la serie y cómo se ve hoy junto a cómo se veía en pantalla.',
+    'trail.none': 'Todavía no hay una ruta de Montalbano para {town}.',
+    'trail.stops': 'Lugares de rodaje en orden de paseo',
+    'trail.inStory': 'En la serie: {name}.',
+    'trail.episodes': 'Aparece: {episodes}',
+    'trail.fromYou': 'a {distance} de ti',
+    'trail.thenNow': 'Antes y ahora',
+    'trail.offline': 'Estás sin conexión. Puedes seguir la ruta igualmente, pero para comparar fotos necesitas conexión.',
+    'trail.takePhoto': 'Haz una foto desde aquí',
+    'trail.then': 'Antes',
+    'trail.now': 'Ahora',
+    'trail.recreationAlt': '{name}, recreado como una escena de la serie',
+    'trail.yourPhoto': 'Tu foto de {name}',
+    'trail.compare': 'Comparar con la serie',
+    'trail.recreate': 'Recrear la escena',
+    'trail.comparing': 'Mimi está comparando el antes y el ahora...',
+    'trail.recreating': 'Mimi está recreando la escena...',
+    'trail.compareReady': 'La comparación está lista.',
+    'trail.recreateReady': 'La escena recreada está lista.',
+    'trail.compareError': 'Lo siento, no he podido comparar tu foto.',
+    'trail.recreateError': 'Lo siento, no he podido recrear la escena.',
+    'trail.recreateEmpty': 'Mimi no ha podido recrear esta escena. Prueba con otra foto.',
+    'trail.previous': 'Anterior',
+    'trail.next': 'Siguiente lugar',
+
+    'translator.sourceLanguage': 'Idioma de origen',
+    'translator.targetLanguage': 'Idioma de destino',
+    'translator.autoDetect': 'Detectar automáticamente',
+    'translator.detected': 'Detectado: {language}',
+    'translator.detectedLanguage': 'Idioma detectado',
+    'translator.placeholderAny': 'Escribe un texto en cualquier idioma...',
+    'translator.placeholder': 'Escribe un texto en {language}...',
+    'translator.sourceText': 'Texto para traducir',
+    'translator.photo': 'Traducir la foto de una carta o un cartel',
+    'translator.speak': 'Di el texto que quieres traducir',
+    'translator.contextPlaceholder': 'Añade contexto (p. ej., carta)',
+    'translator.context': 'Contexto',
+    'translator.autoTranslate': 'Traducir mientras escribo',
+    'translator.phrasebook': 'Guía de frases',
+    'translator.conversationMode': 'Modo conversación',
+    'translator.swap': 'Intercambiar idiomas',
+    'translator.translate': 'Traducir',
+    'translator.translating': 'Traduciendo...',
+    'translator.translationPlaceholder': 'Traducción al {language}...',
+    'translator.translationLabel': 'Traducción al {language}',
+    'translator.readAloud': 'Leer la traducción en voz alta',
+    'translator.audioLabel': 'Traducción al {language}',
+    'translator.translateError': 'Lo siento, no pude traducir el texto.',
+    'translator.speakError': 'Lo siento, no pude leer la traducción en voz alta.',
+    'translator.back': 'Volver al Traductor',
+    'translator.offline': 'Estás sin conexión, así que la traducción en directo no está disponible. Estas frases funcionan sin conexión.',
+
+    'photo.title': 'Traducción de la foto',
+    'photo.titleFrom': 'Traducción de la foto desde: {language}',
+    'photo.sideBySide': 'Mostrar en paralelo',
+    'photo.overlay': 'Mostrar etiquetas sobre la foto',
+    'photo.close': 'Cerrar la foto',
+    'photo.alt': 'Foto para traducir',
+    'photo.original': 'Original',
+    'photo.error': 'Lo siento, no pude leer el texto de esta foto.',
+    'photo.hint': 'Prueba con una foto más nítida y de más cerca.',
+
+    'conversation.idle': 'Toca el micrófono del lado de quien hable primero.',
+    'conversation.listening': 'Escuchando: {language}...',
+    'conversation.speaking': 'Hablando: {language}...',
+    'conversation.speak': 'Hablar: {language}',
+    'conversation.pause': 'Pausar la conversación',
+    'conversation.exit': 'Salir del modo conversación',
+    'conversation.hearError': 'Lo siento, no te he oído.',
+    'conversation.translateError': 'Lo siento, no pude traducir eso.',
+    'conversation.retry': 'Toca un micrófono para intentarlo de nuevo.',
+    'conversation.unsupported': 'Este navegador no admite el reconocimiento de voz.',
+
+    'phrasebook.ready': '{count} de {total} frases listas sin conexión',
+    'phrasebook.download': 'Descargar el audio',
+    'phrasebook.downloading': 'Descargando {count}/{total}',
+    'phrasebook.downloadError': 'Lo siento, la descarga se ha interrumpido.',
+    'phrasebook.downloadHint': 'Vuelve a tocar descargar para continuar.',
+    'phrasebook.play': 'Escuchar «{text}»',
+    'phrasebook.category.greetings': 'Saludos',
+    'phrasebook.category.foodDrink': 'Comida y bebida',
+    'phrasebook.category.gettingAround': 'Moverse',
+    'phrasebook.category.help': 'Ayuda',
+    'phrasebook.phrase.goodMorning': 'Buenos días',
+    'phrasebook.phrase.goodEvening': 'Buenas tardes',
+    'phrasebook.phrase.please': 'Por favor',
+    'phrasebook.phrase.thankYou': 'Gracias',
+    'phrasebook.phrase.excuseMe': 'Disculpe',
+    'phrasebook.phrase.goodbye': 'Adiós',
+    'phrasebook.phrase.coffee': 'Un café, por favor',
+    'phrasebook.phrase.water': 'Agua, por favor',
+    'phrasebook.phrase.bill': 'La cuenta, por favor',
+    'phrasebook.phrase.vegetarian': 'Soy vegetariano',
+    'phrasebook.phrase.nutAllergy': 'Soy alérgico a los frutos secos',
+    'phrasebook.phrase.delicious': '¡Delicioso!',
+    'phrasebook.phrase.bathroom': '¿Dónde está el baño?',
+    'phrasebook.phrase.townCentre': '¿Cómo llego al centro?',
+    'phrasebook.phrase.whereIsChurch': '¿Dónde está {church}?',
+    'phrasebook.phrase.isItFar': '¿Está lejos?',
+    'phrasebook.phrase.howMuch': '¿Cuánto cuesta?',
+    'phrasebook.phrase.dontUnderstand': 'No entiendo',
+    'phrasebook.phrase.speakEnglish': '¿Habla inglés?',
+    'phrasebook.phrase.help': '¡Socorro!',
+    'phrasebook.phrase.doctor': 'Llame a un médico, por favor',
+
+    'tours.intro': 'Dime cuánto tiempo tienes y qué te gusta, y planearé un paseo por {town} solo para ti.',
+    'tours.duration': '¿Cuánto tiempo?',
+    'tours.duration.oneHour': '1 hora',
+    'tours.duration.twoHours': '2 horas',
+    'tours.duration.halfDay': 'Medio día',
+    'tours.interests': '¿Qué te interesa?',
+    'tours.mobility': 'Cómo te mueves',
+    'tours.mobility.stepFree': 'Sin escalones',
+    'tours.mobility.easy': 'Paseo fácil',
+    'tours.mobility.active': 'No me importa subir',
+    'tours.interest.baroque': 'Barroco',
+    'tours.interest.montalbano': 'Montalbano',
+    'tours.interest.chocolate': 'Chocolate',
+    'tours.interest.infiorata': 'Infiorata',
+    'tours.interest.food': 'Comida',
+    'tours.interest.churches': 'Iglesias',
+    'tours.plan': 'Planear mi ruta',
+    'tours.ready': 'Tu ruta «{title}» está lista.',
+    'tours.error': 'Lo siento, ahora mismo no puedo planear una ruta.',
+    'tours.summary': '{stops} paradas · unos {minutes} minutos · {visited} visitadas',
+    'tours.new': 'Planear una ruta nueva',
+    'tours.visited': 'Visitada',
+    'tours.visitedStop': '{name} visitada',
+    'tours.walk': '{minutes} min a pie desde la parada anterior',
+    'tours.stay': 'unos {minutes} min aquí',
+    'tours.previous': 'Anterior',
+    'tours.next': 'Visitada, siguiente parada',
+    'tours.finish': 'Terminar',
+
+    'map.youAreHere': 'Estás aquí',
+    'map.detailsReady': 'Ya tienes más sobre {name}.',
+    'map.detailsError': 'Lo siento, ahora mismo no puedo conseguir más sobre este lugar.',
+    'map.close': 'Cerrar',
+    'map.tellMeMore': 'Cuéntame más',
+    'map.nearMe': 'Qué hay cerca de mí',
+    'map.fromCentre': 'Lugares desde el centro',
+    'map.category.church': 'Iglesia barroca',
+    'map.category.palazzo': 'Palacio',
+    'map.category.montalbano': 'Lugar de Montalbano',
+    'map.category.viewpoint': 'Mirador',
+
+    'followUp.title': 'Pregúntale más a Mimi',
+    'followUp.placeholder': '¿Cuándo se construyó? ¿Quién vivió aquí?',
+    'followUp.label': 'Tu pregunta sobre este lugar',
+    'followUp.ask': 'Preguntar',
+
+    'artwork.title': 'La impresión artística de Mimi',
+    'artwork.style': 'Estilo artístico',
+    'artwork.style.watercolor': 'Acuarela',
+    'artwork.style.inkSketch': 'Boceto a tinta',
+    'artwork.style.vintagePostcard': 'Postal antigua',
+    'artwork.style.baroqueOil': 'Óleo barroco',
+    'artwork.style.tvStill': 'Fotograma de Montalbano de los 90',
+    'artwork.regenerate': 'Regenerar',
+    'artwork.regenerateTitle': 'Pintarlo otra vez',
+    'artwork.alt': '{name} como {style}',
+    'artwork.refinePlaceholder': 'Retócalo, p. ej., «añade una puesta de sol»',
+    'artwork.refineLabel': '¿Cómo debe cambiar Mimi el cuadro?',
+    'artwork.refine': 'Retocar el cuadro',
+    'artwork.refineError': 'Lo siento, ahora mismo no puedo crear el cuadro.',
+    'artwork.caption': 'Saludos desde {town} · {name}',
+    'artwork.captionLabel': 'Texto de la postal',
+    'artwork.postcard': 'Postal',
+    'artwork.postcardError': 'Lo siento, no pude crear la postal.',
+
+    'saved.intro': 'Todos los lugares que marcaste con una estrella en la Lente mágica, guardados en este dispositivo.',
+    'saved.searchPlaceholder': 'Busca en tus lugares guardados...',
+    'saved.search': 'Buscar en tus lugares guardados',
+    'saved.empty': 'Aún no hay lugares guardados. Toca la estrella en un resultado de la Lente mágica para guardarlo aquí.',
+    'saved.noMatch': 'Ningún lugar guardado coincide con «{query}».',
+    'saved.open': 'Abrir',
+    'saved.delete': 'Eliminar',
+    'saved.loadError': 'Lo siento, no pude cargar tus lugares guardados.',
+    'saved.deleteError': 'Lo siento, no pude eliminar ese lugar.',
+
+    'journal.intro': 'Todo lo que Mimi te contó en este viaje: los lugares que fotografiaste, sus acuarelas y las respuestas y traducciones que guardaste. Llévatelo a casa como página web, PDF o archivo Markdown.',
+    'journal.format': 'Formato de exportación',
+    'journal.format.html': 'Página web (HTML)',
+    'journal.format.markdown': 'Markdown',
+    'journal.download': 'Descargar',
+    'journal.share': 'Compartir',
+    'journal.print': 'Imprimir / PDF',
+    'journal.empty': 'Tu diario está vacío. Los resultados de la Lente mágica se añaden automáticamente, y puedes añadir respuestas de la Guía local y traducciones con el botón {icon}.',
+    'journal.remove': 'Quitar del diario',
+    'journal.photoAlt': 'Tu foto',
+    'journal.artworkAlt': 'La acuarela de Mimi',
+    'journal.kind.translation': 'Traducción',
+    'journal.exportTitle': 'Mi diario de viaje en {town}',
+    'journal.loadError': 'Lo siento, no pude cargar tu diario.',
+    'journal.deleteError': 'Lo siento, no pude eliminar esa entrada.',
+    'journal.shareError': 'Lo siento, no se pudo compartir. Prueba a descargar el diario.',
+    'journal.printError': 'Permite las ventanas emergentes en este sitio para imprimir el diario o guardarlo en PDF.',
+
+    'audio.player': 'Reproductor de audio',
+    'audio.play': 'Reproducir',
+    'audio.pause': 'Pausa',
+    'audio.stop': 'Detener',
+    'audio.preparing': 'Preparando el audio...',
+    'audio.queued': '(+{count} en cola)',
+    'audio.seek': 'Posición',
+    'audio.speed': 'Velocidad de reproducción',
+
+    'live.connecting': 'Conectando con Mimi...',
+    'live.listening': 'Te escucho, empieza a hablar.',
+    'live.speaking': 'Mimi está hablando. Háblale encima cuando quieras para interrumpirla.',
+    'live.closed': 'Conversación terminada.',
+    'live.micDenied': 'Mimi necesita acceso al micrófono para hablar contigo.',
+    'live.dropped': 'Lo siento, se ha cortado la conexión de voz.',
+    'live.interrupted': 'Interrumpida',
+    'live.end': 'Terminar el chat de voz',
+
+    'camera.denied': 'Mimi necesita acceso a la cámara para usar el visor.',
+    'camera.error': 'Lo siento, no pude abrir la cámara. Aun así puedes elegir fotos.',
+    'camera.capture': 'Capturar',
+    'camera.auto': 'Captura automática',
+    'camera.autoEvery': 'Automático cada {seconds} s',
+    'camera.autoOff': 'Automático desactivado',
+
+    'place.directions': 'Cómo llegar',
+
+    'help.welcome.title': '¡Ciao! ¡Soy Mimi!',
+    'help.welcome.body': 'Soy tu guía personal por la preciosa ciudad de {town}. ¡Déjame enseñarte cómo hacer tu visita inolvidable!',
+    'help.lens.body': '¿Ves un edificio precioso pero no sabes qué es? ¡Usa la **Lente mágica**! Sube unas fotos o apunta tu cámara hacia él y te contaré su historia y sus secretos. Después pregúntame todo lo que quieras saber.',
+    'help.lens.button': 'Probar la Lente mágica',
+    'help.guide.body': '¿Tienes una pregunta? ¡Pregúntame lo que quieras! En la pestaña **Guía local** puedes charlar conmigo sobre los mejores sitios para comer, las historias detrás de lo que ves o las tradiciones locales.',
+    'help.guide.button': 'Hacer una pregunta',
+    'help.translator.body': '¿Necesitas ayuda con el idioma? El **Traductor** está aquí para ti. Traduzco entre inglés, italiano, alemán, francés, español, neerlandés e incluso dialecto siciliano, y sé reconocer el idioma que estás leyendo. ¡Hasta puedes hablar y escuchar la traducción!',
+    'help.translator.button': 'Traducir ahora',
+    'help.tours.body': '¿No sabes por dónde empezar? Dime cuánto tiempo tienes y qué te gusta, y en **Rutas** te prepararé un paseo, parada a parada, con una historia en cada esquina.',
+    'help.tours.button': 'Planear una ruta',
+    'help.food.body': '¿Tienes hambre? En **Comida**, cuéntame tus necesidades alimentarias y te sugeriré sitios cercanos y especialidades locales, te explicaré cualquier plato del menú, te avisaré de sus alérgenos y te enseñaré a pedirlo en italiano.',
+    'help.food.button': 'Buscar comida',
+    'help.montalbano.body': '¿Eres fan del **comisario Montalbano**? Sigue la ruta **Montalbano** por los lugares de rodaje, descubre qué representa cada sitio en la serie y haz una foto para compararla con la escena, antes y ahora.',
+    'help.montalbano.button': 'Seguir la ruta',
+    'help.map.body': '¿Te preguntas qué hay a la vuelta de la esquina? El **Mapa** muestra dónde estás y marca las iglesias barrocas, los palacios y otros lugares de interés de {town}. Toca un marcador para escuchar su historia o mira qué tienes más cerca.',
+    'help.map.button': 'Abrir el mapa',
+    'help.saved.body': '¿Has encontrado un lugar que te encanta? Toca la estrella en cualquier resultado de la **Lente mágica** y lo guardaré en **Mi {town}**, en tu propio teléfono, para que lo encuentres más tarde.',
+    'help.saved.button': 'Ver mis lugares',
+    'help.journal.body': '¿Quieres recordarlo todo? Cada lugar que enseñas a la **Lente mágica** va a tu **Diario**, junto con las respuestas y traducciones que añades con el botón del libro. Descárgalo, compártelo o imprímelo en PDF cuando vuelvas a casa.',
+    'help.journal.button': 'Abrir mi diario',
+    'help.glimpse.title': 'Un vistazo a {town}',
+    'help.glimpse.body': '¿Tienes curiosidad por la ciudad? Toca el botón de abajo para una breve introducción a la historia y la importancia de {town}.',
+    'help.glimpse.button': 'Háblame de {town}',
+    'help.glimpse.loading': 'Cargando...',
+    'help.glimpse.cached': 'Guardado de una visita anterior mientras estás sin conexión.',
+    'help.glimpse.error': 'Lo siento, ahora mismo no puedo obtener información sobre {town}.',
+    'help.glimpse.hint': 'Inténtalo de nuevo más tarde.',
+    'help.farewell': '¡Espero que te sirva! Explora todas mis funciones y disfruta muchísimo de {town}.',
+
+    'errors.network': 'Mimi no puede conectarse a internet ahora mismo. Revisa tu conexión e inténtalo de nuevo.',
+    'errors.quotaSeconds': 'Mimi está recibiendo muchas preguntas ahora mismo. Inténtalo de nuevo en {seconds} segundos.',
+    'errors.quota': 'Mimi está recibiendo muchas preguntas ahora mismo. Espera un minuto e inténtalo de nuevo.',
+    'errors.safety': 'Mimi no puede ayudar con eso. Prueba a reformularlo o usa otra foto.',
+    'errors.invalid': 'Era demasiado para Mimi de una vez. Prueba con un mensaje más corto o menos fotos.',
+    'errors.timeout': 'Mimi tardó demasiado en responder. Inténtalo de nuevo.',
+    'errors.retry': 'Inténtalo de nuevo.',
+};
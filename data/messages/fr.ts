@@ -0,0 +1,404 @@
+import type { Messages } from './en';
+
+export const fr: Messages = {
+    'app.title': 'Le guide de Mimi',
+    'app.tagline': 'Ta compagne IA au cœur du baroque sicilien',
+    'app.language': 'Langue',
+    'app.destination': 'Destination',
+
+    'tabs.lens': 'Loupe magique',
+    'tabs.guide': 'Guide local',
+    'tabs.translator': 'Traducteur',
+    'tabs.tours': 'Balades',
+    'tabs.food': 'Cuisine',
+    'tabs.montalbano': 'Montalbano',
+    'tabs.map': 'Carte',
+    'tabs.saved': 'Mon {town}',
+    'tabs.journal': 'Carnet',
+    'tabs.help': 'Aide',
+
+    'settings.nearbyAlerts': 'Alertes de monuments à proximité',
+    'settings.spokenIntros': 'Présentations parlées près des monuments',
+    'settings.highAccuracy': 'GPS haute précision (consomme plus de batterie)',
+    'settings.on': '{label} : activé',
+    'settings.off': '{label} : désactivé',
+    'settings.tracking': 'Réglages de position',
+    'settings.display': "Réglages d'affichage et de son",
+    'settings.highContrast': 'Contraste élevé',
+    'settings.largeText': 'Grand texte',
+    'settings.autoNarrate': 'Lire à voix haute les résultats de la Loupe magique',
+
+    'nearby.message': 'Tu es près de **{name}**. Touche pour écouter son histoire.',
+    'nearby.dismiss': 'Fermer',
+    'nearby.spokenIntro': 'Tu es près de {name}.',
+
+    'a11y.skipToContent': 'Aller au contenu',
+    'a11y.sections': 'Rubriques',
+    'a11y.loading': 'Chargement...',
+    'a11y.analysisReady': "L'analyse de {name} par Mimi est prête.",
+    'a11y.glimpseReady': "L'aperçu de {town} est prêt.",
+
+    'location.available': 'Position disponible : {latitude}, {longitude} (±{accuracy} m)',
+    'location.fetching': 'Recherche de la position...',
+    'location.denied': "L'accès à la position a été refusé.",
+    'location.unavailable': 'Les informations de position ne sont pas disponibles.',
+    'location.timeout': 'La demande de position a expiré.',
+    'location.unsupported': 'Ce navigateur ne prend pas en charge la géolocalisation.',
+    'location.unknown': 'Une erreur inconnue est survenue.',
+
+    'offline.banner': 'Tu es hors ligne. Mimi peut quand même te montrer tes lieux enregistrés, tes analyses récentes et le guide de conversation.',
+
+    'lens.intro': 'Montre à Mimi un monument de {town} et elle te racontera tout ! Ajoute jusqu\'à {count} photos du même lieu, comme la façade, un détail et l\'intérieur.',
+    'lens.choosePhotos': 'Choisir des photos',
+    'lens.addPhotos': 'Ajouter des photos',
+    'lens.useCamera': 'Utiliser la caméra',
+    'lens.closeCamera': 'Fermer la caméra',
+    'lens.analyze': 'Analyser',
+    'lens.analyzing': 'Mimi regarde tes photos...',
+    'lens.offline': 'Tu es hors ligne, je ne peux donc pas regarder de nouvelles photos. Voici ce que je t\'ai raconté récemment :',
+    'lens.noRecent': 'Aucune analyse récente sur cet appareil pour le moment.',
+    'lens.photo': 'Photo {number}',
+    'lens.removePhoto': 'Retirer la photo {number}',
+    'lens.preview': 'Aperçu',
+    'lens.save': 'Enregistrer dans Mon {town}',
+    'lens.unsave': 'Retirer de Mon {town}',
+    'lens.thisLandmark': 'ce monument',
+    'lens.noPhotos': "Ajoute d'abord une photo.",
+    'lens.readError': "Désolée, je n'arrive pas à lire cette photo. Essaie-en une autre.",
+    'lens.analyzeError': "Désolée, je n'ai pas pu analyser les photos.",
+    'lens.analyzeHint': 'Essaie un autre angle ou une photo plus nette.',
+    'lens.saveError': "Désolée, impossible de mettre à jour tes lieux enregistrés.",
+    'lens.artworkEmpty': "Mimi n'a pas réussi à peindre celui-ci. Réessaie ou choisis un autre style.",
+    'lens.artworkError': "Désolée, je n'ai pas pu peindre ce lieu.",
+    'lens.artworkHint': 'Réessaie ou choisis un autre style.',
+
+    'analysis.title': "L'analyse de Mimi",
+    'analysis.readAloud': 'Lire à voix haute',
+    'analysis.voice': 'Voix :',
+    'analysis.sources': 'Sources :',
+    'analysis.audioError': "Désolée, impossible de générer l'audio pour le moment.",
+    'analysis.confidence.high': 'Correspondance sûre',
+    'analysis.confidence.medium': 'Correspondance probable',
+    'analysis.confidence.low': 'Pas sûre',
+    'analysis.confirmQuestion': "Je ne suis pas certaine que ce soit {name}. Est-ce bien ça, ou l'un de ceux-ci ?",
+    'analysis.confirmYes': "Oui, c'est {name}",
+    'analysis.section.constructionPeriod': 'Construction',
+    'analysis.section.architect': 'Architecte',
+    'analysis.section.architecturalStyle': 'Style',
+    'analysis.section.history': 'Histoire',
+    'analysis.section.montalbanoConnection': 'Commissaire Montalbano',
+    'analysis.section.visitingHours': 'Horaires de visite',
+    'analysis.section.notes': 'Les notes de Mimi',
+    'analysis.thisIs': "C'est {name}.",
+    'analysis.thisIsBuilt': "C'est {name}, {built}.",
+    'analysis.builtIn': 'construit en {period}',
+    'analysis.builtBy': 'par {architect}',
+    'analysis.builtStyle': 'dans le style {style}',
+
+    'guide.placeholder': 'Demande à Mimi tout ce que tu veux sur {town}...',
+    'guide.newConversation': 'Nouvelle conversation',
+    'guide.untitled': 'Sans titre',
+    'guide.deleteConversation': 'Supprimer la conversation',
+    'guide.talk': 'Parler avec Mimi',
+    'guide.stopReply': 'Arrêter la réponse',
+    'guide.conversations': 'Conversations enregistrées',
+    'guide.chatLog': 'Conversation avec Mimi',
+    'guide.thinking': 'Mimi réfléchit...',
+    'guide.speak': 'Poser ta question à voix haute',
+    'guide.stopListening': "Arrêter l'écoute",
+    'guide.send': 'Envoyer',
+    'guide.stopped': 'Arrêtée',
+    'guide.interrupted': 'Connexion perdue, cette réponse est peut-être incomplète.',
+    'guide.answerError': "Désolée, je n'ai pas pu répondre.",
+    'guide.tellMeMore': 'Parle-moi davantage de {name}.',
+    'guide.inJournal': 'Dans ton carnet',
+    'guide.addToJournal': 'Ajouter au carnet',
+    'guide.offline': 'Tu es hors ligne, Mimi ne peut donc pas répondre à de nouvelles questions. Tes conversations passées sont toujours là, et le guide de conversation du Traducteur fonctionne hors ligne.',
+
+    'food.intro': 'Dis-moi ce que tu ne peux pas manger, et je te trouverai de bonnes adresses à proximité et t’expliquerai les plats de {town}.',
+    'food.dietaryNeeds': 'Besoins alimentaires',
+    'food.need.vegetarian': 'Végétarien',
+    'food.need.glutenFree': 'Sans gluten',
+    'food.need.nutAllergy': 'Allergie aux fruits à coque',
+    'food.need.halal': 'Halal',
+    'food.offline': 'Tu es hors ligne, donc Mimi ne peut pas chercher où manger pour le moment. Le guide de conversation du Traducteur contient toujours des phrases pour le repas.',
+    'food.findNearby': 'Trouver à manger près de moi',
+    'food.suggesting': 'Mimi cherche de bonnes adresses à proximité...',
+    'food.suggestionsReady': 'Les suggestions pour manger sont prêtes.',
+    'food.suggestError': 'Désolée, je n’ai pas pu trouver de suggestions pour le moment.',
+    'food.dishTitle': 'Quel est ce plat ?',
+    'food.specialities': 'Spécialités de {town}',
+    'food.dishPlaceholder': 'Tape un plat du menu...',
+    'food.dishLabel': 'Plat à expliquer',
+    'food.explain': 'Expliquer',
+    'food.explaining': 'Mimi se renseigne sur ce plat...',
+    'food.dishReady': 'L’explication de Mimi sur {name} est prête.',
+    'food.explainError': 'Désolée, je n’ai pas pu expliquer ce plat.',
+    'food.allergens': 'Contient généralement : {allergens}. Vérifie toujours auprès du personnel.',
+    'food.noAllergens': 'Aucun allergène courant dans la recette habituelle, mais vérifie toujours auprès du personnel.',
+    'food.unsuitable': 'Généralement pas adapté pour toi : {needs}.',
+    'food.suitable': 'La recette habituelle convient à tes besoins alimentaires.',
+    'food.howToOrder': 'Comment le commander ?',
+
+    'trail.intro': "Suis le commissaire Montalbano dans {town} : les lieux de tournage dans l'ordre de la promenade, ce que chacun représente dans la série, et son allure d'aujourd'hui à côté de celle de l'écran.",
+    'trail.none': "Il n'y a pas encore de parcours Montalbano pour {town}.",
+    'trail.stops': "Lieux de tournage dans l'ordre de la promenade",
+    'trail.inStory': 'Dans la série : {name}.',
+    'trail.episodes': 'Apparaît : {episodes}',
+    'trail.fromYou': 'à {distance} de toi',
+    'trail.thenNow': "Hier et aujourd'hui",
+    'trail.offline': 'Tu es hors ligne. Tu peux quand même suivre le parcours, mais comparer des photos nécessite une connexion.',
+    'trail.takePhoto': 'Prendre une photo ici',
+    'trail.then': 'Hier',
+    'trail.now': "Aujourd'hui",
+    'trail.recreationAlt': '{name}, recréé comme une scène de la série',
+    'trail.yourPhoto': 'Ta photo de {name}',
+    'trail.compare': 'Comparer avec la série',
+    'trail.recreate': 'Recréer la scène',
+    'trail.comparing': "Mimi compare hier et aujourd'hui...",
+    'trail.recreating': 'Mimi recrée la scène...',
+    'trail.compareReady': 'La comparaison est prête.',
+    'trail.recreateReady': 'La scène recréée est prête.',
+    'trail.compareError': "Désolée, je n'ai pas pu comparer ta photo.",
+    'trail.recreateError': "Désolée, je n'ai pas pu recréer la scène.",
+    'trail.recreateEmpty': "Mimi n'a pas réussi à recréer celle-ci. Essaie avec une autre photo.",
+    'trail.previous': 'Précédent',
+    'trail.next': 'Lieu suivant',
+
+    'translator.sourceLanguage': 'Langue source',
+    'translator.targetLanguage': 'Langue cible',
+    'translator.autoDetect': 'Détection automatique',
+    'translator.detected': 'Détectée : {language}',
+    'translator.detectedLanguage': 'Langue détectée',
+    'translator.placeholderAny': "Saisis un texte dans n'importe quelle langue...",
+    'translator.placeholder': 'Saisis un texte en {language}...',
+    'translator.sourceText': 'Texte à traduire',
+    'translator.photo': "Traduire la photo d'un menu ou d'un panneau",
+    'translator.speak': 'Dis le texte à traduire',
+    'translator.contextPlaceholder': 'Ajouter un contexte (ex. : menu)',
+    'translator.context': 'Contexte',
+    'translator.autoTranslate': 'Traduire pendant la saisie',
+    'translator.phrasebook': 'Guide de conversation',
+    'translator.conversationMode': 'Mode conversation',
+    'translator.swap': 'Inverser les langues',
+    'translator.translate': 'Traduire',
+    'translator.translating': 'Traduction en cours...',
+    'translator.translationPlaceholder': 'Traduction en {language}...',
+    'translator.translationLabel': 'Traduction en {language}',
+    'translator.readAloud': 'Lire la traduction à voix haute',
+    'translator.audioLabel': 'Traduction en {language}',
+    'translator.translateError': "Désolée, je n'ai pas pu traduire le texte.",
+    'translator.speakError': "Désolée, je n'ai pas pu lire la traduction à voix haute.",
+    'translator.back': 'Retour au Traducteur',
+    'translator.offline': "Tu es hors ligne, la traduction en direct n'est donc pas disponible. Ces phrases fonctionnent sans connexion.",
+
+    'photo.title': 'Traduction de la photo',
+    'photo.titleFrom': 'Traduction de la photo depuis : {language}',
+    'photo.sideBySide': 'Afficher côte à côte',
+    'photo.overlay': 'Afficher les étiquettes sur la photo',
+    'photo.close': 'Fermer la photo',
+    'photo.alt': 'Photo à traduire',
+    'photo.original': 'Original',
+    'photo.error': "Désolée, je n'ai pas pu lire le texte de cette photo.",
+    'photo.hint': 'Essaie une photo plus nette et plus rapprochée.',
+
+    'conversation.idle': 'Touche le micro du côté de la personne qui parle en premier.',
+    'conversation.listening': 'À l’écoute : {language}...',
+    'conversation.speaking': 'Je parle : {language}...',
+    'conversation.speak': 'Parler : {language}',
+    'conversation.pause': 'Mettre la conversation en pause',
+    'conversation.exit': 'Quitter le mode conversation',
+    'conversation.hearError': "Désolée, je n'ai pas entendu.",
+    'conversation.translateError': "Désolée, je n'ai pas pu traduire cela.",
+    'conversation.retry': 'Touche un micro pour réessayer.',
+    'conversation.unsupported': "La reconnaissance vocale n'est pas prise en charge par ce navigateur.",
+
+    'phrasebook.ready': '{count} phrases sur {total} prêtes hors ligne',
+    'phrasebook.download': "Télécharger l'audio",
+    'phrasebook.downloading': 'Téléchargement {count}/{total}',
+    'phrasebook.downloadError': 'Désolée, le téléchargement a été interrompu.',
+    'phrasebook.downloadHint': 'Touche à nouveau Télécharger pour reprendre.',
+    'phrasebook.play': 'Écouter « {text} »',
+    'phrasebook.category.greetings': 'Salutations',
+    'phrasebook.category.foodDrink': 'Manger et boire',
+    'phrasebook.category.gettingAround': 'Se déplacer',
+    'phrasebook.category.help': 'Aide',
+    'phrasebook.phrase.goodMorning': 'Bonjour',
+    'phrasebook.phrase.goodEvening': 'Bonsoir',
+    'phrasebook.phrase.please': "S'il vous plaît",
+    'phrasebook.phrase.thankYou': 'Merci',
+    'phrasebook.phrase.excuseMe': 'Excusez-moi',
+    'phrasebook.phrase.goodbye': 'Au revoir',
+    'phrasebook.phrase.coffee': "Un café, s'il vous plaît",
+    'phrasebook.phrase.water': "De l'eau, s'il vous plaît",
+    'phrasebook.phrase.bill': "L'addition, s'il vous plaît",
+    'phrasebook.phrase.vegetarian': 'Je suis végétarien',
+    'phrasebook.phrase.nutAllergy': 'Je suis allergique aux fruits à coque',
+    'phrasebook.phrase.delicious': 'Délicieux !',
+    'phrasebook.phrase.bathroom': 'Où sont les toilettes ?',
+    'phrasebook.phrase.townCentre': 'Comment aller au centre-ville ?',
+    'phrasebook.phrase.whereIsChurch': 'Où est {church} ?',
+    'phrasebook.phrase.isItFar': "C'est loin ?",
+    'phrasebook.phrase.howMuch': 'Combien ça coûte ?',
+    'phrasebook.phrase.dontUnderstand': 'Je ne comprends pas',
+    'phrasebook.phrase.speakEnglish': 'Parlez-vous anglais ?',
+    'phrasebook.phrase.help': 'Au secours !',
+    'phrasebook.phrase.doctor': "Appelez un médecin, s'il vous plaît",
+
+    'tours.intro': "Dis-moi combien de temps tu as et ce que tu aimes, et je t'organise une promenade dans {town} rien que pour toi.",
+    'tours.duration': 'Combien de temps ?',
+    'tours.duration.oneHour': '1 heure',
+    'tours.duration.twoHours': '2 heures',
+    'tours.duration.halfDay': 'Une demi-journée',
+    'tours.interests': "Qu'est-ce qui t'intéresse ?",
+    'tours.mobility': 'Se déplacer',
+    'tours.mobility.stepFree': 'Sans marches',
+    'tours.mobility.easy': 'Marche facile',
+    'tours.mobility.active': 'Les montées ne me font pas peur',
+    'tours.interest.baroque': 'Baroque',
+    'tours.interest.montalbano': 'Montalbano',
+    'tours.interest.chocolate': 'Chocolat',
+    'tours.interest.infiorata': 'Infiorata',
+    'tours.interest.food': 'Cuisine',
+    'tours.interest.churches': 'Églises',
+    'tours.plan': 'Organiser ma visite',
+    'tours.ready': 'Ta visite « {title} » est prête.',
+    'tours.error': "Désolée, je n'arrive pas à organiser une visite pour le moment.",
+    'tours.summary': '{stops} étapes · environ {minutes} minutes · {visited} visitées',
+    'tours.new': 'Organiser une nouvelle visite',
+    'tours.visited': 'Visitée',
+    'tours.visitedStop': '{name} visitée',
+    'tours.walk': '{minutes} min à pied depuis l’étape précédente',
+    'tours.stay': 'environ {minutes} min ici',
+    'tours.previous': 'Précédente',
+    'tours.next': 'Visitée, étape suivante',
+    'tours.finish': 'Terminer',
+
+    'map.youAreHere': 'Tu es ici',
+    'map.detailsReady': 'La suite sur {name} est prête.',
+    'map.detailsError': "Désolée, je n'arrive pas à en savoir plus sur ce lieu pour le moment.",
+    'map.close': 'Fermer',
+    'map.tellMeMore': "Dis-m'en plus",
+    'map.nearMe': 'Ce qui est près de moi',
+    'map.fromCentre': 'Lieux à voir depuis le centre',
+    'map.category.church': 'Église baroque',
+    'map.category.palazzo': 'Palais',
+    'map.category.montalbano': 'Lieu de Montalbano',
+    'map.category.viewpoint': 'Point de vue',
+
+    'followUp.title': 'Demande-en plus à Mimi',
+    'followUp.placeholder': 'Quand a-t-il été construit ? Qui vivait ici ?',
+    'followUp.label': 'Ta question sur ce lieu',
+    'followUp.ask': 'Demander',
+
+    'artwork.title': "L'impression artistique de Mimi",
+    'artwork.style': 'Style artistique',
+    'artwork.style.watercolor': 'Aquarelle',
+    'artwork.style.inkSketch': "Croquis à l'encre",
+    'artwork.style.vintagePostcard': 'Carte postale ancienne',
+    'artwork.style.baroqueOil': "Peinture à l'huile baroque",
+    'artwork.style.tvStill': 'Image de Montalbano des années 90',
+    'artwork.regenerate': 'Régénérer',
+    'artwork.regenerateTitle': 'Le repeindre',
+    'artwork.alt': '{name} en {style}',
+    'artwork.refinePlaceholder': 'Retouche-le, ex. : « ajoute un coucher de soleil »',
+    'artwork.refineLabel': 'Comment Mimi doit-elle modifier le tableau ?',
+    'artwork.refine': 'Retoucher le tableau',
+    'artwork.refineError': "Désolée, je n'arrive pas à créer le tableau pour le moment.",
+    'artwork.caption': 'Bons baisers de {town} · {name}',
+    'artwork.captionLabel': 'Légende de la carte postale',
+    'artwork.postcard': 'Carte postale',
+    'artwork.postcardError': "Désolée, je n'ai pas pu créer la carte postale.",
+
+    'saved.intro': "Tous les lieux que tu as marqués d'une étoile dans la Loupe magique, enregistrés sur cet appareil.",
+    'saved.searchPlaceholder': 'Rechercher dans tes lieux enregistrés...',
+    'saved.search': 'Rechercher dans tes lieux enregistrés',
+    'saved.empty': "Aucun lieu enregistré pour l'instant. Touche l'étoile d'un résultat de la Loupe magique pour le garder ici.",
+    'saved.noMatch': 'Aucun lieu enregistré ne correspond à « {query} ».',
+    'saved.open': 'Ouvrir',
+    'saved.delete': 'Supprimer',
+    'saved.loadError': "Désolée, je n'ai pas pu charger tes lieux enregistrés.",
+    'saved.deleteError': "Désolée, je n'ai pas pu supprimer ce lieu.",
+
+    'journal.intro': "Tout ce que Mimi t'a raconté pendant ce voyage : les lieux que tu as photographiés, ses aquarelles, et les réponses et traductions que tu as gardées. Emporte-le chez toi en page web, en PDF ou en fichier Markdown.",
+    'journal.format': "Format d'export",
+    'journal.format.html': 'Page web (HTML)',
+    'journal.format.markdown': 'Markdown',
+    'journal.download': 'Télécharger',
+    'journal.share': 'Partager',
+    'journal.print': 'Imprimer / PDF',
+    'journal.empty': 'Ton carnet est vide. Les résultats de la Loupe magique y sont ajoutés automatiquement, et tu peux ajouter les réponses du Guide local et les traductions avec le bouton {icon}.',
+    'journal.remove': 'Retirer du carnet',
+    'journal.photoAlt': 'Ta photo',
+    'journal.artworkAlt': "L'aquarelle de Mimi",
+    'journal.kind.translation': 'Traduction',
+    'journal.exportTitle': 'Mon carnet de voyage à {town}',
+    'journal.loadError': "Désolée, je n'ai pas pu charger ton carnet.",
+    'journal.deleteError': "Désolée, je n'ai pas pu supprimer cette entrée.",
+    'journal.shareError': "Désolée, le partage n'a pas fonctionné. Essaie plutôt de télécharger le carnet.",
+    'journal.printError': 'Autorise les fenêtres pop-up pour ce site afin d’imprimer ton carnet ou de l’enregistrer en PDF.',
+
+    'audio.player': 'Lecteur audio',
+    'audio.play': 'Lire',
+    'audio.pause': 'Pause',
+    'audio.stop': 'Arrêter',
+    'audio.preparing': "Préparation de l'audio...",
+    'audio.queued': "(+{count} en file d'attente)",
+    'audio.seek': 'Position',
+    'audio.speed': 'Vitesse de lecture',
+
+    'live.connecting': 'Connexion à Mimi...',
+    'live.listening': "J'écoute, commence à parler.",
+    'live.speaking': "Mimi parle. Parle par-dessus elle à tout moment pour l'interrompre.",
+    'live.closed': 'Conversation terminée.',
+    'live.micDenied': "Mimi a besoin d'accéder au micro pour parler avec toi.",
+    'live.dropped': 'Désolée, la connexion vocale a été coupée.',
+    'live.interrupted': 'Interrompue',
+    'live.end': 'Terminer la conversation vocale',
+
+    'camera.denied': "Mimi a besoin d'accéder à l'appareil photo pour utiliser le viseur.",
+    'camera.error': "Désolée, je n'ai pas pu ouvrir l'appareil photo. Tu peux quand même choisir des photos.",
+    'camera.capture': 'Capturer',
+    'camera.auto': 'Capture automatique',
+    'camera.autoEvery': 'Auto toutes les {seconds} s',
+    'camera.autoOff': 'Auto désactivé',
+
+    'place.directions': 'Itinéraire',
+
+    'help.welcome.title': 'Ciao ! Je suis Mimi !',
+    'help.welcome.body': 'Je suis ta guide personnelle dans la magnifique ville de {town}. Laisse-moi te montrer comment rendre ta visite inoubliable !',
+    'help.lens.body': "Tu vois un bel édifice sans savoir ce que c'est ? Utilise la **Loupe magique** ! Envoie quelques photos ou pointe ta caméra dessus, et je te raconterai son histoire et ses secrets. Ensuite, pose-moi toutes les questions que tu veux.",
+    'help.lens.button': 'Essayer la Loupe magique',
+    'help.guide.body': "Une question ? Demande-moi ce que tu veux ! Dans l'onglet **Guide local**, tu peux discuter avec moi des meilleures adresses pour manger, des histoires derrière ce que tu vois ou des traditions locales.",
+    'help.guide.button': 'Poser une question',
+    'help.translator.body': "Besoin d'aide avec la langue ? Le **Traducteur** est là pour toi. Je traduis entre l'anglais, l'italien, l'allemand, le français, l'espagnol, le néerlandais et même le dialecte sicilien, et je reconnais toute seule la langue que tu lis. Tu peux même parler et écouter la traduction !",
+    'help.translator.button': 'Traduire maintenant',
+    'help.tours.body': "Tu ne sais pas par où commencer ? Dis-moi combien de temps tu as et ce que tu aimes, et dans **Balades** je te prépare une promenade, étape par étape, avec une histoire à chaque coin de rue.",
+    'help.tours.button': 'Planifier une balade',
+    'help.food.body': 'Une petite faim ? Dans **Cuisine**, indique-moi tes besoins alimentaires et je te suggérerai des adresses à proximité et des spécialités locales, je t’expliquerai n’importe quel plat du menu, je signalerai ses allergènes et je t’apprendrai à le commander en italien.',
+    'help.food.button': 'Trouver à manger',
+    'help.montalbano.body': "Fan du **commissaire Montalbano** ? Suis le parcours **Montalbano** à travers les lieux de tournage, découvre ce que chaque endroit représente dans la série, et prends une photo pour la comparer avec la scène, hier et aujourd'hui.",
+    'help.montalbano.button': 'Suivre le parcours',
+    'help.map.body': "Curieux de ce qui se cache au coin de la rue ? La **Carte** montre où tu es et indique les églises baroques, les palais et les autres sites de {town}. Touche un repère pour écouter son histoire, ou regarde ce qui est le plus proche.",
+    'help.map.button': 'Ouvrir la carte',
+    'help.saved.body': "Tu as trouvé un lieu que tu adores ? Touche l'étoile sur un résultat de la **Loupe magique** et je le garderai dans **Mon {town}**, directement sur ton téléphone, pour que tu le retrouves plus tard.",
+    'help.saved.button': 'Voir mes lieux',
+    'help.journal.body': "Tu veux tout te rappeler ? Chaque lieu que tu montres à la **Loupe magique** va dans ton **Carnet**, avec les réponses et traductions que tu ajoutes avec le bouton livre. Télécharge-le, partage-le ou imprime-le en PDF une fois rentré.",
+    'help.journal.button': 'Ouvrir mon carnet',
+    'help.glimpse.title': 'Un aperçu de {town}',
+    'help.glimpse.body': "Curieux de la ville elle-même ? Touche le bouton ci-dessous pour une courte introduction à l'histoire et à l'importance de {town}.",
+    'help.glimpse.button': 'Parle-moi de {town}',
+    'help.glimpse.loading': 'Chargement...',
+    'help.glimpse.cached': "Enregistré lors d'une visite précédente, pendant que tu es hors ligne.",
+    'help.glimpse.error': "Désolée, je n'arrive pas à obtenir d'informations sur {town} pour le moment.",
+    'help.glimpse.hint': 'Réessaie plus tard.',
+    'help.farewell': "J'espère que ça t'aide ! Explore toutes mes fonctionnalités et passe un merveilleux séjour à {town} !",
+
+    'errors.network': "Mimi n'arrive pas à joindre Internet pour le moment. Vérifie ta connexion et réessaie.",
+    'errors.quotaSeconds': 'Mimi reçoit beaucoup de questions en ce moment. Réessaie dans {seconds} secondes.',
+    'errors.quota': 'Mimi reçoit beaucoup de questions en ce moment. Attends une minute et réessaie.',
+    'errors.safety': 'Mimi ne peut pas aider avec cette demande. Reformule-la ou utilise une autre photo.',
+    'errors.invalid': "C'était trop d'un coup pour Mimi. Essaie un message plus court ou moins de photos.",
+    'errors.timeout': 'Mimi a mis trop de temps à répondre. Réessaie.',
+    'errors.retry': 'Réessaie.',
+};
@@ -0,0 +1,404 @@
+import type { Messages } from './en';
+
+export const it: Messages = {
+    'app.title': 'La guida turistica di Mimi',
+    'app.tagline': 'La tua compagna AI nel cuore del Barocco siciliano',
+    'app.language': 'Lingua',
+    'app.destination': 'Destinazione',
+
+    'tabs.lens': 'Lente Magica',
+    'tabs.guide': 'Guida Locale',
+    'tabs.translator': 'Traduttore',
+    'tabs.tours': 'Itinerari',
+    'tabs.food': 'Cibo',
+    'tabs.montalbano': 'Montalbano',
+    'tabs.map': 'Mappa',
+    'tabs.saved': 'La mia {town}',
+    'tabs.journal': 'Diario',
+    'tabs.help': 'Aiuto',
+
+    'settings.nearbyAlerts': 'Avvisi sui monumenti vicini',
+    'settings.spokenIntros': 'Presentazioni parlate vicino ai monumenti',
+    'settings.highAccuracy': 'GPS ad alta precisione (consuma più batteria)',
+    'settings.on': '{label}: attivo',
+    'settings.off': '{label}: disattivato',
+    'settings.tracking': 'Impostazioni di posizione',
+    'settings.display': 'Impostazioni di schermo e audio',
+    'settings.highContrast': 'Contrasto elevato',
+    'settings.largeText': 'Testo grande',
+    'settings.autoNarrate': 'Leggi ad alta voce i risultati della Lente Magica',
+
+    'nearby.message': 'Sei vicino a **{name}**. Tocca per ascoltare la sua storia.',
+    'nearby.dismiss': 'Chiudi',
+    'nearby.spokenIntro': 'Sei vicino a {name}.',
+
+    'a11y.skipToContent': 'Vai al contenuto',
+    'a11y.sections': 'Sezioni',
+    'a11y.loading': 'Caricamento...',
+    'a11y.analysisReady': "L'analisi di Mimi di {name} è pronta.",
+    'a11y.glimpseReady': 'La panoramica di {town} è pronta.',
+
+    'location.available': 'Posizione disponibile: {latitude}, {longitude} (±{accuracy} m)',
+    'location.fetching': 'Ricerca della posizione...',
+    'location.denied': "L'accesso alla posizione è stato negato.",
+    'location.unavailable': 'Le informazioni sulla posizione non sono disponibili.',
+    'location.timeout': 'La richiesta della posizione è scaduta.',
+    'location.unsupported': 'Questo browser non supporta la geolocalizzazione.',
+    'location.unknown': 'Si è verificato un errore sconosciuto.',
+
+    'offline.banner': 'Sei offline. Mimi può comunque mostrarti i luoghi salvati, le analisi recenti e il frasario.',
+
+    'lens.intro': 'Mostra a Mimi un monumento di {town} e ti racconterà tutto! Aggiungi fino a {count} foto dello stesso luogo, come la facciata, un dettaglio e l\'interno.',
+    'lens.choosePhotos': 'Scegli foto',
+    'lens.addPhotos': 'Aggiungi foto',
+    'lens.useCamera': 'Usa la fotocamera',
+    'lens.closeCamera': 'Chiudi la fotocamera',
+    'lens.analyze': 'Analizza',
+    'lens.analyzing': 'Mimi sta guardando le tue foto...',
+    'lens.offline': 'Sei offline, quindi ora non posso guardare nuove foto. Ecco cosa ti ho raccontato di recente:',
+    'lens.noRecent': 'Ancora nessuna analisi recente su questo dispositivo.',
+    'lens.photo': 'Foto {number}',
+    'lens.removePhoto': 'Rimuovi la foto {number}',
+    'lens.preview': 'Anteprima',
+    'lens.save': 'Salva in La mia {town}',
+    'lens.unsave': 'Rimuovi da La mia {town}',
+    'lens.thisLandmark': 'questo monumento',
+    'lens.noPhotos': 'Aggiungi prima una foto.',
+    'lens.readError': 'Mi dispiace, non riesco a leggere questa foto. Provane un\'altra.',
+    'lens.analyzeError': 'Mi dispiace, non sono riuscita ad analizzare le foto.',
+    'lens.analyzeHint': 'Prova un\'altra angolazione o una foto più nitida.',
+    'lens.saveError': 'Mi dispiace, non è stato possibile aggiornare i tuoi luoghi salvati.',
+    'lens.artworkEmpty': 'Mimi non è riuscita a dipingerlo. Riprova o scegli un altro stile.',
+    'lens.artworkError': 'Mi dispiace, non sono riuscita a dipingere questo luogo.',
+    'lens.artworkHint': 'Riprova o scegli un altro stile.',
+
+    'analysis.title': 'L\'analisi di Mimi',
+    'analysis.readAloud': 'Leggi ad alta voce',
+    'analysis.voice': 'Voce:',
+    'analysis.sources': 'Fonti:',
+    'analysis.audioError': 'Mi dispiace, al momento non è possibile generare l\'audio.',
+    'analysis.confidence.high': 'Corrispondenza sicura',
+    'analysis.confidence.medium': 'Corrispondenza probabile',
+    'analysis.confidence.low': 'Non sono sicura',
+    'analysis.confirmQuestion': 'Non sono certa che sia {name}. Lo è, o è uno di questi?',
+    'analysis.confirmYes': 'Sì, è {name}',
+    'analysis.section.constructionPeriod': 'Costruzione',
+    'analysis.section.architect': 'Architetto',
+    'analysis.section.architecturalStyle': 'Stile',
+    'analysis.section.history': 'Storia',
+    'analysis.section.montalbanoConnection': 'Il Commissario Montalbano',
+    'analysis.section.visitingHours': 'Orari di visita',
+    'analysis.section.notes': 'Le note di Mimi',
+    'analysis.thisIs': 'Questo è {name}.',
+    'analysis.thisIsBuilt': 'Questo è {name}, {built}.',
+    'analysis.builtIn': 'costruito nel {period}',
+    'analysis.builtBy': 'da {architect}',
+    'analysis.builtStyle': 'in stile {style}',
+
+    'guide.placeholder': 'Chiedi a Mimi qualsiasi cosa su {town}...',
+    'guide.newConversation': 'Nuova conversazione',
+    'guide.untitled': 'Senza titolo',
+    'guide.deleteConversation': 'Elimina conversazione',
+    'guide.talk': 'Parla con Mimi',
+    'guide.stopReply': 'Interrompi la risposta',
+    'guide.conversations': 'Conversazioni salvate',
+    'guide.chatLog': 'Conversazione con Mimi',
+    'guide.thinking': 'Mimi sta pensando...',
+    'guide.speak': 'Fai la tua domanda a voce',
+    'guide.stopListening': 'Smetti di ascoltare',
+    'guide.send': 'Invia',
+    'guide.stopped': 'Interrotta',
+    'guide.interrupted': 'Connessione persa, questa risposta potrebbe essere incompleta.',
+    'guide.answerError': 'Mi dispiace, non sono riuscita a rispondere.',
+    'guide.tellMeMore': 'Raccontami di più su {name}.',
+    'guide.inJournal': 'Nel tuo diario',
+    'guide.addToJournal': 'Aggiungi al diario',
+    'guide.offline': 'Sei offline, quindi Mimi non può rispondere a nuove domande. Le conversazioni passate sono ancora qui e il frasario del Traduttore funziona anche offline.',
+
+    'food.intro': 'Dimmi cosa non puoi mangiare e ti troverò buon cibo qui vicino e ti spiegherò i piatti di {town}.',
+    'food.dietaryNeeds': 'Esigenze alimentari',
+    'food.need.vegetarian': 'Vegetariano',
+    'food.need.glutenFree': 'Senza glutine',
+    'food.need.nutAllergy': 'Allergia alla frutta a guscio',
+    'food.need.halal': 'Halal',
+    'food.offline': 'Sei offline, quindi Mimi non può cercare cibo in questo momento. Il frasario del Traduttore ha comunque le frasi per mangiare.',
+    'food.findNearby': 'Trova cibo vicino a me',
+    'food.suggesting': 'Mimi sta cercando buon cibo qui vicino...',
+    'food.suggestionsReady': 'I suggerimenti sul cibo sono pronti.',
+    'food.suggestError': 'Mi dispiace, al momento non riesco a trovare suggerimenti sul cibo.',
+    'food.dishTitle': "Cos'è questo piatto?",
+    'food.specialities': 'Specialità di {town}',
+    'food.dishPlaceholder': 'Scrivi un piatto del menu...',
+    'food.dishLabel': 'Piatto da spiegare',
+    'food.explain': 'Spiega',
+    'food.explaining': 'Mimi si sta informando su quel piatto...',
+    'food.dishReady': 'La spiegazione di Mimi su {name} è pronta.',
+    'food.explainError': 'Mi dispiace, non riesco a spiegare quel piatto.',
+    'food.allergens': 'Di solito contiene: {allergens}. Chiedi sempre conferma al personale.',
+    'food.noAllergens': 'Nessun allergene comune nella ricetta tradizionale, ma chiedi sempre conferma al personale.',
+    'food.unsuitable': 'Di solito non adatto a te: {needs}.',
+    'food.suitable': 'La ricetta tradizionale è adatta alle tue esigenze alimentari.',
+    'food.howToOrder': 'Come lo ordino?',
+
+    'trail.intro': "Segui il Commissario Montalbano per {town}: i luoghi delle riprese in ordine di percorso, cosa interpreta ciascuno nella serie e com'è oggi accanto a com'era sullo schermo.",
+    'trail.none': "Non c'è ancora un percorso di Montalbano per {town}.",
+    'trail.stops': 'Luoghi delle riprese in ordine di percorso',
+    'trail.inStory': 'Nella serie: {name}.',
+    'trail.episodes': 'Compare: {episodes}',
+    'trail.fromYou': 'a {distance} da te',
+    'trail.thenNow': 'Ieri e oggi',
+    'trail.offline': 'Sei offline. Puoi comunque seguire il percorso, ma per confrontare le foto serve una connessione.',
+    'trail.takePhoto': 'Scatta una foto da qui',
+    'trail.then': 'Ieri',
+    'trail.now': 'Oggi',
+    'trail.recreationAlt': '{name}, ricreato come una scena della serie',
+    'trail.yourPhoto': 'La tua foto di {name}',
+    'trail.compare': 'Confronta con la serie',
+    'trail.recreate': 'Ricrea la scena',
+    'trail.comparing': 'Mimi sta confrontando ieri e oggi...',
+    'trail.recreating': 'Mimi sta ricreando la scena...',
+    'trail.compareReady': 'Il confronto è pronto.',
+    'trail.recreateReady': 'La scena ricreata è pronta.',
+    'trail.compareError': 'Mi dispiace, non riesco a confrontare la tua foto.',
+    'trail.recreateError': 'Mi dispiace, non riesco a ricreare la scena.',
+    'trail.recreateEmpty': "Mimi non è riuscita a ricreare questa scena. Prova con un'altra foto.",
+    'trail.previous': 'Precedente',
+    'trail.next': 'Luogo successivo',
+
+    'translator.sourceLanguage': 'Lingua di partenza',
+    'translator.targetLanguage': 'Lingua di arrivo',
+    'translator.autoDetect': 'Rileva automaticamente',
+    'translator.detected': 'Rilevata: {language}',
+    'translator.detectedLanguage': 'Lingua rilevata',
+    'translator.placeholderAny': 'Scrivi un testo in qualsiasi lingua...',
+    'translator.placeholder': 'Scrivi un testo in {language}...',
+    'translator.sourceText': 'Testo da tradurre',
+    'translator.photo': 'Traduci la foto di un menù o di un cartello',
+    'translator.speak': 'Pronuncia il testo da tradurre',
+    'translator.contextPlaceholder': 'Aggiungi un contesto (es. menù)',
+    'translator.context': 'Contesto',
+    'translator.autoTranslate': 'Traduci mentre scrivo',
+    'translator.phrasebook': 'Frasario',
+    'translator.conversationMode': 'Modalità conversazione',
+    'translator.swap': 'Inverti le lingue',
+    'translator.translate': 'Traduci',
+    'translator.translating': 'Traduzione in corso...',
+    'translator.translationPlaceholder': 'Traduzione in {language}...',
+    'translator.translationLabel': 'Traduzione in {language}',
+    'translator.readAloud': 'Leggi la traduzione ad alta voce',
+    'translator.audioLabel': 'Traduzione in {language}',
+    'translator.translateError': 'Mi dispiace, non sono riuscita a tradurre il testo.',
+    'translator.speakError': 'Mi dispiace, non sono riuscita a leggere la traduzione.',
+    'translator.back': 'Torna al Traduttore',
+    'translator.offline': 'Sei offline, quindi la traduzione dal vivo non è disponibile. Queste frasi funzionano anche senza connessione.',
+
+    'photo.title': 'Traduzione della foto',
+    'photo.titleFrom': 'Traduzione della foto da: {language}',
+    'photo.sideBySide': 'Mostra affiancate',
+    'photo.overlay': 'Mostra le etichette sulla foto',
+    'photo.close': 'Chiudi la foto',
+    'photo.alt': 'Foto da tradurre',
+    'photo.original': 'Originale',
+    'photo.error': 'Mi dispiace, non sono riuscita a leggere il testo in questa foto.',
+    'photo.hint': 'Prova con uno scatto più nitido e ravvicinato.',
+
+    'conversation.idle': 'Tocca il microfono dal lato di chi parla per primo.',
+    'conversation.listening': 'In ascolto: {language}...',
+    'conversation.speaking': 'Sto parlando: {language}...',
+    'conversation.speak': 'Parla: {language}',
+    'conversation.pause': 'Metti in pausa la conversazione',
+    'conversation.exit': 'Esci dalla modalità conversazione',
+    'conversation.hearError': 'Mi dispiace, non ho sentito bene.',
+    'conversation.translateError': 'Mi dispiace, non sono riuscita a tradurlo.',
+    'conversation.retry': 'Tocca un microfono per riprovare.',
+    'conversation.unsupported': 'Il riconoscimento vocale non è supportato da questo browser.',
+
+    'phrasebook.ready': '{count} di {total} frasi pronte offline',
+    'phrasebook.download': "Scarica l'audio",
+    'phrasebook.downloading': 'Download {count}/{total}',
+    'phrasebook.downloadError': 'Mi dispiace, il download si è interrotto.',
+    'phrasebook.downloadHint': 'Tocca di nuovo scarica per riprendere.',
+    'phrasebook.play': 'Ascolta "{text}"',
+    'phrasebook.category.greetings': 'Saluti',
+    'phrasebook.category.foodDrink': 'Cibo e bevande',
+    'phrasebook.category.gettingAround': 'Per muoversi',
+    'phrasebook.category.help': 'Aiuto',
+    'phrasebook.phrase.goodMorning': 'Buongiorno',
+    'phrasebook.phrase.goodEvening': 'Buonasera',
+    'phrasebook.phrase.please': 'Per favore',
+    'phrasebook.phrase.thankYou': 'Grazie',
+    'phrasebook.phrase.excuseMe': 'Mi scusi',
+    'phrasebook.phrase.goodbye': 'Arrivederci',
+    'phrasebook.phrase.coffee': 'Un caffè, per favore',
+    'phrasebook.phrase.water': "Dell'acqua, per favore",
+    'phrasebook.phrase.bill': 'Il conto, per favore',
+    'phrasebook.phrase.vegetarian': 'Sono vegetariano',
+    'phrasebook.phrase.nutAllergy': 'Sono allergico alla frutta secca',
+    'phrasebook.phrase.delicious': 'Buonissimo!',
+    'phrasebook.phrase.bathroom': "Dov'è il bagno?",
+    'phrasebook.phrase.townCentre': 'Come arrivo in centro?',
+    'phrasebook.phrase.whereIsChurch': "Dov'è {church}?",
+    'phrasebook.phrase.isItFar': 'È lontano?',
+    'phrasebook.phrase.howMuch': 'Quanto costa?',
+    'phrasebook.phrase.dontUnderstand': 'Non capisco',
+    'phrasebook.phrase.speakEnglish': 'Parla inglese?',
+    'phrasebook.phrase.help': 'Aiuto!',
+    'phrasebook.phrase.doctor': 'Chiami un medico, per favore',
+
+    'tours.intro': 'Dimmi quanto tempo hai e cosa ami, e organizzerò una passeggiata per {town} solo per te.',
+    'tours.duration': 'Quanto tempo?',
+    'tours.duration.oneHour': '1 ora',
+    'tours.duration.twoHours': '2 ore',
+    'tours.duration.halfDay': 'Mezza giornata',
+    'tours.interests': 'Cosa ti interessa?',
+    'tours.mobility': 'Come ti muovi',
+    'tours.mobility.stepFree': 'Senza gradini',
+    'tours.mobility.easy': 'Passeggiata facile',
+    'tours.mobility.active': 'Le salite non mi spaventano',
+    'tours.interest.baroque': 'Barocco',
+    'tours.interest.montalbano': 'Montalbano',
+    'tours.interest.chocolate': 'Cioccolato',
+    'tours.interest.infiorata': 'Infiorata',
+    'tours.interest.food': 'Cibo',
+    'tours.interest.churches': 'Chiese',
+    'tours.plan': 'Organizza il mio itinerario',
+    'tours.ready': 'Il tuo itinerario "{title}" è pronto.',
+    'tours.error': 'Mi dispiace, al momento non riesco a organizzare un itinerario.',
+    'tours.summary': '{stops} tappe · circa {minutes} minuti · {visited} visitate',
+    'tours.new': 'Organizza un nuovo itinerario',
+    'tours.visited': 'Visitata',
+    'tours.visitedStop': '{name} visitata',
+    'tours.walk': '{minutes} min a piedi dalla tappa precedente',
+    'tours.stay': 'circa {minutes} min qui',
+    'tours.previous': 'Precedente',
+    'tours.next': 'Visitata, prossima tappa',
+    'tours.finish': 'Fine',
+
+    'map.youAreHere': 'Tu sei qui',
+    'map.detailsReady': 'Altre notizie su {name} sono pronte.',
+    'map.detailsError': 'Mi dispiace, al momento non riesco a trovare altro su questo luogo.',
+    'map.close': 'Chiudi',
+    'map.tellMeMore': 'Raccontami di più',
+    'map.nearMe': 'Cosa c’è vicino a me',
+    'map.fromCentre': 'Luoghi dal centro',
+    'map.category.church': 'Chiesa barocca',
+    'map.category.palazzo': 'Palazzo',
+    'map.category.montalbano': 'Luogo di Montalbano',
+    'map.category.viewpoint': 'Belvedere',
+
+    'followUp.title': 'Chiedi a Mimi di più',
+    'followUp.placeholder': 'Quando è stato costruito? Chi ci abitava?',
+    'followUp.label': 'La tua domanda su questo luogo',
+    'followUp.ask': 'Chiedi',
+
+    'artwork.title': "L'impressione artistica di Mimi",
+    'artwork.style': 'Stile artistico',
+    'artwork.style.watercolor': 'Acquerello',
+    'artwork.style.inkSketch': 'Schizzo a china',
+    'artwork.style.vintagePostcard': 'Cartolina d’epoca',
+    'artwork.style.baroqueOil': 'Dipinto a olio barocco',
+    'artwork.style.tvStill': 'Fotogramma di Montalbano anni ’90',
+    'artwork.regenerate': 'Rigenera',
+    'artwork.regenerateTitle': 'Dipingilo di nuovo',
+    'artwork.alt': '{name} come {style}',
+    'artwork.refinePlaceholder': 'Ritoccalo, es. "aggiungi un tramonto"',
+    'artwork.refineLabel': 'Come deve cambiare il quadro Mimi?',
+    'artwork.refine': 'Ritocca il quadro',
+    'artwork.refineError': 'Mi dispiace, al momento non riesco a creare il quadro.',
+    'artwork.caption': 'Saluti da {town} · {name}',
+    'artwork.captionLabel': 'Didascalia della cartolina',
+    'artwork.postcard': 'Cartolina',
+    'artwork.postcardError': 'Mi dispiace, non sono riuscita a creare la cartolina.',
+
+    'saved.intro': 'Tutti i luoghi che hai segnato con la stella nella Lente Magica, salvati su questo dispositivo.',
+    'saved.searchPlaceholder': 'Cerca tra i tuoi luoghi salvati...',
+    'saved.search': 'Cerca tra i tuoi luoghi salvati',
+    'saved.empty': 'Ancora nessun luogo salvato. Tocca la stella su un risultato della Lente Magica per conservarlo qui.',
+    'saved.noMatch': 'Nessun luogo salvato corrisponde a "{query}".',
+    'saved.open': 'Apri',
+    'saved.delete': 'Elimina',
+    'saved.loadError': 'Mi dispiace, non sono riuscita a caricare i tuoi luoghi salvati.',
+    'saved.deleteError': 'Mi dispiace, non sono riuscita a eliminare quel luogo.',
+
+    'journal.intro': 'Tutto ciò che Mimi ti ha raccontato in questo viaggio: i luoghi che hai fotografato, i suoi acquerelli e le risposte e traduzioni che hai conservato. Portalo a casa come pagina web, PDF o file Markdown.',
+    'journal.format': 'Formato di esportazione',
+    'journal.format.html': 'Pagina web (HTML)',
+    'journal.format.markdown': 'Markdown',
+    'journal.download': 'Scarica',
+    'journal.share': 'Condividi',
+    'journal.print': 'Stampa / PDF',
+    'journal.empty': 'Il tuo diario è vuoto. I risultati della Lente Magica vengono aggiunti automaticamente, e puoi aggiungere le risposte della Guida Locale e le traduzioni con il pulsante {icon}.',
+    'journal.remove': 'Rimuovi dal diario',
+    'journal.photoAlt': 'La tua foto',
+    'journal.artworkAlt': "L'acquerello di Mimi",
+    'journal.kind.translation': 'Traduzione',
+    'journal.exportTitle': 'Il mio diario di viaggio a {town}',
+    'journal.loadError': 'Mi dispiace, non sono riuscita a caricare il tuo diario.',
+    'journal.deleteError': 'Mi dispiace, non sono riuscita a eliminare quella voce.',
+    'journal.shareError': 'Mi dispiace, la condivisione non ha funzionato. Prova invece a scaricare il diario.',
+    'journal.printError': 'Consenti i pop-up per questo sito per stampare o salvare il diario in PDF.',
+
+    'audio.player': 'Lettore audio',
+    'audio.play': 'Riproduci',
+    'audio.pause': 'Pausa',
+    'audio.stop': 'Ferma',
+    'audio.preparing': "Preparo l'audio...",
+    'audio.queued': '(+{count} in coda)',
+    'audio.seek': 'Posizione',
+    'audio.speed': 'Velocità di riproduzione',
+
+    'live.connecting': 'Mi collego con Mimi...',
+    'live.listening': 'Ti ascolto, inizia pure a parlare.',
+    'live.speaking': 'Mimi sta parlando. Parlale sopra quando vuoi per interromperla.',
+    'live.closed': 'Conversazione terminata.',
+    'live.micDenied': "Mimi ha bisogno dell'accesso al microfono per parlare con te.",
+    'live.dropped': 'Mi dispiace, la connessione vocale si è interrotta.',
+    'live.interrupted': 'Interrotta',
+    'live.end': 'Termina la chat vocale',
+
+    'camera.denied': "Mimi ha bisogno dell'accesso alla fotocamera per usare il mirino.",
+    'camera.error': 'Mi dispiace, non sono riuscita ad aprire la fotocamera. Puoi comunque scegliere delle foto.',
+    'camera.capture': 'Scatta',
+    'camera.auto': 'Scatto automatico',
+    'camera.autoEvery': 'Automatico ogni {seconds}s',
+    'camera.autoOff': 'Automatico disattivato',
+
+    'place.directions': 'Indicazioni',
+
+    'help.welcome.title': 'Ciao! Sono Mimi!',
+    'help.welcome.body': 'Sono la tua guida personale alla splendida città di {town}. Lascia che ti mostri come posso rendere indimenticabile la tua visita!',
+    'help.lens.body': 'Vedi un bell\'edificio ma non sai cos\'è? Usa la **Lente Magica**! Carica qualche foto o inquadralo con la fotocamera e ti racconterò la sua storia e i suoi segreti. Poi chiedimi tutto quello che vuoi sapere.',
+    'help.lens.button': 'Prova la Lente Magica',
+    'help.guide.body': 'Hai una domanda? Chiedimi qualsiasi cosa! Nella scheda **Guida Locale** puoi chiacchierare con me sui posti migliori dove mangiare, sulle storie dietro ciò che vedi o sulle tradizioni locali.',
+    'help.guide.button': 'Fai una domanda',
+    'help.translator.body': 'Hai bisogno di aiuto con la lingua? Il **Traduttore** è qui per te. Traduco tra inglese, italiano, tedesco, francese, spagnolo, olandese e perfino il dialetto siciliano, e riconosco da sola la lingua che stai leggendo. Puoi anche parlare e ascoltare la traduzione!',
+    'help.translator.button': 'Traduci ora',
+    'help.tours.body': 'Non sai da dove cominciare? Dimmi quanto tempo hai e cosa ami, e in **Itinerari** ti preparerò una passeggiata, tappa dopo tappa, con una storia a ogni angolo.',
+    'help.tours.button': 'Pianifica un itinerario',
+    'help.food.body': 'Hai fame? In **Cibo** dimmi le tue esigenze alimentari e ti suggerirò locali qui vicino e specialità del posto, ti spiegherò qualsiasi piatto del menu, segnalerò gli allergeni e ti insegnerò a ordinarlo in italiano.',
+    'help.food.button': 'Trova da mangiare',
+    'help.montalbano.body': 'Sei un fan del **Commissario Montalbano**? Segui il percorso **Montalbano** tra i luoghi delle riprese, scopri cosa interpreta ogni posto nella serie e scatta una foto per confrontarla con la scena, ieri e oggi.',
+    'help.montalbano.button': 'Segui il percorso',
+    'help.map.body': 'Ti chiedi cosa c\'è dietro l\'angolo? La **Mappa** mostra dove ti trovi e segna le chiese barocche, i palazzi e gli altri luoghi da vedere di {town}. Tocca un segnaposto per ascoltarne la storia o scopri cosa c\'è di più vicino.',
+    'help.map.button': 'Apri la mappa',
+    'help.saved.body': 'Hai trovato un posto che ami? Tocca la stella su un risultato della **Lente Magica** e lo terrò in **La mia {town}**, direttamente sul tuo telefono, per ritrovarlo più tardi.',
+    'help.saved.button': 'I miei luoghi',
+    'help.journal.body': 'Vuoi ricordare tutto? Ogni luogo che mostri alla **Lente Magica** finisce nel tuo **Diario**, insieme alle risposte e alle traduzioni che aggiungi con il pulsante del libro. Scaricalo, condividilo o stampalo in PDF quando torni a casa.',
+    'help.journal.button': 'Apri il mio diario',
+    'help.glimpse.title': 'Uno sguardo su {town}',
+    'help.glimpse.body': 'Curioso della città? Tocca il pulsante qui sotto per una breve introduzione alla storia e all\'importanza di {town}.',
+    'help.glimpse.button': 'Raccontami di {town}',
+    'help.glimpse.loading': 'Caricamento...',
+    'help.glimpse.cached': 'Salvato da una visita precedente, mentre sei offline.',
+    'help.glimpse.error': 'Mi dispiace, al momento non riesco a recuperare informazioni su {town}.',
+    'help.glimpse.hint': 'Riprova più tardi.',
+    'help.farewell': 'Spero di esserti stata utile! Esplora tutte le mie funzioni e goditi {town}!',
+
+    'errors.network': 'Mimi non riesce a raggiungere internet in questo momento. Controlla la connessione e riprova.',
+    'errors.quotaSeconds': 'Mimi sta ricevendo molte domande in questo momento. Riprova tra {seconds} secondi.',
+    'errors.quota': 'Mimi sta ricevendo molte domande in questo momento. Aspetta un minuto e riprova.',
+    'errors.safety': 'Mimi non può aiutarti con questa richiesta. Prova a riformularla o usa un\'altra foto.',
+    'errors.invalid': 'È troppo per Mimi in una volta sola. Prova con un messaggio più breve o meno foto.',
+    'errors.timeout': 'Mimi ci ha messo troppo a rispondere. Riprova.',
+    'errors.retry': 'Riprova.',
+};
@@ -0,0 +1,40 @@
+// --- Inspector Montalbano filming locations, by destination id and in walking order ---
+// Curated by hand and limited to locations we're sure of; Mimi searches for specific episodes when comparing photos.
+
+export interface FilmingLocation {
+    id: string;
+    // The landmark in the destination's dataset, which gives the stop its name, position and sources.
+    landmarkId: string;
+    // What the place plays in the series.
+    inStoryName: string;
+    // Where in the series it turns up.
+    episodes: string;
+    // What happens there on screen, for the then-vs-now comparison and the recreated scene.
+    scene: string;
+}
+
+export const MONTALBANO_TRAILS: Record<string, FilmingLocation[]> = {
+    scicli: [
+        {
+            id: 'vigata-streets',
+            landmarkId: 'via-mormino-penna',
+            inStoryName: 'The streets of Vigàta',
+            episodes: 'Many episodes, throughout the series',
+            scene: 'Montalbano walks along the honey-coloured Baroque street, past churches and palazzi, on his way to and from the police station.',
+        },
+        {
+            id: 'vigata-police-station',
+            landmarkId: 'palazzo-municipale',
+            inStoryName: 'Commissariato di Vigàta, the police station',
+            episodes: 'Throughout the series',
+            scene: 'Squad cars pull up outside the front door, where Montalbano, Fazio, Augello and Catarella come and go.',
+        },
+        {
+            id: 'montelusa-questura',
+            landmarkId: 'palazzo-municipale',
+            inStoryName: "The Questore's office in Montelusa, played by the mayor's office",
+            episodes: 'Whenever Montalbano is summoned by the Questore',
+            scene: 'Montalbano faces his superior across a large desk in a formal, high-ceilinged office.',
+        },
+    ],
+};
@@ -0,0 +1,90 @@
+import type { MessageKey } from '../services/i18n';
+import { DESTINATIONS, type Destination } from './destinations';
+
+// --- Curated phrasebook, bundled with the app so it works without a connection ---
+
+export interface Phrase {
+    // What the phrase means, in the visitor's own language.
+    meaning: MessageKey;
+    italian: string;
+    sicilian: string;
+}
+
+export interface PhraseCategory {
+    name: MessageKey;
+    icon: string;
+    phrases: Phrase[];
+}
+
+// `{church}` stands for the town's main church: getPhrasebook fills it in, and the meaning gets it from getMainChurch.
+const PHRASEBOOK: PhraseCategory[] = [
+    {
+        name: 'phrasebook.category.greetings',
+        icon: 'waving_hand',
+        phrases: [
+            { meaning: 'phrasebook.phrase.goodMorning', italian: 'Buongiorno', sicilian: 'Bon jornu' },
+            { meaning: 'phrasebook.phrase.goodEvening', italian: 'Buonasera', sicilian: 'Bona sira' },
+            { meaning: 'phrasebook.phrase.please', italian: 'Per favore', sicilian: 'Pi favuri' },
+            { meaning: 'phrasebook.phrase.thankYou', italian: 'Grazie', sicilian: 'Grazzi' },
+            { meaning: 'phrasebook.phrase.excuseMe', italian: 'Mi scusi', sicilian: 'Mi scusassi' },
+            { meaning: 'phrasebook.phrase.goodbye', italian: 'Arrivederci', sicilian: 'Salutamu' },
+        ],
+    },
+    {
+        name: 'phrasebook.category.foodDrink',
+        icon: 'restaurant',
+        phrases: [
+            { meaning: 'phrasebook.phrase.coffee', italian: 'Un caffè, per favore', sicilian: 'Un cafè, pi favuri' },
+            { meaning: 'phrasebook.phrase.water', italian: "Dell'acqua, per favore", sicilian: "Un pocu d'acqua, pi favuri" },
+            { meaning: 'phrasebook.phrase.bill', italian: 'Il conto, per favore', sicilian: 'U cuntu, pi favuri' },
+            { meaning: 'phrasebook.phrase.vegetarian', italian: 'Sono vegetariano', sicilian: 'Sugnu vigitarianu' },
+            { meaning: 'phrasebook.phrase.nutAllergy', italian: 'Sono allergico alla frutta secca', sicilian: 'Sugnu allergicu â frutta sicca' },
+            { meaning: 'phrasebook.phrase.delicious', italian: 'Buonissimo!', sicilian: 'Bonu assai!' },
+        ],
+    },
+    {
+        name: 'phrasebook.category.gettingAround',
+        icon: 'directions_walk',
+        phrases: [
+            { meaning: 'phrasebook.phrase.bathroom', italian: "Dov'è il bagno?", sicilian: "Unn'è u bagnu?" },
+            { meaning: 'phrasebook.phrase.townCentre', italian: 'Come arrivo in centro?', sicilian: "Comu arrivu 'n centru?" },
+            { meaning: 'phrasebook.phrase.whereIsChurch', italian: "Dov'è {church}?", sicilian: "Unn'è {church}?" },
+            { meaning: 'phrasebook.phrase.isItFar', italian: 'È lontano?', sicilian: 'È luntanu?' },
+            { meaning: 'phrasebook.phrase.howMuch', italian: 'Quanto costa?', sicilian: 'Quantu custa?' },
+        ],
+    },
+    {
+        name: 'phrasebook.category.help',
+        icon: 'sos',
+        phrases: [
+            { meaning: 'phrasebook.phrase.dontUnderstand', italian: 'Non capisco', sicilian: 'Nun capisciu' },
+            { meaning: 'phrasebook.phrase.speakEnglish', italian: 'Parla inglese?', sicilian: "Parra 'ngrisi?" },
+            { meaning: 'phrasebook.phrase.help', italian: 'Aiuto!', sicilian: 'Aiutu!' },
+            { meaning: 'phrasebook.phrase.doctor', italian: 'Chiami un medico, per favore', sicilian: 'Chiamassi un medicu, pi favuri' },
+        ],
+    },
+];
+
+// The voice phrasebook audio is generated with, so downloads and playback hit the same cache entries.
+export const PHRASEBOOK_VOICE = 'Kore';
+
+export function getMainChurch(destination: Destination): string {
+    return (destination.landmarks.find(landmark => landmark.category === 'church') || destination.landmarks[0]).name;
+}
+
+// The phrasebook for one town, asking the way to one of its own churches.
+export function getPhrasebook(destination: Destination): PhraseCategory[] {
+    const fill = (text: string) => text.replace('{church}', getMainChurch(destination));
+    return PHRASEBOOK.map(category => ({
+        ...category,
+        phrases: category.phrases.map(phrase => ({ ...phrase, italian: fill(phrase.italian), sicilian: fill(phrase.sicilian) })),
+    }));
+}
+
+// Every clip a town's phrasebook can download, in both Italian and Sicilian.
+export function getPhrasebookTexts(destination: Destination): string[] {
+    return getPhrasebook(destination).flatMap(category => category.phrases.flatMap(phrase => [phrase.italian, phrase.sicilian]));
+}
+
+// Every town's clips, so switching towns never evicts the ones already downloaded.
+export const PHRASEBOOK_TEXTS = [...new Set(DESTINATIONS.flatMap(getPhrasebookTexts))];
@@ -0,0 +1,135 @@
+// @vitest-environment jsdom
+import { act, fireEvent, render, screen, within } from '@testing-library/react';
+import axe from 'axe-core';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+
+// The whole app, rendered the way index.html does, with the mock AI and an in-memory database.
+// jsdom has no IndexedDB, layout or media devices, so those are stubbed here rather than in the app.
+
+vi.mock('./services/db', () => {
+    const stores = new Map<string, Map<unknown, unknown>>();
+    const store = (name: string) => {
+        if (!stores.has(name)) stores.set(name, new Map());
+        return stores.get(name);
+    };
+    return {
+        STORES: {
+            savedPlaces: 'savedPlaces',
+            conversations: 'conversations',
+            offlineContent: 'offlineContent',
+            ttsCache: 'ttsCache',
+            journal: 'journal',
+        },
+        getAll: async (name: string) => [...store(name).values()],
+        getOne: async (name: string, key: unknown) => store(name).get(key),
+        getKeysByIndex: async (name: string) => [...store(name).keys()],
+        put: async (name: string, value: { id?: unknown; key?: unknown }) => {
+            store(name).set(value.id ?? value.key, value);
+        },
+        remove: async (name: string, key: unknown) => {
+            store(name).delete(key);
+        },
+    };
+});
+
+// Only WCAG rules: jsdom can't compute colours, and the best-practice rules aren't what this suite checks.
+async function expectNoViolations(element: Element) {
+    const { violations } = await axe.run(element, {
+        runOnly: { type: 'tag', values: ['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa'] },
+        rules: { 'color-contrast': { enabled: false } },
+    });
+    expect(violations.map(({ id, nodes }) => `${id}: ${nodes.map(node => node.html).join(', ')}`)).toEqual([]);
+}
+
+const TAB_NAMES = ['Magic Lens', 'Local Guide', 'Translator', 'Tours', 'Food', 'Montalbano', 'Map', 'My Scicli', 'Journal', 'Help'];
+
+beforeAll(async () => {
+    window.history.replaceState(null, '', '/?ai=mock');
+    localStorage.setItem('mimi:uiLanguage', JSON.stringify('en'));
+    Element.prototype.scrollIntoView = () => {};
+    document.body.innerHTML = '<div id="root"></div>';
+    await act(async () => {
+        await import('./index');
+    });
+});
+
+describe('tabs', () => {
+    it('are a named tablist with one selected tab', () => {
+        const tablist = screen.getByRole('tablist', { name: 'Sections' });
+        // The icons are hidden, so each tab is named by its label alone.
+        const tabs = TAB_NAMES.map(name => within(tablist).getByRole('tab', { name }));
+        expect(within(tablist).getAllByRole('tab')).toEqual(tabs);
+        expect(within(tablist).getAllByRole('tab', { selected: true })).toEqual([within(tablist).getByRole('tab', { name: 'Help' })]);
+        expect(screen.getByRole('tabpanel', { name: 'Help' })).toBeTruthy();
+    });
+
+    it('keep a single tab stop and move focus with the arrow keys, Home and End', () => {
+        const tabs = screen.getAllByRole('tab');
+        const selected = tabs.find(tab => tab.getAttribute('aria-selected') === 'true');
+        expect(tabs.filter(tab => tab.tabIndex === 0)).toEqual([selected]);
+
+        selected.focus();
+        fireEvent.keyDown(selected, { key: 'ArrowRight' });
+        expect(document.activeElement).toBe(tabs[(tabs.indexOf(selected) + 1) % tabs.length]);
+        fireEvent.keyDown(document.activeElement, { key: 'Home' });
+        expect(document.activeElement).toBe(tabs[0]);
+        fireEvent.keyDown(document.activeElement, { key: 'ArrowLeft' });
+        expect(document.activeElement).toBe(tabs[tabs.length - 1]);
+        fireEvent.keyDown(document.activeElement, { key: 'End' });
+        expect(document.activeElement).toBe(tabs[tabs.length - 1]);
+        // Moving focus doesn't open the tab.
+        expect(selected.getAttribute('aria-selected')).toBe('true');
+    });
+
+    it.each(TAB_NAMES)('%s has no WCAG violations', async (name) => {
+        fireEvent.click(screen.getByRole('tab', { name }));
+        const panel = await screen.findByRole('tabpanel', { name });
+        // Let the mock answer whatever the tab asks for when it opens.
+        await act(() => new Promise(resolve => setTimeout(resolve, 400)));
+        await expectNoViolations(document.body);
+        expect(panel.textContent.trim()).not.toBe('');
+    });
+});
+
+describe('offline', () => {
+    it('keeps the Help overview of the town without waiting for "Tell me"', async () => {
+        const { getCachedTownOverview } = await import('./services/townOverview');
+        const { getDestination } = await import('./services/destination');
+        await vi.waitFor(async () => expect(await getCachedTownOverview(getDestination())).toBeTruthy());
+    });
+});
+
+describe('camera', () => {
+    it('says so instead of crashing when the browser offers no camera', async () => {
+        // jsdom, like a browser on a plain-http LAN address, has no navigator.mediaDevices.
+        expect(navigator.mediaDevices).toBeUndefined();
+        fireEvent.click(screen.getByRole('tab', { name: 'Magic Lens' }));
+        const panel = await screen.findByRole('tabpanel', { name: 'Magic Lens' });
+        fireEvent.click(within(panel).getByRole('button', { name: 'Use Camera' }));
+        expect(await within(panel).findByText("Sorry, I couldn't open the camera. You can still choose photos instead.")).toBeTruthy();
+        fireEvent.click(within(panel).getAllByRole('button', { name: 'Close Camera' })[0]);
+    });
+});
+
+describe('place cards', () => {
+    const reply = '- **Duomo**: the cathedral\n- **Palazzo Beneventano**: a [palace](https://example.com)';
+
+    it('offer each place as a button, with the directions link beside it', async () => {
+        const { default: Markdown } = await import('./components/Markdown');
+        const onPlaceSelect = vi.fn();
+        const { container } = render(<Markdown text={reply} onPlaceSelect={onPlaceSelect} />);
+        const button = within(container).getByRole('button', { name: 'Duomo' });
+        expect(button.querySelector('a')).toBeNull();
+        fireEvent.click(button);
+        expect(onPlaceSelect).toHaveBeenCalledWith('Duomo');
+        expect(within(container).getAllByRole('link', { name: /Directions/ })).toHaveLength(2);
+        await expectNoViolations(container);
+    });
+
+    it('are plain text when there is nothing to select', async () => {
+        const { default: Markdown } = await import('./components/Markdown');
+        const { container } = render(<Markdown text={reply} />);
+        expect(within(container).queryAllByRole('button')).toEqual([]);
+        expect(container.querySelector('[tabindex]')).toBeNull();
+    });
+});
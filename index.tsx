@@ -1,83 +1,163 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { createRoot } from 'react-dom/client';
-import { GoogleGenAI, Modality } from "@google/genai";
+import { ai, AVAILABLE_VOICES, describeError, isCancelled } from './services/ai';
+import { useRequestSignal } from './services/cancellation';
+import { savePlace, updateSavedPlace, deleteSavedPlace, createThumbnail } from './services/savedPlaces';
+import { createConversation, listConversations, saveConversation, deleteConversation, getConversationTitle, toChatHistory } from './services/conversations';
+import MyScicli from './components/MyScicli';
+import Markdown, { renderInline } from './components/Markdown';
+import { LANGUAGES, AUTO_DETECT, getSpeechCode } from './services/languages';
+import { audioEngine } from './services/audioEngine';
+import { translate } from './services/translation';
+import ConversationMode from './components/ConversationMode';
+import PhotoTranslation from './components/PhotoTranslation';
+import AnalysisCard from './components/AnalysisCard';
+import MapView from './components/MapView';
+import Tours from './components/Tours';
+import Food from './components/Food';
+import MontalbanoTrail from './components/MontalbanoTrail';
+import Phrasebook from './components/Phrasebook';
+import AudioPlayer from './components/AudioPlayer';
+import LiveVoice from './components/LiveVoice';
+import Viewfinder from './components/Viewfinder';
+import FollowUpQuestions from './components/FollowUpQuestions';
+import LandmarkDetails from './components/LandmarkDetails';
+import Journal from './components/Journal';
+import ArtisticImpression from './components/ArtisticImpression';
+import Loader from './components/Loader';
+import { useSetting, readSetting } from './services/settings';
+import { t, useTranslation, setUiLanguage, getUiLanguage, getUiSpeechCode, languageInstruction, UI_LANGUAGES, type MessageKey } from './services/i18n';
+import { announce, useAnnouncement } from './services/announcer';
+import { useDestination, setDestination, getDestination, personaInstruction } from './services/destination';
+import { useLocationTracking } from './services/locationTracking';
+import { GeofenceEngine } from './services/geofence';
+import { LANDMARK_CATEGORIES } from './data/landmarks';
+import { DESTINATIONS } from './data/destinations';
+import { prepareImage } from './services/images';
+import { addJournalEntry, updateJournalEntry } from './services/journal';
+import { analyzeLandmark, describeLandmark, getAnalysisSources } from './services/landmarkAnalysis';
+import { generateArtwork, DEFAULT_ART_STYLE } from './services/artwork';
+import { getTrail } from './services/montalbanoTrail';
+import { listRecentAnalyses, rememberAnalysis, useOnlineStatus, registerServiceWorker } from './services/offline';
+import { fetchTownOverview, getCachedTownOverview, prefetchTownOverview } from './services/townOverview';
 
-const API_KEY = process.env.API_KEY;
+const TABS: { id: string; icon: string; label: MessageKey }[] = [
+    { id: 'lens', icon: 'photo_camera', label: 'tabs.lens' },
+    { id: 'guide', icon: 'chat', label: 'tabs.guide' },
+    { id: 'translator', icon: 'translate', label: 'tabs.translator' },
+    { id: 'tours', icon: 'route', label: 'tabs.tours' },
+    { id: 'food', icon: 'restaurant', label: 'tabs.food' },
+    { id: 'montalbano', icon: 'movie', label: 'tabs.montalbano' },
+    { id: 'map', icon: 'map', label: 'tabs.map' },
+    { id: 'saved', icon: 'bookmarks', label: 'tabs.saved' },
+    { id: 'journal', icon: 'auto_stories', label: 'tabs.journal' },
+    { id: 'help', icon: 'help_outline', label: 'tabs.help' },
+];
 
-// --- Helper Functions for Audio ---
-function decode(base64) {
-    const binaryString = atob(base64);
-    const len = binaryString.length;
-    const bytes = new Uint8Array(len);
-    for (let i = 0; i < len; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
-    }
-    return bytes;
-}
-
-async function decodeAudioData(data, ctx, sampleRate, numChannels) {
-    const dataInt16 = new Int16Array(data.buffer);
-    const frameCount = dataInt16.length / numChannels;
-    const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-
-    for (let channel = 0; channel < numChannels; channel++) {
-        const channelData = buffer.getChannelData(channel);
-        for (let i = 0; i < frameCount; i++) {
-            channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-        }
-    }
-    return buffer;
-}
+// The Montalbano tab only shows up in towns with a curated trail.
+const getTabs = (destination) => TABS.filter(tab => tab.id !== 'montalbano' || getTrail(destination).length > 0);
 
+const prefersMoreContrast = () => window.matchMedia?.('(prefers-contrast: more)').matches ?? false;
 
 const App = () => {
+    const { t, language } = useTranslation();
+    const destination = useDestination();
     const [activeTab, setActiveTab] = useState('help');
-    const [location, setLocation] = useState(null);
-    const [locationError, setLocationError] = useState('');
+    const [reopenedPlace, setReopenedPlace] = useState(null);
+    const [nearbyLandmark, setNearbyLandmark] = useState(null);
+    const [focusedLandmarkId, setFocusedLandmarkId] = useState(null);
+    const [nearbyAlerts, setNearbyAlerts] = useSetting('nearbyAlerts', true);
+    const [spokenIntros, setSpokenIntros] = useSetting('spokenIntros', false);
+    const [highAccuracy, setHighAccuracy] = useSetting('highAccuracyGps', false);
+    const [highContrast, setHighContrast] = useSetting('highContrast', prefersMoreContrast());
+    const [largeText, setLargeText] = useSetting('largeText', false);
+    const [autoNarrate, setAutoNarrate] = useSetting('autoNarrate', false);
+    const geofenceRef = useRef(null);
+    if (geofenceRef.current?.destination !== destination) {
+        geofenceRef.current = { destination, engine: new GeofenceEngine(destination.landmarks) };
+    }
+    const isOnline = useOnlineStatus();
+    const tabs = getTabs(destination);
 
+    // Both scale from the root, so every rem-sized rule follows along.
     useEffect(() => {
-        if (navigator.geolocation) {
-            navigator.geolocation.getCurrentPosition(
-                (position) => {
-                    setLocation({
-                        latitude: position.coords.latitude,
-                        longitude: position.coords.longitude,
-                    });
-                    setLocationError('');
-                },
-                (error) => {
-                    switch (error.code) {
-                        case error.PERMISSION_DENIED:
-                            setLocationError("User denied the request for Geolocation.");
-                            break;
-                        case error.POSITION_UNAVAILABLE:
-                            setLocationError("Location information is unavailable.");
-                            break;
-                        case error.TIMEOUT:
-                            setLocationError("The request to get user location timed out.");
-                            break;
-                        default:
-                            setLocationError("An unknown error occurred.");
-                            break;
-                    }
-                }
-            );
-        } else {
-            setLocationError("Geolocation is not supported by this browser.");
+        document.documentElement.classList.toggle('high-contrast', highContrast);
+        document.documentElement.classList.toggle('large-text', largeText);
+    }, [highContrast, largeText]);
+
+    const handleFix = (fix) => {
+        if (!nearbyAlerts) return;
+        const [landmark] = geofenceRef.current.engine.update(fix);
+        if (landmark) {
+            setNearbyLandmark(landmark);
+            if (spokenIntros) {
+                speakLandmarkIntro(landmark);
+            }
         }
-    }, []);
+    };
+
+    const { location, error: locationError } = useLocationTracking({ highAccuracy, onFix: handleFix });
+
+    const openNearbyLandmark = (landmark) => {
+        setNearbyLandmark(null);
+        setFocusedLandmarkId(landmark.id);
+        setActiveTab('map');
+    };
+
+    const openSavedPlace = (place) => {
+        setReopenedPlace(place);
+        setActiveTab('lens');
+    };
+
+    // The Help tab's overview is fetched ahead of time for each town and language, so it's there once the connection drops.
+    useEffect(() => {
+        if (!isOnline) return;
+        const controller = new AbortController();
+        prefetchTownOverview(destination, controller.signal)
+            .catch(err => {
+                if (!isCancelled(err)) console.error("Failed to prefetch town info:", err);
+            });
+        return () => controller.abort();
+    }, [destination, language, isOnline]);
+
+    // A different town means different landmarks, so nothing from the last one should linger.
+    useEffect(() => {
+        setNearbyLandmark(null);
+        setFocusedLandmarkId(null);
+        setReopenedPlace(null);
+        document.title = `${t('app.title')} · ${destination.name}`;
+        if (!getTabs(destination).some(tab => tab.id === activeTab)) setActiveTab('help');
+    }, [destination]);
+
+    const changeTab = (tab) => {
+        setReopenedPlace(null);
+        setFocusedLandmarkId(null);
+        setActiveTab(tab);
+    };
 
     const renderContent = () => {
         switch (activeTab) {
             case 'lens':
-                return <MagicLens location={location} />;
+                return <MagicLens location={location} initialPlace={reopenedPlace} isOnline={isOnline} />;
             case 'guide':
-                return <LocalGuide location={location} />;
+                return <LocalGuide location={location} isOnline={isOnline} />;
             case 'translator':
-                return <Translator />;
+                return <Translator location={location} isOnline={isOnline} />;
+            case 'tours':
+                return <Tours location={location} isOnline={isOnline} />;
+            case 'food':
+                return <Food location={location} isOnline={isOnline} />;
+            case 'montalbano':
+                return <MontalbanoTrail location={location} isOnline={isOnline} />;
+            case 'map':
+                return <MapView location={location} isOnline={isOnline} focusedLandmarkId={focusedLandmarkId} />;
+            case 'saved':
+                return <MyScicli onOpen={openSavedPlace} />;
+            case 'journal':
+                return <Journal />;
             case 'help':
-                return <Help setActiveTab={setActiveTab} />;
+                return <Help setActiveTab={changeTab} isOnline={isOnline} />;
             default:
                 return null;
         }
@@ -85,287 +165,608 @@ const App = () => {
 
     return (
         <div>
+            <a className="skip-link" href="#tab-panel">{t('a11y.skipToContent')}</a>
             <header className="header">
-                <h1>Mimi‘s tour guide</h1>
-                <p>Your AI companion in the heart of Sicilian Baroque</p>
+                <h1>{t('app.title')}</h1>
+                <p>{t('app.tagline')}</p>
+                <div className="display-settings" role="group" aria-label={t('settings.display')}>
+                    <DestinationPicker />
+                    <LanguagePicker />
+                    <SettingToggle icon="contrast" offIcon="contrast" label={t('settings.highContrast')} checked={highContrast} onChange={setHighContrast} />
+                    <SettingToggle icon="text_increase" offIcon="text_fields" label={t('settings.largeText')} checked={largeText} onChange={setLargeText} />
+                    <SettingToggle icon="hearing" offIcon="hearing_disabled" label={t('settings.autoNarrate')} checked={autoNarrate} onChange={setAutoNarrate} />
+                </div>
             </header>
-            <LocationStatusBar location={location} error={locationError} />
-            <div className="tabs">
-                <button className={`tab-button ${activeTab === 'lens' ? 'active' : ''}`} onClick={() => setActiveTab('lens')}>
-                    <span className="material-icons" style={{ verticalAlign: 'middle', marginRight: '4px' }}>photo_camera</span>
-                    Magic Lens
-                </button>
-                <button className={`tab-button ${activeTab === 'guide' ? 'active' : ''}`} onClick={() => setActiveTab('guide')}>
-                    <span className="material-icons" style={{ verticalAlign: 'middle', marginRight: '4px' }}>chat</span>
-                    Local Guide
-                </button>
-                <button className={`tab-button ${activeTab === 'translator' ? 'active' : ''}`} onClick={() => setActiveTab('translator')}>
-                    <span className="material-icons" style={{ verticalAlign: 'middle', marginRight: '4px' }}>translate</span>
-                    Translator
-                </button>
-                 <button className={`tab-button ${activeTab === 'help' ? 'active' : ''}`} onClick={() => setActiveTab('help')}>
-                    <span className="material-icons" style={{ verticalAlign: 'middle', marginRight: '4px' }}>help_outline</span>
-                    Help
-                </button>
-            </div>
-            <main className="tab-content">
+            <LocationStatusBar location={location} error={locationError}>
+                <SettingToggle icon="notifications" offIcon="notifications_off" label={t('settings.nearbyAlerts')} checked={nearbyAlerts} onChange={setNearbyAlerts} />
+                <SettingToggle icon="record_voice_over" offIcon="voice_over_off" label={t('settings.spokenIntros')} checked={spokenIntros} onChange={setSpokenIntros} disabled={!nearbyAlerts} />
+                <SettingToggle icon="gps_fixed" offIcon="gps_not_fixed" label={t('settings.highAccuracy')} checked={highAccuracy} onChange={setHighAccuracy} />
+            </LocationStatusBar>
+            {!isOnline && <OfflineBanner />}
+            <TabList tabs={tabs} activeTab={activeTab} onSelect={changeTab} />
+            {/* Keyed by town so each tab starts over with the new town's landmarks, chats and prompts. */}
+            <main key={destination.id} className="tab-content" id="tab-panel" role="tabpanel" aria-labelledby={`tab-${activeTab}`} tabIndex={-1}>
                 {renderContent()}
             </main>
+            {nearbyLandmark && (
+                <NearbyToast landmark={nearbyLandmark} onOpen={openNearbyLandmark} onDismiss={() => setNearbyLandmark(null)} />
+            )}
+            <AudioPlayer />
+            <LiveRegion />
+        </div>
+    );
+};
+
+const speakLandmarkIntro = async (landmark) => {
+    const intro = t('nearby.spokenIntro', { name: landmark.name });
+    // The bundled summaries are in English, so in any other language the intro stops at the translated greeting.
+    const firstSentence = getUiLanguage().code === 'en' ? (landmark.summary.match(/^.*?[.!?](\s|$)/)?.[0] || landmark.summary) : '';
+    try {
+        // Queued so an intro never cuts off narration that's already playing.
+        await audioEngine.play({ text: `${intro} ${firstSentence}`.trim(), voice: 'Kore', label: landmark.name, mode: 'queue' });
+    } catch (err) {
+        console.error("Landmark intro failed:", err);
+    }
+};
+
+const NearbyToast = ({ landmark, onOpen, onDismiss }) => {
+    const { t } = useTranslation();
+    useEffect(() => {
+        const timeout = setTimeout(onDismiss, 20000);
+        return () => clearTimeout(timeout);
+    }, [landmark.id]);
+
+    return (
+        <div className="nearby-toast" role="status">
+            <span className="material-icons" aria-hidden="true">{LANDMARK_CATEGORIES[landmark.category].icon}</span>
+            <button type="button" className="nearby-toast-text" onClick={() => onOpen(landmark)}>
+                {renderInline(t('nearby.message', { name: landmark.name }))}
+            </button>
+            <button type="button" className="nearby-toast-close" onClick={onDismiss} title={t('nearby.dismiss')}>
+                <span className="material-icons" aria-hidden="true">close</span>
+            </button>
+        </div>
+    );
+};
+
+const SettingToggle = ({ icon, offIcon, label, checked, onChange, disabled = false }) => {
+    const { t } = useTranslation();
+    return (
+        <button
+            type="button"
+            className={`tracking-toggle ${checked && !disabled ? 'on' : ''}`}
+            onClick={() => onChange(!checked)}
+            disabled={disabled}
+            title={t(checked ? 'settings.on' : 'settings.off', { label })}
+            aria-label={label}
+            aria-pressed={checked}
+        >
+            <span className="material-icons" aria-hidden="true">{checked && !disabled ? icon : offIcon}</span>
+        </button>
+    );
+};
+
+const DestinationPicker = () => {
+    const { t } = useTranslation();
+    const destination = useDestination();
+    return (
+        <label className="language-picker">
+            <span className="material-icons" aria-hidden="true">place</span>
+            <select value={destination.id} onChange={(e) => setDestination(e.target.value)} aria-label={t('app.destination')}>
+                {DESTINATIONS.map(option => <option key={option.id} value={option.id}>{option.name}</option>)}
+            </select>
+        </label>
+    );
+};
+
+const LanguagePicker = () => {
+    const { t, language } = useTranslation();
+    return (
+        <label className="language-picker">
+            <span className="material-icons" aria-hidden="true">language</span>
+            <select value={language.code} onChange={(e) => setUiLanguage(e.target.value as typeof language.code)} aria-label={t('app.language')}>
+                {UI_LANGUAGES.map(lang => <option key={lang.code} value={lang.code}>{lang.nativeName}</option>)}
+            </select>
+        </label>
+    );
+};
+
+// Arrow keys, Home and End move between tabs; Enter or Space opens one, so passing over a tab doesn't
+// throw away the work in progress on the current one.
+const TabList = ({ tabs, activeTab, onSelect }) => {
+    const { t } = useTranslation();
+    const tabRefs = useRef<Record<string, HTMLButtonElement>>({});
+
+    const handleKeyDown = (e) => {
+        const current = tabs.findIndex(tab => tabRefs.current[tab.id] === document.activeElement);
+        const next = {
+            ArrowRight: (current + 1) % tabs.length,
+            ArrowLeft: (current - 1 + tabs.length) % tabs.length,
+            Home: 0,
+            End: tabs.length - 1,
+        }[e.key];
+        if (current === -1 || next === undefined) return;
+        e.preventDefault();
+        tabRefs.current[tabs[next].id]?.focus();
+    };
+
+    return (
+        <div className="tabs" role="tablist" aria-label={t('a11y.sections')} onKeyDown={handleKeyDown}>
+            {tabs.map(tab => (
+                <button
+                    key={tab.id}
+                    ref={el => { tabRefs.current[tab.id] = el; }}
+                    id={`tab-${tab.id}`}
+                    type="button"
+                    role="tab"
+                    aria-selected={activeTab === tab.id}
+                    aria-controls="tab-panel"
+                    tabIndex={activeTab === tab.id ? 0 : -1}
+                    className={`tab-button ${activeTab === tab.id ? 'active' : ''}`}
+                    onClick={() => onSelect(tab.id)}
+                >
+                    <span className="material-icons" aria-hidden="true" style={{ verticalAlign: 'middle', marginRight: '4px' }}>{tab.icon}</span>
+                    {t(tab.label)}
+                </button>
+            ))}
         </div>
     );
 };
 
-const LocationStatusBar = ({ location, error }) => {
+// The one polite live region that announce() speaks through.
+const LiveRegion = () => {
+    const announcement = useAnnouncement();
+    return <div className="visually-hidden" role="status" aria-live="polite" aria-atomic="true">{announcement}</div>;
+};
+
+const LocationStatusBar = ({ location, error, children = null }) => {
+    const { t } = useTranslation();
+    const settings = <span className="tracking-toggles" role="group" aria-label={t('settings.tracking')}>{children}</span>;
     if (error) {
-        return <div className="location-status-bar error"><span className="material-icons">location_off</span> {error}</div>;
+        return <div className="location-status-bar error"><span className="material-icons" aria-hidden="true">location_off</span> {t(error)}{settings}</div>;
     }
     if (location) {
-        return <div className="location-status-bar success"><span className="material-icons">location_on</span> Location available: {location.latitude.toFixed(4)}, {location.longitude.toFixed(4)}</div>;
+        const available = t('location.available', {
+            latitude: location.latitude.toFixed(4),
+            longitude: location.longitude.toFixed(4),
+            accuracy: Math.round(location.accuracy),
+        });
+        return <div className="location-status-bar success"><span className="material-icons" aria-hidden="true">location_on</span> {available}{settings}</div>;
     }
-    return <div className="location-status-bar"><span className="material-icons">location_searching</span> Fetching location...</div>;
+    return <div className="location-status-bar"><span className="material-icons" aria-hidden="true">location_searching</span> {t('location.fetching')}{settings}</div>;
 };
 
-const MagicLens = ({ location }) => {
-    const [image, setImage] = useState(null);
-    const [imagePreview, setImagePreview] = useState('');
-    const [analysis, setAnalysis] = useState(null);
+const OfflineBanner = () => {
+    const { t } = useTranslation();
+    return (
+        <div className="location-status-bar offline">
+            <span className="material-icons" aria-hidden="true">cloud_off</span> {t('offline.banner')}
+        </div>
+    );
+};
+
+// Up to this many angles of one building (façade, a detail, the interior) go into a single analysis.
+const MAX_LENS_PHOTOS = 4;
+
+// Only what the model needs; the ids and previews stay in the browser.
+const toInlineImages = (photos) => photos.map(({ mimeType, data }) => ({ mimeType, data }));
+
+const buildLensInstruction = () =>
+    `${personaInstruction()} The user has shown you photos of a landmark and you have already identified it. Answer their follow-up questions about it, looking back at the photos when useful. Keep answers concise and engaging. ${languageInstruction()}`;
+
+const MagicLens = ({ location, initialPlace = null, isOnline = true }) => {
+    const { t } = useTranslation();
+    const [photos, setPhotos] = useState([]);
+    const [imagePreview, setImagePreview] = useState(initialPlace?.thumbnail || '');
+    const [isCameraOpen, setIsCameraOpen] = useState(false);
+    const [isPreparing, setIsPreparing] = useState(false);
+    const [analysis, setAnalysis] = useState(initialPlace ? { text: initialPlace.text, sources: initialPlace.sources, details: initialPlace.analysis } : null);
+    const [followUpChat, setFollowUpChat] = useState(null);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState('');
-    const [selectedVoice, setSelectedVoice] = useState('Kore');
-    const [isBookmarked, setIsBookmarked] = useState(false);
-    const [stylizedImage, setStylizedImage] = useState('');
+    const [savedPlace, setSavedPlace] = useState(initialPlace);
+    const [isSaving, setIsSaving] = useState(false);
+    const [stylizedImage, setStylizedImage] = useState(initialPlace?.stylizedImage || '');
     const [isGeneratingStylizedImage, setIsGeneratingStylizedImage] = useState(false);
+    const [artworkError, setArtworkError] = useState('');
+    const [artStyle, setArtStyle] = useSetting('artStyle', DEFAULT_ART_STYLE);
+    // Resolves to this analysis's journal entry, so later artwork can be added to it.
+    const journalEntryRef = useRef(null);
+    const [recentAnalyses, setRecentAnalyses] = useState([]);
+    const nextAnalysisSignal = useRequestSignal();
+    const nextArtworkSignal = useRequestSignal();
 
+    useEffect(() => {
+        if (!isOnline) {
+            listRecentAnalyses()
+                .then(setRecentAnalyses)
+                .catch(err => console.error("Failed to load recent analyses:", err));
+        }
+    }, [isOnline]);
 
-    const ai = new GoogleGenAI({ apiKey: API_KEY });
-    const audioContextRef = useRef(null);
+    const resetAnalysis = () => {
+        setAnalysis(null);
+        setFollowUpChat(null);
+        setSavedPlace(null);
+        setStylizedImage('');
+        setArtworkError('');
+        journalEntryRef.current = null;
+    };
 
-    const availableVoices = ['Kore', 'Puck', 'Charon', 'Fenrir', 'Zephyr'];
+    const updatePhotos = (next) => {
+        setPhotos(next);
+        setImagePreview(next[0]?.dataUrl || '');
+        resetAnalysis();
+    };
 
-    const handleImageChange = (e) => {
-        const file = e.target.files[0];
-        if (file) {
-            const reader = new FileReader();
-            reader.onloadend = () => {
-                setImage(file);
-                if (typeof reader.result === 'string') {
-                    setImagePreview(reader.result);
-                }
-                setAnalysis(null);
-                setIsBookmarked(false);
-                setStylizedImage('');
-            };
-            reader.readAsDataURL(file);
+    const handleImageChange = async (e) => {
+        const files = Array.from(e.target.files as FileList).slice(0, MAX_LENS_PHOTOS - photos.length);
+        // Let the same photo be picked again after removing it.
+        e.target.value = '';
+        if (files.length === 0) return;
+        setIsPreparing(true);
+        setError('');
+        try {
+            const prepared = await Promise.all(files.map(file => prepareImage(file)));
+            updatePhotos([...photos, ...prepared]);
+        } catch (err) {
+            console.error("Failed to read photo:", err);
+            setError(t('lens.readError'));
+        } finally {
+            setIsPreparing(false);
+        }
+    };
+
+    const removePhoto = (id) => {
+        updatePhotos(photos.filter(photo => photo.id !== id));
+    };
+
+    // Manual captures add an angle; automatic ones look at whatever the camera points at now.
+    const handleCapture = (photo, isAuto) => {
+        if (isAuto) {
+            updatePhotos([photo]);
+            analyzeImages([photo], '', true);
+        } else if (photos.length < MAX_LENS_PHOTOS) {
+            updatePhotos([...photos, photo]);
         }
     };
 
-    const analyzeImage = async () => {
-        if (!image) {
-            setError('Please upload an image first.');
+    const analyzeImages = async (toAnalyze = photos, confirmedName = '', isAuto = false) => {
+        if (toAnalyze.length === 0) {
+            setError(t('lens.noPhotos'));
             return;
         }
+        const signal = nextAnalysisSignal();
         setIsLoading(true);
         setError('');
-        setAnalysis(null);
-        setIsBookmarked(false);
-        setStylizedImage('');
+        resetAnalysis();
 
-        const reader = new FileReader();
-        reader.readAsDataURL(image);
-        reader.onload = async () => {
-            if (typeof reader.result !== 'string') {
-                setError('Failed to read image data.');
-                setIsLoading(false);
-                return;
+        try {
+            const details = await analyzeLandmark({ images: toInlineImages(toAnalyze), location, confirmedName, signal });
+            const result = { text: describeLandmark(details), sources: getAnalysisSources(details), details };
+            setAnalysis(result);
+            setIsLoading(false);
+            announce(t('a11y.analysisReady', { name: details.name }));
+            // Read at the moment of use, since the switch lives in the App header rather than here.
+            if (readSetting('autoNarrate', false)) {
+                audioEngine.play({ text: result.text, voice: 'Kore', label: details.name })
+                    .catch(err => console.error("Auto-narration failed:", err));
             }
-            const base64Data = reader.result.split(',')[1];
-            const imagePart = {
-                inlineData: {
-                    mimeType: image.type,
-                    data: base64Data
-                },
-            };
-            
-            const locationPrompt = location ? `The user is currently at latitude: ${location.latitude}, longitude: ${location.longitude}. Use this information to provide more relevant details if applicable.` : '';
-            const prompt = `Based on this image of a place in Scicli, Italy, act as a tour guide named Mimi. Identify the landmark and use search to provide its history, architectural style, and cultural significance. If it's a filming location for Inspector Montalbano, mention that. ${locationPrompt}`;
-
-            try {
-                const response = await ai.models.generateContent({
-                    model: 'gemini-2.5-flash',
-                    contents: { parts: [imagePart, { text: prompt }] },
-                    config: { tools: [{ googleSearch: {} }] },
-                });
-                setAnalysis(response);
-                setIsLoading(false);
-
-                // Now, generate the stylized image
-                setIsGeneratingStylizedImage(true);
-                try {
-                    const imageGenPrompt = `Generate a beautiful, artistic, stylized watercolor illustration of the landmark described here: ${response.text}`;
-                    const imageResponse = await ai.models.generateContent({
-                        model: 'gemini-2.5-flash-image',
-                        contents: { parts: [{ text: imageGenPrompt }] },
-                        config: {
-                            responseModalities: [Modality.IMAGE],
-                        },
-                    });
-
-                    for (const part of imageResponse.candidates[0].content.parts) {
-                        if (part.inlineData) {
-                            const base64ImageBytes = part.inlineData.data;
-                            const imageUrl = `data:image/png;base64,${base64ImageBytes}`;
-                            setStylizedImage(imageUrl);
-                            break;
-                        }
-                    }
-                } catch (imgErr) {
-                    console.error("Stylized image generation failed:", imgErr);
-                    // Don't show a user-facing error for this bonus feature, just log it.
-                } finally {
-                    setIsGeneratingStylizedImage(false);
-                }
-            } catch (err) {
-                console.error(err);
-                setError('Failed to analyze the image. Please try again.');
-                setIsLoading(false);
+            // A shaky identification waits for the user to confirm it before anything is built on top of it.
+            if (details.confidence !== 'low') {
+                completeAnalysis(result, toAnalyze, isAuto);
             }
-        };
+        } catch (err) {
+            if (isCancelled(err)) return;
+            console.error(err);
+            setError(`${t('lens.analyzeError')} ${describeError(err, t('lens.analyzeHint'))}`);
+            setIsLoading(false);
+        }
     };
-    
-    const playNarration = async () => {
-        if (!analysis || !analysis.text) return;
-        setIsLoading(true);
-        setError('');
-        try {
-            const ttsResponse = await ai.models.generateContent({
-                model: "gemini-2.5-flash-preview-tts",
-                contents: [{ parts: [{ text: analysis.text }] }],
-                config: {
-                    responseModalities: [Modality.AUDIO],
-                    speechConfig: {
-                        voiceConfig: { prebuiltVoiceConfig: { voiceName: selectedVoice } },
-                    },
-                },
+
+    const completeAnalysis = async (result, analyzedPhotos, isAuto = false) => {
+        setFollowUpChat(ai.createChat({
+            systemInstruction: buildLensInstruction(),
+            useSearch: true,
+            history: [
+                { role: 'user', text: `Which landmark in ${getDestination().name} is this?`, images: toInlineImages(analyzedPhotos) },
+                { role: 'model', text: result.text },
+            ],
+        }));
+        // Auto-capture frames come every few seconds, often of the same view. They only identify what's in front of the
+        // camera; the journal, recent analyses and artwork wait for a photo the user took, or a tap on "Regenerate".
+        if (isAuto) return;
+        const thumbnail = createThumbnail(analyzedPhotos[0].dataUrl);
+        thumbnail
+            .then(photo => rememberAnalysis({ thumbnail: photo, text: result.text, sources: result.sources, analysis: result.details, location }))
+            .catch(err => console.error("Failed to keep analysis for offline use:", err));
+        journalEntryRef.current = thumbnail
+            .then(photo => addJournalEntry({ kind: 'analysis', title: result.details.name, text: result.text, photo, sources: result.sources, location }))
+            .catch(err => {
+                console.error("Failed to add analysis to the journal:", err);
+                return null;
             });
 
-            if (!audioContextRef.current) {
-                audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+        // Now, generate the stylized image
+        const signal = nextArtworkSignal();
+        setIsGeneratingStylizedImage(true);
+        try {
+            const imageUrl = await generateArtwork({ landmarkName: result.details.name, details: result.details, styleId: artStyle, photo: toInlineImages(analyzedPhotos)[0], signal });
+            if (imageUrl) {
+                handleArtworkChange(imageUrl);
+            } else {
+                setArtworkError(t('lens.artworkEmpty'));
             }
-            const audioContext = audioContextRef.current;
-            const outputNode = audioContext.createGain();
-            outputNode.connect(audioContext.destination);
-
-            const base64Audio = ttsResponse.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-            if (base64Audio) {
-                const audioBuffer = await decodeAudioData(decode(base64Audio), audioContext, 24000, 1);
-                const source = audioContext.createBufferSource();
-                source.buffer = audioBuffer;
-                source.connect(outputNode);
-                source.start();
+        } catch (imgErr) {
+            if (isCancelled(imgErr)) return;
+            console.error("Stylized image generation failed:", imgErr);
+            // The analysis is still good, so this only shows inside the artwork panel.
+            setArtworkError(`${t('lens.artworkError')} ${describeError(imgErr, t('lens.artworkHint'))}`);
+        } finally {
+            if (!signal.aborted) setIsGeneratingStylizedImage(false);
+        }
+    };
+
+    const handleArtworkChange = (imageUrl) => {
+        setStylizedImage(imageUrl);
+        setArtworkError('');
+        journalEntryRef.current?.then(entry => entry && updateJournalEntry({ ...entry, artwork: imageUrl }))
+            .catch(err => console.error("Failed to add artwork to the journal:", err));
+    };
+
+    const confirmIdentification = (name) => {
+        if (name !== analysis.details.name) {
+            analyzeImages(photos, name);
+            return;
+        }
+        const result = { ...analysis, details: { ...analysis.details, confidence: 'high', alternatives: [] } };
+        setAnalysis(result);
+        completeAnalysis(result, photos);
+    };
+    
+    const openRecentAnalysis = (recent) => {
+        setPhotos([]);
+        setImagePreview(recent.thumbnail);
+        resetAnalysis();
+        setAnalysis({ text: recent.text, sources: recent.sources, details: recent.analysis });
+        setError('');
+    };
+
+    // The watercolor usually arrives after the user has already starred the place.
+    useEffect(() => {
+        if (savedPlace && stylizedImage && savedPlace.stylizedImage !== stylizedImage) {
+            const updated = { ...savedPlace, stylizedImage };
+            setSavedPlace(updated);
+            updateSavedPlace(updated).catch(err => console.error("Failed to update saved place:", err));
+        }
+    }, [stylizedImage, savedPlace]);
+
+    const toggleBookmark = async () => {
+        if (!analysis || isSaving) return;
+        setIsSaving(true);
+        try {
+            if (savedPlace) {
+                await deleteSavedPlace(savedPlace.id);
+                setSavedPlace(null);
+            } else {
+                const saved = await savePlace({
+                    thumbnail: imagePreview ? await createThumbnail(imagePreview) : '',
+                    text: analysis.text,
+                    sources: analysis.sources,
+                    analysis: analysis.details,
+                    stylizedImage,
+                    location,
+                });
+                setSavedPlace(saved);
             }
         } catch (err) {
-            console.error("TTS Error:", err);
-            setError("Sorry, could not generate audio at this time.");
+            console.error("Bookmark Error:", err);
+            setError(t('lens.saveError'));
         } finally {
-            setIsLoading(false);
+            setIsSaving(false);
         }
     };
 
     return (
         <div className="card">
-            <p>Upload a photo of a landmark in Scicli, and Mimi will tell you all about it!</p>
-            <label htmlFor="image-upload" className="button file-upload-label">
-                <span className="material-icons">upload_file</span>
-                Choose an Image
+            <p>{t('lens.intro', { count: MAX_LENS_PHOTOS })}</p>
+            <label htmlFor="image-upload" className={`button file-upload-label ${photos.length >= MAX_LENS_PHOTOS ? 'disabled' : ''}`}>
+                <span className="material-icons" aria-hidden="true">upload_file</span>
+                {photos.length ? t('lens.addPhotos') : t('lens.choosePhotos')}
             </label>
-            <input id="image-upload" type="file" accept="image/*" onChange={handleImageChange} />
-            <button onClick={analyzeImage} disabled={isLoading || !image} style={{ marginLeft: '10px' }}>
-                <span className="material-icons">auto_awesome</span>
-                Analyze
+            <input id="image-upload" type="file" accept="image/*" multiple onChange={handleImageChange} disabled={photos.length >= MAX_LENS_PHOTOS} />
+            <button onClick={() => setIsCameraOpen(!isCameraOpen)} disabled={!isOnline} style={{ marginLeft: '10px' }}>
+                <span className="material-icons" aria-hidden="true">{isCameraOpen ? 'videocam_off' : 'videocam'}</span>
+                {isCameraOpen ? t('lens.closeCamera') : t('lens.useCamera')}
+            </button>
+            <button onClick={() => analyzeImages()} disabled={isLoading || isPreparing || photos.length === 0 || !isOnline} style={{ marginLeft: '10px' }}>
+                <span className="material-icons" aria-hidden="true">auto_awesome</span>
+                {t('lens.analyze')}
             </button>
 
-            {imagePreview && <img src={imagePreview} alt="Preview" className="image-preview" />}
-            {isLoading && !analysis && <div className="loader"><div className="dot-flashing"></div></div>}
-            {error && <p style={{ color: 'red' }}>{error}</p>}
+            {isCameraOpen && isOnline && (
+                <Viewfinder onCapture={handleCapture} onClose={() => setIsCameraOpen(false)} disabled={isLoading} />
+            )}
+            {!isOnline && (
+                <div className="offline-notice">
+                    <p>{t('lens.offline')}</p>
+                    {recentAnalyses.length === 0 && <p className="saved-places-empty">{t('lens.noRecent')}</p>}
+                    <ul className="saved-places-list">
+                        {recentAnalyses.map(recent => (
+                            <li key={recent.id} className="saved-place">
+                                {recent.thumbnail && <img src={recent.thumbnail} alt="" className="saved-place-thumbnail" />}
+                                <div className="saved-place-details">
+                                    <p className="saved-place-excerpt">{recent.text}</p>
+                                    <p className="saved-place-meta">{new Date(recent.createdAt).toLocaleString()}</p>
+                                </div>
+                                <div className="saved-place-actions">
+                                    <button className="button" onClick={() => openRecentAnalysis(recent)} title={t('saved.open')} aria-label={t('saved.open')}>
+                                        <span className="material-icons" aria-hidden="true">open_in_new</span>
+                                    </button>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+            {photos.length > 1 ? (
+                <div className="lens-photos">
+                    {photos.map((photo, i) => (
+                        <div key={photo.id} className="lens-photo">
+                            <img src={photo.dataUrl} alt={t('lens.photo', { number: i + 1 })} />
+                            <button onClick={() => removePhoto(photo.id)} disabled={isLoading} aria-label={t('lens.removePhoto', { number: i + 1 })}>
+                                <span className="material-icons" aria-hidden="true">close</span>
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            ) : (
+                imagePreview && <img src={imagePreview} alt={t('lens.preview')} className="image-preview" />
+            )}
+            {(isLoading || isPreparing) && !analysis && <Loader label={isLoading ? t('lens.analyzing') : ''} />}
+            {error && <p role="alert" style={{ color: 'red' }}>{error}</p>}
             
             {analysis && (
-                <div className="result-container">
-                    <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
-                         <h3>Mimi's Analysis</h3>
-                         <span className="material-icons" onClick={() => setIsBookmarked(!isBookmarked)} style={{cursor: 'pointer', color: isBookmarked ? 'gold' : 'grey'}}>
-                            {isBookmarked ? 'star' : 'star_border'}
-                        </span>
-                    </div>
-
-                    <p>{analysis.text}</p>
-                    
-                    <div className="narration-controls">
-                        <button onClick={playNarration} disabled={isLoading}>
-                            <span className="material-icons">volume_up</span>
-                            Read Aloud
+                <AnalysisCard
+                    text={analysis.text}
+                    sources={analysis.sources}
+                    isOnline={isOnline}
+                    body={analysis.details && (
+                        <LandmarkDetails analysis={analysis.details} onConfirm={photos.length ? confirmIdentification : null} disabled={isLoading} />
+                    )}
+                    headerAction={
+                        <button
+                            type="button"
+                            className={`bookmark-button ${savedPlace ? 'saved' : ''}`}
+                            onClick={toggleBookmark}
+                            aria-busy={isSaving}
+                            aria-pressed={Boolean(savedPlace)}
+                            aria-label={t('lens.save')}
+                            title={savedPlace ? t('lens.unsave') : t('lens.save')}
+                            style={{ cursor: isSaving ? 'wait' : 'pointer' }}
+                        >
+                            <span className="material-icons" aria-hidden="true">{savedPlace ? 'star' : 'star_border'}</span>
                         </button>
-                         <div className="voice-radio-group">
-                            <span className="voice-label">Voice:</span>
-                            {availableVoices.map(voice => (
-                                <div key={voice} className="voice-radio-option">
-                                    <input
-                                        type="radio"
-                                        id={`voice-${voice}`}
-                                        name="voice"
-                                        value={voice}
-                                        checked={selectedVoice === voice}
-                                        onChange={() => setSelectedVoice(voice)}
-                                    />
-                                    <label htmlFor={`voice-${voice}`}>{voice}</label>
-                                </div>
-                            ))}
-                        </div>
-                    </div>
-
-                    <div className="stylized-image-container">
-                        <h3>Mimi's Artistic Impression</h3>
-                        {isGeneratingStylizedImage && <div className="loader"><div className="dot-flashing"></div></div>}
-                        {stylizedImage && <img src={stylizedImage} alt="Stylized version of the landmark" className="image-preview" />}
-                    </div>
-
-                    {analysis.candidates?.[0]?.groundingMetadata?.groundingChunks?.length > 0 && (
-                        <div className="grounding-sources">
-                            <h3>Sources:</h3>
-                            {analysis.candidates[0].groundingMetadata.groundingChunks.map((chunk, index) => (
-                                chunk.web && <a key={index} href={chunk.web.uri} target="_blank" rel="noopener noreferrer">{chunk.web.title}</a>
-                            ))}
-                        </div>
+                    }
+                >
+                    {analysis.details?.confidence !== 'low' && (
+                        <ArtisticImpression
+                            landmarkName={analysis.details?.name || t('lens.thisLandmark')}
+                            details={analysis.details}
+                            image={stylizedImage}
+                            photo={toInlineImages(photos)[0] || null}
+                            styleId={artStyle}
+                            onStyleChange={setArtStyle}
+                            onImageChange={handleArtworkChange}
+                            isGenerating={isGeneratingStylizedImage}
+                            generationError={artworkError}
+                            isOnline={isOnline}
+                        />
                     )}
-                </div>
+                </AnalysisCard>
             )}
+            {followUpChat && <FollowUpQuestions chat={followUpChat} isOnline={isOnline} />}
         </div>
     );
 };
 
-const LocalGuide = ({ location }) => {
+const buildGuideInstruction = (location) => {
+    let systemInstruction = `${personaInstruction()} Answer questions about the town's history, culture, food and the things visitors come for. Keep your answers concise and engaging.`;
+    if (location) {
+        systemInstruction += ` The user is currently at latitude: ${location.latitude}, longitude: ${location.longitude}. Use this to provide location-aware suggestions for things to see, do, or eat nearby.`;
+    }
+    return `${systemInstruction} ${languageInstruction()}`;
+};
+
+const buildLiveInstruction = (location) =>
+    `${buildGuideInstruction(location)} You are talking out loud, so answer in a few short spoken sentences without lists or formatting.`;
+
+const LocalGuide = ({ location, isOnline = true }) => {
+    const { t, language } = useTranslation();
     const [chat, setChat] = useState(null);
+    const [conversations, setConversations] = useState([]);
+    const [conversation, setConversation] = useState(null);
     const [messages, setMessages] = useState([]);
     const [userInput, setUserInput] = useState('');
     const [isLoading, setIsLoading] = useState(false);
     const [isRecording, setIsRecording] = useState(false);
+    const [isLiveVoice, setIsLiveVoice] = useState(false);
+    const [journaledIds, setJournaledIds] = useState(new Set());
     const recognitionRef = useRef(null);
     const chatWindowRef = useRef(null);
-    const ai = new GoogleGenAI({ apiKey: API_KEY });
+    const abortControllerRef = useRef(null);
+    const locationRef = useRef(location);
+    const hasUnsavedChangesRef = useRef(false);
+    const sendMessageRef = useRef(null);
+    const conversationRef = useRef(conversation);
+    const messagesRef = useRef(messages);
+    conversationRef.current = conversation;
+    messagesRef.current = messages;
+
+    // Stop any reply still streaming when the user leaves the tab. The save effect won't get another
+    // chance to run, so keep the question and whatever of the answer had arrived.
+    useEffect(() => () => {
+        abortControllerRef.current?.abort();
+        if (!hasUnsavedChangesRef.current || !conversationRef.current) return;
+        const saved = messagesRef.current.map(msg => msg.status === 'streaming' ? { ...msg, status: 'cancelled' } : msg);
+        saveConversation({ ...conversationRef.current, title: getConversationTitle(saved), updatedAt: Date.now(), messages: saved })
+            .catch(err => console.error("Failed to save conversation:", err));
+    }, []);
+
+    useEffect(() => {
+        listConversations()
+            .then(saved => {
+                setConversations(saved);
+                openConversation(saved[0] || createConversation());
+            })
+            .catch(err => {
+                console.error("Failed to load conversations:", err);
+                openConversation(createConversation());
+            });
+    }, []);
+
+    // A fresh chat session per conversation, primed with whatever was said before.
+    useEffect(() => {
+        if (!conversation) return;
+        setChat(ai.createChat({
+            systemInstruction: buildGuideInstruction(locationRef.current),
+            useSearch: true,
+            history: toChatHistory(conversation.messages),
+        }));
+    }, [conversation?.id]);
+
+    // Moving around or switching language shouldn't wipe the conversation, just tell Mimi what changed.
+    useEffect(() => {
+        locationRef.current = location;
+        chat?.setSystemInstruction(buildGuideInstruction(location));
+    }, [location, chat, language]);
 
     useEffect(() => {
-        let systemInstruction = "You are Mimi, a friendly and knowledgeable tour guide for Scicli, Sicily, Italy. Answer questions about the town's history, culture, food, and filming locations for Inspector Montalbano. Keep your answers concise and engaging.";
-        if (location) {
-            systemInstruction += ` The user is currently at latitude: ${location.latitude}, longitude: ${location.longitude}. Use this to provide location-aware suggestions for things to see, do, or eat nearby.`;
+        if (isLoading || !hasUnsavedChangesRef.current || !conversation) return;
+        hasUnsavedChangesRef.current = false;
+        const updated = { ...conversation, title: getConversationTitle(messages), updatedAt: Date.now(), messages };
+        setConversation(updated);
+        setConversations(prev => [updated, ...prev.filter(c => c.id !== updated.id)]);
+        saveConversation(updated).catch(err => console.error("Failed to save conversation:", err));
+    }, [messages, isLoading]);
+
+    const openConversation = (next) => {
+        abortControllerRef.current?.abort();
+        setConversation(next);
+        setMessages(next.messages);
+    };
+
+    const handleDeleteConversation = async () => {
+        if (!conversation) return;
+        const remaining = conversations.filter(c => c.id !== conversation.id);
+        try {
+            await deleteConversation(conversation.id);
+        } catch (err) {
+            console.error("Failed to delete conversation:", err);
         }
-        const newChat = ai.chats.create({
-            model: 'gemini-2.5-flash',
-            config: {
-                systemInstruction: systemInstruction,
-                tools: [{ googleSearch: {} }],
-            },
-        });
-        setChat(newChat);
-    }, [location]);
+        setConversations(remaining);
+        openConversation(remaining[0] || createConversation());
+    };
 
     useEffect(() => {
         if (chatWindowRef.current) {
@@ -379,40 +780,99 @@ const LocalGuide = ({ location }) => {
             recognitionRef.current = new SpeechRecognition();
             recognitionRef.current.continuous = false;
             recognitionRef.current.interimResults = false;
-            recognitionRef.current.lang = 'en-US';
+            recognitionRef.current.lang = getUiSpeechCode();
             recognitionRef.current.onresult = (event) => {
                 const transcript = event.results[0][0].transcript;
                 setUserInput(transcript);
-                handleSendMessage(null, transcript);
+                sendMessageRef.current(null, transcript);
             };
             recognitionRef.current.onend = () => {
                 setIsRecording(false);
             };
         }
-    }, []);
+    }, [language]);
 
     const handleSendMessage = async (e, text = userInput) => {
         if (e) e.preventDefault();
         if (!text.trim() || !chat) return;
 
-        const userMessage = { role: 'user', text };
-        setMessages(prev => [...prev, userMessage]);
+        const userMessage = { id: crypto.randomUUID(), role: 'user', text };
+        const modelMessageId = crypto.randomUUID();
+        setMessages(prev => [...prev, userMessage, { id: modelMessageId, role: 'model', text: '', status: 'streaming' }]);
         setUserInput('');
         setIsLoading(true);
+        hasUnsavedChangesRef.current = true;
 
+        const updateModelMessage = (update) => {
+            setMessages(prev => prev.map(msg => msg.id === modelMessageId ? { ...msg, ...update(msg) } : msg));
+        };
+
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        let receivedText = '';
         try {
-            const response = await chat.sendMessage({ message: text });
-            const modelMessage = { role: 'model', text: response.text };
-            setMessages(prev => [...prev, modelMessage]);
+            for await (const chunk of chat.sendMessageStream(text, { signal: controller.signal })) {
+                receivedText += chunk.text;
+                updateModelMessage((msg) => ({
+                    text: receivedText,
+                    sources: [...(msg.sources || []), ...chunk.sources.filter(source => !msg.sources?.some(s => s.uri === source.uri))],
+                }));
+            }
+            updateModelMessage(() => ({ status: 'done' }));
         } catch (error) {
-            console.error(error);
-            const errorMessage = { role: 'model', text: "Sorry, I'm having trouble connecting. Please try again." };
-            setMessages(prev => [...prev, errorMessage]);
+            if (controller.signal.aborted) {
+                updateModelMessage(() => ({ status: 'cancelled' }));
+            } else {
+                console.error(error);
+                // Keep whatever arrived before the connection dropped, but make clear it's incomplete.
+                updateModelMessage(() => receivedText
+                    ? { status: 'interrupted' }
+                    : { text: `${t('guide.answerError')} ${describeError(error)}`, status: 'error' });
+            }
         } finally {
+            abortControllerRef.current = null;
             setIsLoading(false);
         }
     };
 
+    sendMessageRef.current = handleSendMessage;
+
+    const handleCancelReply = () => {
+        abortControllerRef.current?.abort();
+    };
+
+    const addReplyToJournal = async (index) => {
+        const reply = messages[index];
+        const question = messages[index - 1];
+        try {
+            await addJournalEntry({
+                kind: 'chat',
+                title: question?.role === 'user' ? question.text : t('tabs.guide'),
+                text: reply.text,
+                sources: reply.sources || [],
+                location: locationRef.current,
+            });
+            setJournaledIds(prev => new Set(prev).add(reply.id));
+        } catch (err) {
+            console.error("Failed to add reply to the journal:", err);
+        }
+    };
+
+    // The spoken exchange joins the written conversation, and the chat is re-primed so Mimi remembers it.
+    const handleLiveVoiceExit = (turns) => {
+        setIsLiveVoice(false);
+        if (turns.length === 0) return;
+        const spoken = turns.map(turn => ({ id: turn.id, role: turn.role, text: turn.text, status: 'done' }));
+        const updated = [...messages, ...spoken];
+        hasUnsavedChangesRef.current = true;
+        setMessages(updated);
+        setChat(ai.createChat({
+            systemInstruction: buildGuideInstruction(locationRef.current),
+            useSearch: true,
+            history: toChatHistory(updated),
+        }));
+    };
+
     const handleVoiceInput = () => {
         if (isRecording) {
             recognitionRef.current?.stop();
@@ -424,50 +884,121 @@ const LocalGuide = ({ location }) => {
 
     return (
         <div className="card">
-            <div className="chat-window" ref={chatWindowRef}>
+            <div className="conversation-bar">
+                <select
+                    className="voice-selector conversation-selector"
+                    value={conversation?.id || ''}
+                    onChange={(e) => openConversation(conversations.find(c => c.id === e.target.value))}
+                    disabled={isLoading || isLiveVoice}
+                    aria-label={t('guide.conversations')}
+                >
+                    {conversation && !conversations.some(c => c.id === conversation.id) && (
+                        <option value={conversation.id}>{t('guide.newConversation')}</option>
+                    )}
+                    {conversations.map(c => (
+                        <option key={c.id} value={c.id}>{c.title || t('guide.untitled')} · {new Date(c.updatedAt).toLocaleDateString()}</option>
+                    ))}
+                </select>
+                <button type="button" className="button" onClick={() => openConversation(createConversation())} disabled={isLoading || isLiveVoice || messages.length === 0} title={t('guide.newConversation')}>
+                    <span className="material-icons" aria-hidden="true">add_comment</span>
+                </button>
+                <button type="button" className="button" onClick={handleDeleteConversation} disabled={isLoading || isLiveVoice || messages.length === 0} title={t('guide.deleteConversation')}>
+                    <span className="material-icons" aria-hidden="true">delete</span>
+                </button>
+                <button type="button" className="button" onClick={() => setIsLiveVoice(true)} disabled={isLoading || isLiveVoice || !isOnline} title={t('guide.talk')}>
+                    <span className="material-icons" aria-hidden="true">record_voice_over</span>
+                </button>
+            </div>
+            <div className="chat-window" ref={chatWindowRef} role="log" aria-live="polite" aria-label={t('guide.chatLog')}>
                 {messages.map((msg, index) => (
-                    <div key={index} className={`chat-message ${msg.role === 'user' ? 'user-message' : 'model-message'}`}>
-                        {msg.text}
-                    </div>
+                    (msg.text || msg.status !== 'streaming') && (
+                        <div key={msg.id} className={`chat-message ${msg.role === 'user' ? 'user-message' : 'model-message'}`} aria-busy={msg.status === 'streaming'}>
+                            {msg.role === 'model'
+                                ? <Markdown text={msg.text} onPlaceSelect={isLoading ? null : (name) => handleSendMessage(null, t('guide.tellMeMore', { name }))} />
+                                : msg.text}
+                            {msg.sources?.length > 0 && (
+                                <div className="message-sources">
+                                    <span className="material-icons" aria-hidden="true">link</span>
+                                    {msg.sources.map((source) => (
+                                        <a key={source.uri} href={source.uri} target="_blank" rel="noopener noreferrer">{source.title}</a>
+                                    ))}
+                                </div>
+                            )}
+                            {msg.status === 'cancelled' && <span className="message-status">{t('guide.stopped')}</span>}
+                            {msg.status === 'interrupted' && <span className="message-status error">{t('guide.interrupted')}</span>}
+                        {msg.role === 'model' && msg.status === 'done' && msg.text && (
+                            <button
+                                type="button"
+                                className="journal-button"
+                                onClick={() => addReplyToJournal(index)}
+                                disabled={journaledIds.has(msg.id)}
+                                title={journaledIds.has(msg.id) ? t('guide.inJournal') : t('guide.addToJournal')}
+                            >
+                                <span className="material-icons" aria-hidden="true">{journaledIds.has(msg.id) ? 'bookmark_added' : 'book'}</span>
+                            </button>
+                        )}
+                        </div>
+                    )
                 ))}
-                {isLoading && <div className="loader"><div className="dot-flashing"></div></div>}
+                {isLoading && !messages[messages.length - 1]?.text && <Loader label={t('guide.thinking')} />}
             </div>
-            <form className="chat-input-form" onSubmit={handleSendMessage}>
-                <input
-                    type="text"
-                    className="chat-input"
-                    value={userInput}
-                    onChange={(e) => setUserInput(e.target.value)}
-                    placeholder="Ask Mimi anything about Scicli..."
-                    disabled={isLoading}
-                />
-                 <button type="button" onClick={handleVoiceInput} className={`button voice-button ${isRecording ? 'recording' : ''}`} disabled={!recognitionRef.current}>
-                    <span className="material-icons">{isRecording ? 'mic_off' : 'mic'}</span>
-                </button>
-                <button type="submit" className="button" disabled={isLoading || !userInput.trim()}>
-                    <span className="material-icons">send</span>
-                </button>
-            </form>
+            {!isOnline && (
+                <p className="offline-notice">{t('guide.offline')}</p>
+            )}
+            {isLiveVoice ? (
+                <LiveVoice systemInstruction={buildLiveInstruction(location)} onExit={handleLiveVoiceExit} />
+            ) : (
+                <form className="chat-input-form" onSubmit={handleSendMessage}>
+                    <input
+                        type="text"
+                        className="chat-input"
+                        value={userInput}
+                        onChange={(e) => setUserInput(e.target.value)}
+                        placeholder={t('guide.placeholder')}
+                        aria-label={t('guide.placeholder')}
+                        disabled={isLoading || !isOnline}
+                    />
+                     <button type="button" onClick={handleVoiceInput} className={`button voice-button ${isRecording ? 'recording' : ''}`} disabled={!recognitionRef.current} aria-label={isRecording ? t('guide.stopListening') : t('guide.speak')}>
+                        <span className="material-icons" aria-hidden="true">{isRecording ? 'mic_off' : 'mic'}</span>
+                    </button>
+                    {isLoading ? (
+                        <button type="button" onClick={handleCancelReply} className="button" title={t('guide.stopReply')} aria-label={t('guide.stopReply')}>
+                            <span className="material-icons" aria-hidden="true">stop</span>
+                        </button>
+                    ) : (
+                        <button type="submit" className="button" disabled={!userInput.trim() || !isOnline} aria-label={t('guide.send')}>
+                            <span className="material-icons" aria-hidden="true">send</span>
+                        </button>
+                    )}
+                </form>
+            )}
         </div>
     );
 };
 
-const Translator = () => {
+const Translator = ({ location = null, isOnline = true }) => {
+    const { t } = useTranslation();
     const [sourceText, setSourceText] = useState('');
     const [translatedText, setTranslatedText] = useState('');
+    const [journaledText, setJournaledText] = useState('');
     const [sourceLang, setSourceLang] = useState('English');
-    const [targetLang, setTargetLang] = useState('Italian');
+    const [targetLang, setTargetLang] = useState(() => getDestination().defaultLanguages[0]);
+    const [detectedLang, setDetectedLang] = useState('');
     const [isLoading, setIsLoading] = useState(false);
     const [selectedVoice, setSelectedVoice] = useState('Kore');
     const [context, setContext] = useState('');
     const [autoTranslate, setAutoTranslate] = useState(false);
     const [isRecording, setIsRecording] = useState(false);
     
+    const [isConversationMode, setIsConversationMode] = useState(false);
+    const [photo, setPhoto] = useState(null);
+    const [isPhrasebookOpen, setIsPhrasebookOpen] = useState(false);
+    const [error, setError] = useState('');
+    const [audioError, setAudioError] = useState('');
+    const nextSignal = useRequestSignal();
+
     const recognitionRef = useRef(null);
-    const audioContextRef = useRef(null);
     const debounceTimeoutRef = useRef(null);
-    const ai = new GoogleGenAI({ apiKey: API_KEY });
-    const availableVoices = ['Kore', 'Puck', 'Charon', 'Fenrir', 'Zephyr'];
 
     useEffect(() => {
         const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
@@ -475,7 +1006,7 @@ const Translator = () => {
             recognitionRef.current = new SpeechRecognition();
             recognitionRef.current.continuous = false;
             recognitionRef.current.interimResults = false;
-            recognitionRef.current.lang = sourceLang === 'English' ? 'en-US' : 'it-IT';
+            recognitionRef.current.lang = getSpeechCode(sourceLang === AUTO_DETECT ? detectedLang : sourceLang);
             recognitionRef.current.onresult = (event) => {
                 const transcript = event.results[0][0].transcript;
                 setSourceText(transcript);
@@ -485,28 +1016,31 @@ const Translator = () => {
             };
             recognitionRef.current.onend = () => setIsRecording(false);
         }
-    }, [sourceLang, autoTranslate]);
+    }, [sourceLang, detectedLang, autoTranslate]);
 
 
     const translateText = async (textToTranslate = sourceText) => {
         if (!textToTranslate.trim()) return;
+        // Typing on with auto-translate supersedes the translation still on its way.
+        const signal = nextSignal();
         setIsLoading(true);
         setTranslatedText('');
-
-        const contextPrompt = context ? ` Provide the translation in the context of: "${context}".` : '';
-        const prompt = `Translate the following text from ${sourceLang} to ${targetLang}. Only return the translated text, without any introductory phrases.${contextPrompt}\n\n${textToTranslate}`;
+        setError('');
+        setAudioError('');
 
         try {
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash',
-                contents: prompt,
-            });
-            setTranslatedText(response.text);
-        } catch (error) {
-            console.error("Translation Error:", error);
-            setTranslatedText("Error: Could not translate the text.");
+            const result = await translate({ text: textToTranslate, from: sourceLang, to: targetLang, context, signal });
+            if (result.detectedLanguage) {
+                setDetectedLang(result.detectedLanguage);
+            }
+            setTranslatedText(result.translation);
+            announce(result.translation);
+        } catch (err) {
+            if (isCancelled(err)) return;
+            console.error("Translation Error:", err);
+            setError(`${t('translator.translateError')} ${describeError(err)}`);
         } finally {
-            setIsLoading(false);
+            if (!signal.aborted) setIsLoading(false);
         }
     };
     
@@ -528,12 +1062,33 @@ const Translator = () => {
 
 
     const handleSwapLanguages = () => {
+        // With auto-detect the best we can swap to is whatever was detected last; fall back to the other default language.
+        const previousSource = sourceLang === AUTO_DETECT
+            ? (detectedLang || (targetLang === 'English' ? 'Italian' : 'English'))
+            : sourceLang;
         setSourceLang(targetLang);
-        setTargetLang(sourceLang);
+        setTargetLang(previousSource);
         setSourceText(translatedText);
         setTranslatedText(sourceText);
     };
 
+    const handleSourceLangChange = (lang) => {
+        if (lang === targetLang) {
+            handleSwapLanguages();
+            return;
+        }
+        setSourceLang(lang);
+        setDetectedLang('');
+    };
+
+    const handleTargetLangChange = (lang) => {
+        if (lang === sourceLang) {
+            handleSwapLanguages();
+            return;
+        }
+        setTargetLang(lang);
+    };
+
     const handleVoiceInput = () => {
         if (isRecording) {
             recognitionRef.current?.stop();
@@ -543,98 +1098,160 @@ const Translator = () => {
         setIsRecording(!isRecording);
     };
 
-    const playTranslatedAudio = async () => {
-        if (!translatedText) return;
-        setIsLoading(true);
+    const handlePhotoChange = async (e) => {
+        const file = e.target.files[0];
+        // Let the same photo be picked again after closing it.
+        e.target.value = '';
+        if (!file) return;
         try {
-            const ttsResponse = await ai.models.generateContent({
-                model: "gemini-2.5-flash-preview-tts",
-                contents: [{ parts: [{ text: translatedText }] }],
-                config: {
-                    responseModalities: [Modality.AUDIO],
-                    speechConfig: {
-                        voiceConfig: { prebuiltVoiceConfig: { voiceName: selectedVoice } },
-                    },
-                },
-            });
+            setPhoto(await prepareImage(file));
+        } catch (err) {
+            console.error("Failed to read photo:", err);
+            setError(t('lens.readError'));
+        }
+    };
 
-            if (!audioContextRef.current) {
-                 audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-            }
-            const audioContext = audioContextRef.current;
-            const outputNode = audioContext.createGain();
-            outputNode.connect(audioContext.destination);
-
-            const base64Audio = ttsResponse.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-            if (base64Audio) {
-                const audioBuffer = await decodeAudioData(decode(base64Audio), audioContext, 24000, 1);
-                const source = audioContext.createBufferSource();
-                source.buffer = audioBuffer;
-                source.connect(outputNode);
-                source.start();
-            }
+    const addTranslationToJournal = async () => {
+        const fromLang = sourceLang === AUTO_DETECT ? detectedLang || t('translator.detectedLanguage') : sourceLang;
+        try {
+            await addJournalEntry({
+                kind: 'translation',
+                title: `${fromLang} → ${targetLang}`,
+                text: `${sourceText}\n\n${translatedText}`,
+                sources: [],
+                location,
+            });
+            setJournaledText(translatedText);
         } catch (err) {
-            console.error("TTS Error:", err);
-            setTranslatedText(translatedText + "\n(Could not generate audio)");
-        } finally {
-            setIsLoading(false);
+            console.error("Failed to add translation to the journal:", err);
         }
     };
 
+    const playTranslatedAudio = () => {
+        if (!translatedText) return;
+        setAudioError('');
+        audioEngine.play({ text: translatedText, voice: selectedVoice, label: t('translator.audioLabel', { language: targetLang }) }).catch(err => {
+            console.error("TTS Error:", err);
+            setAudioError(`${t('translator.speakError')} ${describeError(err)}`);
+        });
+    };
+
+    if (isConversationMode) {
+        return (
+            <div className="card translator-container">
+                <ConversationMode
+                    languageA={sourceLang === AUTO_DETECT ? (detectedLang || 'English') : sourceLang}
+                    languageB={targetLang}
+                    context={context}
+                    voice={selectedVoice}
+                    onExit={() => setIsConversationMode(false)}
+                />
+            </div>
+        );
+    }
+
+    if (isPhrasebookOpen || !isOnline) {
+        return (
+            <div className="card translator-container">
+                {isOnline ? (
+                    <button type="button" className="button" onClick={() => setIsPhrasebookOpen(false)} style={{ marginBottom: '1rem' }}>
+                        <span className="material-icons" aria-hidden="true">arrow_back</span>
+                        {t('translator.back')}
+                    </button>
+                ) : (
+                    <p className="offline-notice">{t('translator.offline')}</p>
+                )}
+                <Phrasebook isOnline={isOnline} />
+            </div>
+        );
+    }
+
     return (
         <div className="card translator-container">
             <div className="input-area">
                 <div className="translator-controls" style={{padding: '0 0 10px 0', justifyContent: 'flex-start'}}>
-                    <span className="lang-label">{sourceLang}</span>
+                    <select value={sourceLang} onChange={(e) => handleSourceLangChange(e.target.value)} className="voice-selector lang-label" aria-label={t('translator.sourceLanguage')}>
+                        <option value={AUTO_DETECT}>{t('translator.autoDetect')}</option>
+                        {LANGUAGES.map(lang => <option key={lang.name} value={lang.name}>{lang.name} ({lang.nativeName})</option>)}
+                    </select>
+                    {sourceLang === AUTO_DETECT && detectedLang && <span className="detected-lang">{t('translator.detected', { language: detectedLang })}</span>}
                 </div>
                 <textarea
                     value={sourceText}
                     onChange={(e) => setSourceText(e.target.value)}
-                    placeholder={`Enter text in ${sourceLang}...`}
+                    placeholder={sourceLang === AUTO_DETECT ? t('translator.placeholderAny') : t('translator.placeholder', { language: sourceLang })}
+                    aria-label={t('translator.sourceText')}
                 />
                 <div className="textarea-actions">
-                    <button type="button" onClick={handleVoiceInput} className={`button voice-button ${isRecording ? 'recording' : ''}`} disabled={!recognitionRef.current}>
-                        <span className="material-icons">{isRecording ? 'mic_off' : 'mic'}</span>
+                    <label htmlFor="translator-photo" className="button" title={t('translator.photo')}>
+                        <span className="material-icons" aria-hidden="true">photo_camera</span>
+                    </label>
+                    <input id="translator-photo" type="file" accept="image/*" capture="environment" onChange={handlePhotoChange} aria-label={t('translator.photo')} />
+                    <button type="button" onClick={handleVoiceInput} className={`button voice-button ${isRecording ? 'recording' : ''}`} disabled={!recognitionRef.current} aria-label={isRecording ? t('guide.stopListening') : t('translator.speak')}>
+                        <span className="material-icons" aria-hidden="true">{isRecording ? 'mic_off' : 'mic'}</span>
                     </button>
                 </div>
             </div>
 
             <div className="translator-controls">
                 <div className="additional-options">
-                    <input type="text" value={context} onChange={(e) => setContext(e.target.value)} placeholder="Add context (e.g., food menu)" className="context-input" />
+                    <input type="text" value={context} onChange={(e) => setContext(e.target.value)} placeholder={t('translator.contextPlaceholder')} aria-label={t('translator.context')} className="context-input" />
                     <label>
                         <input type="checkbox" checked={autoTranslate} onChange={(e) => setAutoTranslate(e.target.checked)} />
-                        Auto-translate as I type
+                        {t('translator.autoTranslate')}
                     </label>
                 </div>
-                <button onClick={handleSwapLanguages} className="button" title="Swap Languages">
-                    <span className="material-icons">swap_horiz</span>
+                <button onClick={() => setIsPhrasebookOpen(true)} className="button" title={t('translator.phrasebook')} aria-label={t('translator.phrasebook')}>
+                    <span className="material-icons" aria-hidden="true">menu_book</span>
+                </button>
+                <button onClick={() => setIsConversationMode(true)} className="button" title={t('translator.conversationMode')} aria-label={t('translator.conversationMode')}>
+                    <span className="material-icons" aria-hidden="true">forum</span>
+                </button>
+                <button onClick={handleSwapLanguages} className="button" title={t('translator.swap')} aria-label={t('translator.swap')}>
+                    <span className="material-icons" aria-hidden="true">swap_horiz</span>
                 </button>
                 <button onClick={() => translateText()} disabled={isLoading || autoTranslate} className="button">
-                    Translate
+                    {t('translator.translate')}
                 </button>
             </div>
 
-            <div className="output-area">
+            {photo && (
+                <PhotoTranslation photo={photo} targetLang={targetLang} context={context} onClose={() => setPhoto(null)} />
+            )}
+
+            <div className="output-area" style={{ display: photo ? 'none' : undefined }}>
                 <div className="translator-controls" style={{padding: '0 0 10px 0', justifyContent: 'flex-start'}}>
-                     <span className="lang-label">{targetLang}</span>
+                    <select value={targetLang} onChange={(e) => handleTargetLangChange(e.target.value)} className="voice-selector lang-label" aria-label={t('translator.targetLanguage')}>
+                        {LANGUAGES.map(lang => <option key={lang.name} value={lang.name}>{lang.name} ({lang.nativeName})</option>)}
+                    </select>
                 </div>
                 <textarea
-                    value={isLoading ? 'Translating...' : translatedText}
+                    value={isLoading ? t('translator.translating') : translatedText}
                     readOnly
-                    placeholder={`Translation in ${targetLang}...`}
+                    placeholder={t('translator.translationPlaceholder', { language: targetLang })}
+                    aria-label={t('translator.translationLabel', { language: targetLang })}
                 />
                  <div className="textarea-actions">
-                     <button onClick={playTranslatedAudio} disabled={isLoading || !translatedText} className="button">
-                        <span className="material-icons">volume_up</span>
+                     <button onClick={playTranslatedAudio} disabled={isLoading || !translatedText} className="button" aria-label={t('translator.readAloud')}>
+                        <span className="material-icons" aria-hidden="true">volume_up</span>
+                    </button>
+                    <button
+                        onClick={addTranslationToJournal}
+                        disabled={isLoading || !translatedText || journaledText === translatedText}
+                        className="button"
+                        title={journaledText && journaledText === translatedText ? t('guide.inJournal') : t('guide.addToJournal')}
+                        aria-label={journaledText && journaledText === translatedText ? t('guide.inJournal') : t('guide.addToJournal')}
+                    >
+                        <span className="material-icons" aria-hidden="true">{journaledText && journaledText === translatedText ? 'bookmark_added' : 'book'}</span>
                     </button>
                 </div>
+                {(error || audioError) && <p role="alert" style={{ color: 'red' }}>{error || audioError}</p>}
             </div>
              <div className="narration-controls" style={{marginTop: '1rem'}}>
                  <div className="voice-selector-container">
-                    <label htmlFor="tts-voice" className="voice-label">Voice:</label>
+                    <label htmlFor="tts-voice" className="voice-label">{t('analysis.voice')}</label>
                     <select id="tts-voice" value={selectedVoice} onChange={(e) => setSelectedVoice(e.target.value)} className="voice-selector">
-                        {availableVoices.map(voice => <option key={voice} value={voice}>{voice}</option>)}
+                        {AVAILABLE_VOICES.map(voice => <option key={voice} value={voice}>{voice}</option>)}
                     </select>
                 </div>
             </div>
@@ -642,92 +1259,163 @@ const Translator = () => {
     );
 };
 
-const Help = ({ setActiveTab }) => {
-    const [scicliInfo, setScicliInfo] = useState('');
+const Help = ({ setActiveTab, isOnline = true }) => {
+    const { t } = useTranslation();
+    const destination = useDestination();
+    const [townInfo, setTownInfo] = useState('');
     const [isLoadingInfo, setIsLoadingInfo] = useState(false);
     const [errorInfo, setErrorInfo] = useState('');
-    const ai = new GoogleGenAI({ apiKey: API_KEY });
+    const [isCachedInfo, setIsCachedInfo] = useState(false);
+    const nextSignal = useRequestSignal();
 
-    const getScicliInfo = async () => {
+    // Offline, fall back to the overview fetched on an earlier visit.
+    useEffect(() => {
+        if (!isOnline && !townInfo) {
+            getCachedTownOverview(destination)
+                .then(cached => {
+                    if (cached) {
+                        setTownInfo(cached);
+                        setIsCachedInfo(true);
+                    }
+                })
+                .catch(err => console.error("Failed to load cached town info:", err));
+        }
+    }, [isOnline]);
+
+    const getTownInfo = async () => {
+        const signal = nextSignal();
         setIsLoadingInfo(true);
         setErrorInfo('');
-        setScicliInfo(''); // Clear previous info
+        setTownInfo(''); // Clear previous info
         try {
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash',
-                contents: "Provide a brief and engaging overview of Scicli, Italy, for a tourist. Highlight its history, its significance as a UNESCO World Heritage site for Baroque architecture, and its connection to Inspector Montalbano.",
-                config: {
-                    tools: [{ googleSearch: {} }],
-                },
-            });
-            setScicliInfo(response.text);
+            setTownInfo(await fetchTownOverview(destination, signal));
+            announce(t('a11y.glimpseReady'));
+            setIsCachedInfo(false);
         } catch (err) {
-            console.error("Failed to fetch Scicli info:", err);
-            setErrorInfo("Sorry, I couldn't fetch information about Scicli right now. Please try again later.");
+            if (isCancelled(err)) return;
+            console.error("Failed to fetch town info:", err);
+            setErrorInfo(`${t('help.glimpse.error')} ${describeError(err, t('help.glimpse.hint'))}`);
         } finally {
-            setIsLoadingInfo(false);
+            if (!signal.aborted) setIsLoadingInfo(false);
         }
     };
 
     return (
         <div className="card help-guide">
             <div className="help-message model-message">
-                <span className="material-icons help-icon">waving_hand</span>
+                <span className="material-icons help-icon" aria-hidden="true">waving_hand</span>
                 <div className="help-text">
-                    <h3>Ciao! I'm Mimi!</h3>
-                    <p>I'm your personal guide to the beautiful town of Scicli. Let me show you how I can help make your visit unforgettable!</p>
+                    <h3>{t('help.welcome.title')}</h3>
+                    <p>{t('help.welcome.body')}</p>
                 </div>
             </div>
 
             <div className="help-message model-message">
-                 <span className="material-icons help-icon">photo_camera</span>
+                 <span className="material-icons help-icon" aria-hidden="true">photo_camera</span>
                  <div className="help-text">
-                    <h3>Magic Lens</h3>
-                    <p>See a beautiful building but don't know what it is? Use the <strong>Magic Lens</strong>! Just upload a photo, and I'll tell you all about its history and secrets.</p>
-                    <button className="button" onClick={() => setActiveTab('lens')}>Try Magic Lens</button>
+                    <h3>{t('tabs.lens')}</h3>
+                    <p>{renderInline(t('help.lens.body'))}</p>
+                    <button className="button" onClick={() => setActiveTab('lens')}>{t('help.lens.button')}</button>
                  </div>
             </div>
             
             <div className="help-message model-message">
-                 <span className="material-icons help-icon">chat</span>
+                 <span className="material-icons help-icon" aria-hidden="true">chat</span>
+                 <div className="help-text">
+                    <h3>{t('tabs.guide')}</h3>
+                    <p>{renderInline(t('help.guide.body'))}</p>
+                    <button className="button" onClick={() => setActiveTab('guide')}>{t('help.guide.button')}</button>
+                 </div>
+            </div>
+
+            <div className="help-message model-message">
+                 <span className="material-icons help-icon" aria-hidden="true">translate</span>
+                 <div className="help-text">
+                    <h3>{t('tabs.translator')}</h3>
+                    <p>{renderInline(t('help.translator.body'))}</p>
+                    <button className="button" onClick={() => setActiveTab('translator')}>{t('help.translator.button')}</button>
+                 </div>
+            </div>
+
+            <div className="help-message model-message">
+                 <span className="material-icons help-icon" aria-hidden="true">route</span>
+                 <div className="help-text">
+                    <h3>{t('tabs.tours')}</h3>
+                    <p>{renderInline(t('help.tours.body'))}</p>
+                    <button className="button" onClick={() => setActiveTab('tours')}>{t('help.tours.button')}</button>
+                 </div>
+            </div>
+
+            <div className="help-message model-message">
+                 <span className="material-icons help-icon" aria-hidden="true">restaurant</span>
+                 <div className="help-text">
+                    <h3>{t('tabs.food')}</h3>
+                    <p>{renderInline(t('help.food.body'))}</p>
+                    <button className="button" onClick={() => setActiveTab('food')}>{t('help.food.button')}</button>
+                 </div>
+            </div>
+
+            {getTrail(destination).length > 0 && (
+                <div className="help-message model-message">
+                     <span className="material-icons help-icon" aria-hidden="true">movie</span>
+                     <div className="help-text">
+                        <h3>{t('tabs.montalbano')}</h3>
+                        <p>{renderInline(t('help.montalbano.body'))}</p>
+                        <button className="button" onClick={() => setActiveTab('montalbano')}>{t('help.montalbano.button')}</button>
+                     </div>
+                </div>
+            )}
+
+            <div className="help-message model-message">
+                 <span className="material-icons help-icon" aria-hidden="true">map</span>
                  <div className="help-text">
-                    <h3>Local Guide</h3>
-                    <p>Have a question? Ask me anything! In the <strong>Local Guide</strong> tab, you can chat with me about the best places to eat, find filming locations from 'Inspector Montalbano', or learn about local traditions.</p>
-                    <button className="button" onClick={() => setActiveTab('guide')}>Ask a Question</button>
+                    <h3>{t('tabs.map')}</h3>
+                    <p>{renderInline(t('help.map.body'))}</p>
+                    <button className="button" onClick={() => setActiveTab('map')}>{t('help.map.button')}</button>
                  </div>
             </div>
 
             <div className="help-message model-message">
-                 <span className="material-icons help-icon">translate</span>
+                 <span className="material-icons help-icon" aria-hidden="true">bookmarks</span>
                  <div className="help-text">
-                    <h3>Translator</h3>
-                    <p>Need help with the language? The <strong>Translator</strong> is here for you. I can translate between English and Italian. You can even use your voice to speak and hear the translation!</p>
-                    <button className="button" onClick={() => setActiveTab('translator')}>Translate Now</button>
+                    <h3>{t('tabs.saved')}</h3>
+                    <p>{renderInline(t('help.saved.body'))}</p>
+                    <button className="button" onClick={() => setActiveTab('saved')}>{t('help.saved.button')}</button>
                  </div>
             </div>
 
             <div className="help-message model-message">
-                 <span className="material-icons help-icon">info_outline</span>
+                 <span className="material-icons help-icon" aria-hidden="true">auto_stories</span>
                  <div className="help-text">
-                    <h3>A Glimpse of Scicli</h3>
-                    <p>Curious about the town itself? Click the button below for a quick introduction to Scicli's history and significance.</p>
-                    <button className="button" onClick={getScicliInfo} disabled={isLoadingInfo}>
-                        {isLoadingInfo ? 'Loading...' : 'Tell Me About Scicli'}
+                    <h3>{t('tabs.journal')}</h3>
+                    <p>{renderInline(t('help.journal.body'))}</p>
+                    <button className="button" onClick={() => setActiveTab('journal')}>{t('help.journal.button')}</button>
+                 </div>
+            </div>
+
+            <div className="help-message model-message">
+                 <span className="material-icons help-icon" aria-hidden="true">info_outline</span>
+                 <div className="help-text">
+                    <h3>{t('help.glimpse.title')}</h3>
+                    <p>{t('help.glimpse.body')}</p>
+                    <button className="button" onClick={getTownInfo} disabled={isLoadingInfo || !isOnline}>
+                        {isLoadingInfo ? t('help.glimpse.loading') : t('help.glimpse.button')}
                     </button>
-                    {isLoadingInfo && <div className="loader" style={{paddingTop: '1rem', justifyContent: 'flex-start'}}><div className="dot-flashing"></div></div>}
-                    {errorInfo && <p style={{ color: 'red', marginTop: '1rem' }}>{errorInfo}</p>}
-                    {scicliInfo && (
+                    {isLoadingInfo && <Loader style={{paddingTop: '1rem', justifyContent: 'flex-start'}} />}
+                    {errorInfo && <p role="alert" style={{ color: 'red', marginTop: '1rem' }}>{errorInfo}</p>}
+                    {townInfo && (
                         <div className="result-container" style={{paddingTop: '1rem', marginTop: 0}}>
-                            <p>{scicliInfo}</p>
+                            {isCachedInfo && <p className="offline-notice">{t('help.glimpse.cached')}</p>}
+                            <p>{townInfo}</p>
                         </div>
                     )}
                  </div>
             </div>
             
             <div className="help-message model-message">
-                 <span className="material-icons help-icon">explore</span>
+                 <span className="material-icons help-icon" aria-hidden="true">explore</span>
                  <div className="help-text">
-                    <p>I hope this helps! Feel free to explore all my features and have a wonderful time in Scicli!</p>
+                    <p>{t('help.farewell')}</p>
                  </div>
             </div>
         </div>
@@ -735,6 +1423,8 @@ const Help = ({ setActiveTab }) => {
 };
 
 
+registerServiceWorker();
+
 const container = document.getElementById('root');
 const root = createRoot(container);
 root.render(<App />);
\ No newline at end of file
@@ -0,0 +1,79 @@
+// --- Mimi's service worker: keeps the app shell and static assets available offline ---
+
+const CACHE_NAME = 'mimi-shell-v2';
+const APP_SHELL = ['/', '/index.html'];
+// Written by the build (see vite.config.ts); missing under the dev server, where only the shell is pre-cached.
+const ASSET_MANIFEST = '/asset-manifest.json';
+
+// Fonts and CDN modules are versioned, so the cached copy is always good enough.
+const CACHE_FIRST_HOSTS = ['fonts.googleapis.com', 'fonts.gstatic.com', 'aistudiocdn.com', 'unpkg.com'];
+
+async function buildAssets() {
+    try {
+        const response = await fetch(ASSET_MANIFEST, { cache: 'no-store' });
+        return response.ok ? await response.json() : [];
+    } catch {
+        return [];
+    }
+}
+
+async function precache() {
+    const cache = await caches.open(CACHE_NAME);
+    const assets = await buildAssets();
+    await cache.addAll([...new Set([...APP_SHELL, ...assets])]);
+}
+
+self.addEventListener('install', (event) => {
+    event.waitUntil(precache());
+    self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+    event.waitUntil(
+        caches.keys()
+            .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+            .then(() => self.clients.claim())
+    );
+});
+
+async function cacheFirst(request) {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+    const response = await fetch(request);
+    if (response.ok || response.type === 'opaque') {
+        const cache = await caches.open(CACHE_NAME);
+        cache.put(request, response.clone());
+    }
+    return response;
+}
+
+// App code changes between deploys, so prefer the network and only fall back to what we cached last time.
+async function networkFirst(request) {
+    try {
+        const response = await fetch(request);
+        if (response.ok) {
+            const cache = await caches.open(CACHE_NAME);
+            cache.put(request, response.clone());
+        }
+        return response;
+    } catch (err) {
+        const cached = await caches.match(request);
+        if (cached) return cached;
+        if (request.mode === 'navigate') {
+            const shell = await caches.match('/index.html');
+            if (shell) return shell;
+        }
+        throw err;
+    }
+}
+
+self.addEventListener('fetch', (event) => {
+    const { request } = event;
+    if (request.method !== 'GET') return;
+    const url = new URL(request.url);
+    if (CACHE_FIRST_HOSTS.includes(url.hostname)) {
+        event.respondWith(cacheFirst(request));
+    } else if (url.origin === self.location.origin) {
+        event.respondWith(networkFirst(request));
+    }
+});
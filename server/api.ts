@@ -0,0 +1,53 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { AI_ERROR_STATUS, classifyError, kindFromStatus } from '../services/ai/errors';
+import type { ErrorResponse } from '../services/ai/types';
+import { HttpError, getClientId, readJsonBody, sendJson } from './http';
+import type { RateLimiter } from './rateLimit';
+import type { Budget, Route } from './routes';
+
+// --- Everything between an /api/* request and its route: method, rate limit, body, and errors as JSON ---
+
+export interface ApiOptions {
+    // One limiter per budget, each counting per client.
+    limiters: Record<Budget, RateLimiter>;
+    maxBodyBytes: number;
+    trustProxy?: boolean;
+}
+
+export function sendError(res: ServerResponse, err: unknown, pathname: string) {
+    if (res.headersSent) {
+        res.destroy();
+        return;
+    }
+    if (err instanceof HttpError) {
+        const body: ErrorResponse = { error: err.message, kind: kindFromStatus(err.status) };
+        sendJson(res, err.status, body, err.headers);
+        return;
+    }
+    const { kind } = classifyError(err);
+    if (kind === 'cancelled') return;
+    console.error(`${pathname} failed (${kind}):`, err);
+    // Upstream errors can carry request details, so only the kind reaches the browser.
+    const body: ErrorResponse = { error: `The AI service failed (${kind}).`, kind };
+    sendJson(res, AI_ERROR_STATUS[kind], body);
+}
+
+export function createApiHandler(routes: Record<string, Route>, { limiters, maxBodyBytes, trustProxy = false }: ApiOptions) {
+    return async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+        const { pathname } = new URL(req.url || '/', 'http://localhost');
+        try {
+            const route = routes[pathname];
+            if (!route) throw new HttpError(404, `Unknown endpoint ${pathname}.`);
+            if (req.method !== 'POST') throw new HttpError(405, 'Use POST.', { Allow: 'POST' });
+            const limiter = limiters[route.budget || 'general'];
+            const { allowed, retryAfterSeconds } = limiter.take(getClientId(req, trustProxy), route.cost);
+            if (!allowed) {
+                throw new HttpError(429, 'Too many requests. Please wait a moment.', { 'Retry-After': String(retryAfterSeconds) });
+            }
+            const body = await readJsonBody(req, maxBodyBytes);
+            await route.handle(body, req, res);
+        } catch (err) {
+            sendError(res, err, pathname);
+        }
+    };
+}
@@ -0,0 +1,65 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+
+// --- Small helpers over node:http so the server needs no framework ---
+
+export class HttpError extends Error {
+    constructor(readonly status: number, message: string, readonly headers: Record<string, string> = {}) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+// A parsed request body. Every field is unchecked until a route reads it.
+export type JsonBody = Record<string, unknown>;
+
+// Rejects with 413 as soon as the body grows past `maxBytes`, without buffering the rest.
+export function readJsonBody(req: IncomingMessage, maxBytes: number): Promise<JsonBody> {
+    return new Promise((resolve, reject) => {
+        const declaredLength = Number(req.headers['content-length'] || 0);
+        if (declaredLength > maxBytes) {
+            reject(new HttpError(413, `Request body is larger than ${maxBytes} bytes.`));
+            req.resume();
+            return;
+        }
+        const chunks: Buffer[] = [];
+        let received = 0;
+        req.on('data', (chunk: Buffer) => {
+            received += chunk.length;
+            if (received > maxBytes) {
+                reject(new HttpError(413, `Request body is larger than ${maxBytes} bytes.`));
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => {
+            let body: unknown;
+            try {
+                body = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+            } catch {
+                reject(new HttpError(400, 'Request body is not valid JSON.'));
+                return;
+            }
+            if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+                reject(new HttpError(400, 'Request body must be a JSON object.'));
+                return;
+            }
+            resolve(body as JsonBody);
+        });
+        req.on('error', reject);
+    });
+}
+
+export function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store', ...headers });
+    res.end(JSON.stringify(body));
+}
+
+// Behind a reverse proxy every request comes from the proxy, so the forwarded address is the real client.
+export function getClientId(req: IncomingMessage, trustProxy: boolean): string {
+    const forwarded = req.headers['x-forwarded-for'];
+    if (trustProxy && typeof forwarded === 'string' && forwarded) {
+        return forwarded.split(',')[0].trim();
+    }
+    return req.socket.remoteAddress || 'unknown';
+}
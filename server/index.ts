@@ -0,0 +1,90 @@
+import { createServer } from 'node:http';
+import { existsSync } from 'node:fs';
+import { readFile, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { GeminiProvider } from '../services/ai/geminiProvider';
+import { MockProvider } from '../services/ai/mockProvider';
+import type { AiProvider } from '../services/ai/types';
+import { HttpError } from './http';
+import { RateLimiter } from './rateLimit';
+import { createRoutes } from './routes';
+import { createApiHandler, sendError } from './api';
+
+// --- API proxy: the only place the Gemini key lives. The browser talks to /api/*, never to Google directly. ---
+
+// The same .env.local the Vite dev server reads; real environment variables win.
+if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+
+const PORT = Number(process.env.PORT) || 8787;
+const TRUST_PROXY = process.env.TRUST_PROXY === 'true';
+// Budget per client per minute; a question costs 1, a picture or a live session 5.
+const RATE_LIMIT_BUDGET = Number(process.env.RATE_LIMIT_BUDGET) || 60;
+// Speech comes out of its own budget at 2 a clip: enough to download the whole phrasebook in one go.
+const SPEECH_RATE_LIMIT_BUDGET = Number(process.env.SPEECH_RATE_LIMIT_BUDGET) || 120;
+// Four resized photos in base64 fit comfortably.
+const MAX_BODY_BYTES = 6 * 1024 * 1024;
+const STATIC_DIR = path.resolve('dist');
+
+const STATIC_TYPES: Record<string, string> = {
+    '.html': 'text/html; charset=utf-8',
+    '.js': 'text/javascript; charset=utf-8',
+    '.css': 'text/css; charset=utf-8',
+    '.json': 'application/json; charset=utf-8',
+    '.webmanifest': 'application/manifest+json',
+    '.svg': 'image/svg+xml',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.ico': 'image/x-icon',
+};
+
+// The mock has to be asked for: a deploy that lost its key should fail loudly, not start answering with canned replies.
+function createProvider(): AiProvider {
+    if (process.env.AI_PROVIDER === 'mock') return new MockProvider();
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+        console.error('GEMINI_API_KEY is not set. Add it to .env.local, or set AI_PROVIDER=mock to run with the offline mock.');
+        process.exit(1);
+    }
+    return new GeminiProvider(apiKey);
+}
+
+const provider = createProvider();
+const handleApi = createApiHandler(createRoutes(provider), {
+    limiters: {
+        general: new RateLimiter(RATE_LIMIT_BUDGET, 60 * 1000),
+        speech: new RateLimiter(SPEECH_RATE_LIMIT_BUDGET, 60 * 1000),
+    },
+    maxBodyBytes: MAX_BODY_BYTES,
+    trustProxy: TRUST_PROXY,
+});
+
+// Serves the built app from dist/ when it exists, falling back to index.html for client-side routes.
+async function serveStatic(pathname: string): Promise<{ body: Buffer; type: string } | null> {
+    if (!existsSync(STATIC_DIR)) return null;
+    let file = path.join(STATIC_DIR, decodeURIComponent(pathname));
+    if (!file.startsWith(STATIC_DIR + path.sep) && file !== STATIC_DIR) return null;
+    const info = await stat(file).catch(() => null);
+    if (!info?.isFile()) file = path.join(STATIC_DIR, 'index.html');
+    const type = STATIC_TYPES[path.extname(file)] || 'application/octet-stream';
+    return { body: await readFile(file), type };
+}
+
+const server = createServer(async (req, res) => {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+    if (pathname.startsWith('/api/')) {
+        await handleApi(req, res);
+        return;
+    }
+    try {
+        const file = req.method === 'GET' ? await serveStatic(pathname) : null;
+        if (!file) throw new HttpError(404, 'Not found.');
+        res.writeHead(200, { 'Content-Type': file.type });
+        res.end(file.body);
+    } catch (err) {
+        sendError(res, err, pathname);
+    }
+});
+
+server.listen(PORT, () => {
+    console.log(`Mimi's API proxy on http://localhost:${PORT} using the ${provider.name} provider`);
+});
@@ -0,0 +1,36 @@
+// --- Per-client request budget. Each endpoint has a cost, so one image counts for several questions. ---
+
+export interface RateLimitResult {
+    allowed: boolean;
+    // Seconds until the client's window resets; 0 when allowed.
+    retryAfterSeconds: number;
+}
+
+export class RateLimiter {
+    private windows = new Map<string, { startedAt: number; spent: number }>();
+
+    constructor(private readonly budget: number, private readonly windowMs: number, private readonly now = () => Date.now()) {}
+
+    take(clientId: string, cost = 1): RateLimitResult {
+        const now = this.now();
+        let window = this.windows.get(clientId);
+        if (!window || now - window.startedAt >= this.windowMs) {
+            window = { startedAt: now, spent: 0 };
+            this.windows.set(clientId, window);
+            this.prune(now);
+        }
+        if (window.spent + cost > this.budget) {
+            return { allowed: false, retryAfterSeconds: Math.ceil((window.startedAt + this.windowMs - now) / 1000) };
+        }
+        window.spent += cost;
+        return { allowed: true, retryAfterSeconds: 0 };
+    }
+
+    // Drops finished windows so a stream of one-off clients can't grow the map forever.
+    private prune(now: number) {
+        if (this.windows.size < 1000) return;
+        for (const [clientId, window] of this.windows) {
+            if (now - window.startedAt >= this.windowMs) this.windows.delete(clientId);
+        }
+    }
+}
@@ -0,0 +1,191 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MockProvider } from '../services/ai/mockProvider';
+import { ProxyProvider } from '../services/ai/proxyProvider';
+import { MAX_HISTORY_TURNS, type ChatRequest } from '../services/ai/types';
+import { createApiHandler } from './api';
+import { RateLimiter } from './rateLimit';
+import { createRoutes } from './routes';
+
+// The routes run behind a real http server, as in production, with the mock answering instantly.
+
+const servers: Server[] = [];
+
+interface TestApiOptions {
+    budget?: number;
+    speechBudget?: number;
+    maxBodyBytes?: number;
+}
+
+async function startApi({ budget = 100, speechBudget = 100, maxBodyBytes = 6 * 1024 * 1024 }: TestApiOptions = {}): Promise<string> {
+    // A frozen clock keeps Retry-After predictable.
+    const now = () => 0;
+    const handleApi = createApiHandler(createRoutes(new MockProvider(0)), {
+        limiters: {
+            general: new RateLimiter(budget, 60 * 1000, now),
+            speech: new RateLimiter(speechBudget, 60 * 1000, now),
+        },
+        maxBodyBytes,
+    });
+    const server = createServer(handleApi);
+    servers.push(server);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+const post = (url: string, body: unknown) =>
+    fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: typeof body === 'string' ? body : JSON.stringify(body) });
+
+afterEach(async () => {
+    vi.unstubAllGlobals();
+    await Promise.all(servers.splice(0).map(server => new Promise(resolve => server.close(resolve))));
+});
+
+describe('bad requests', () => {
+    it('answers 400 when a required field is missing', async () => {
+        const api = await startApi();
+        const response = await post(`${api}/api/text`, { images: [] });
+        expect(response.status).toBe(400);
+        expect(await response.json()).toEqual({ error: '"prompt" must be a non-empty string.', kind: 'invalid' });
+    });
+
+    it('answers 400 when the body is not JSON', async () => {
+        const api = await startApi();
+        const response = await post(`${api}/api/text`, '{"prompt":');
+        expect(response.status).toBe(400);
+        expect((await response.json()).kind).toBe('invalid');
+    });
+
+    it('answers 400 when the body is not an object', async () => {
+        const api = await startApi();
+        const response = await post(`${api}/api/text`, '["What is this?"]');
+        expect(response.status).toBe(400);
+        expect((await response.json()).error).toBe('Request body must be a JSON object.');
+    });
+
+    it('answers 400 for images in formats the model does not take', async () => {
+        const api = await startApi();
+        const response = await post(`${api}/api/text`, { prompt: 'What is this?', images: [{ mimeType: 'image/gif', data: 'R0lGOD' }] });
+        expect(response.status).toBe(400);
+    });
+
+    it('answers 400 for chat history with an unknown role', async () => {
+        const api = await startApi();
+        const response = await post(`${api}/api/chat`, { systemInstruction: 'Be Mimi.', history: [{ role: 'system', text: 'Hi' }], message: 'Hello' });
+        expect(response.status).toBe(400);
+        expect((await response.json()).error).toBe('"history[0].role" must be "user" or "model".');
+    });
+
+    it('answers 400 for voices that do not exist', async () => {
+        const api = await startApi();
+        const response = await post(`${api}/api/speech`, { text: 'Ciao', voice: 'Nobody' });
+        expect(response.status).toBe(400);
+    });
+
+    it('answers 405 to anything but POST and 404 to unknown endpoints', async () => {
+        const api = await startApi();
+        const get = await fetch(`${api}/api/text`);
+        expect(get.status).toBe(405);
+        expect(get.headers.get('allow')).toBe('POST');
+        expect((await post(`${api}/api/nothing`, {})).status).toBe(404);
+    });
+});
+
+describe('oversized requests', () => {
+    it('answers 413 when the body is over the limit', async () => {
+        const api = await startApi({ maxBodyBytes: 1024 });
+        const response = await post(`${api}/api/text`, { prompt: 'a'.repeat(2048) });
+        expect(response.status).toBe(413);
+        expect((await response.json()).kind).toBe('invalid');
+    });
+
+    it('answers 413 when a prompt is too long', async () => {
+        const api = await startApi();
+        const response = await post(`${api}/api/text`, { prompt: 'a'.repeat(20001) });
+        expect(response.status).toBe(413);
+        expect((await response.json()).error).toBe('"prompt" is longer than 20000 characters.');
+    });
+});
+
+describe('rate limiting', () => {
+    it('answers 429 with Retry-After once the budget is spent', async () => {
+        const api = await startApi({ budget: 2 });
+        expect((await post(`${api}/api/text`, { prompt: 'One' })).status).toBe(200);
+        expect((await post(`${api}/api/text`, { prompt: 'Two' })).status).toBe(200);
+        const response = await post(`${api}/api/text`, { prompt: 'Three' });
+        expect(response.status).toBe(429);
+        expect(response.headers.get('retry-after')).toBe('60');
+        expect((await response.json()).kind).toBe('quota');
+    });
+
+    it('charges pictures more than questions', async () => {
+        const api = await startApi({ budget: 5 });
+        expect((await post(`${api}/api/image`, { prompt: 'A church' })).status).toBe(200);
+        expect((await post(`${api}/api/text`, { prompt: 'One more?' })).status).toBe(429);
+    });
+
+    it('takes speech out of its own budget', async () => {
+        const api = await startApi({ budget: 1, speechBudget: 4 });
+        expect((await post(`${api}/api/text`, { prompt: 'One' })).status).toBe(200);
+        expect((await post(`${api}/api/speech`, { text: 'Buongiorno', voice: 'Kore' })).status).toBe(200);
+        expect((await post(`${api}/api/speech`, { text: 'Grazie', voice: 'Kore' })).status).toBe(200);
+        expect((await post(`${api}/api/speech`, { text: 'Prego', voice: 'Kore' })).status).toBe(429);
+    });
+});
+
+describe('chat', () => {
+    it('streams the reply as NDJSON', async () => {
+        const api = await startApi();
+        const response = await post(`${api}/api/chat`, {
+            systemInstruction: 'You are Mimi, a tour guide in Scicli.',
+            history: [{ role: 'user', text: 'Hi Mimi' }, { role: 'model', text: 'Ciao!' }],
+            message: 'What should I see first?',
+        });
+        expect(response.status).toBe(200);
+        expect(response.headers.get('content-type')).toMatch(/^application\/x-ndjson/);
+        const chunks = (await response.text()).trim().split('\n').map(line => JSON.parse(line));
+        expect(chunks.length).toBeGreaterThan(1);
+        for (const chunk of chunks) {
+            expect(typeof chunk.text).toBe('string');
+            expect(Array.isArray(chunk.sources)).toBe(true);
+        }
+        expect(chunks.map(chunk => chunk.text).join('').length).toBeGreaterThan(0);
+    });
+
+    it('accepts a reply that came back empty in the history', async () => {
+        const api = await startApi();
+        const response = await post(`${api}/api/chat`, {
+            systemInstruction: 'You are Mimi, a tour guide in Scicli.',
+            history: [{ role: 'user', text: 'Hi Mimi' }, { role: 'model', text: '' }],
+            message: 'Are you there?',
+        });
+        expect(response.status).toBe(200);
+    });
+
+    it('keeps a long conversation going through the proxy, sending only the latest turns', async () => {
+        const api = await startApi({ budget: 1000 });
+        const sentHistories: number[] = [];
+        const realFetch = fetch;
+        // The proxy posts to relative URLs, as it does in the browser.
+        vi.stubGlobal('fetch', (url: string, init: RequestInit) => {
+            sentHistories.push((JSON.parse(init.body as string) as ChatRequest).history.length);
+            return realFetch(`${api}${url}`, init);
+        });
+        const chat = new ProxyProvider().createChat({ systemInstruction: 'You are Mimi, a tour guide in Scicli.' });
+        for (let i = 0; i < MAX_HISTORY_TURNS / 2 + 5; i++) {
+            expect((await chat.sendMessage(`Question ${i}`)).text).not.toBe('');
+        }
+        expect(Math.max(...sentHistories)).toBe(MAX_HISTORY_TURNS);
+    });
+});
+
+describe('images', () => {
+    it('accepts the pictures it paints back for refining', async () => {
+        const api = await startApi();
+        const { image } = await (await post(`${api}/api/image`, { prompt: 'A watercolor of a church' })).json();
+        const [, mimeType, data] = image.match(/^data:(.+?);base64,(.+)$/);
+        const response = await post(`${api}/api/image`, { prompt: 'Make it warmer', images: [{ mimeType, data }] });
+        expect(response.status).toBe(200);
+    });
+});
@@ -0,0 +1,166 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { AVAILABLE_VOICES, MAX_HISTORY_TURNS } from '../services/ai/types';
+import type { AiProvider, ChatTurn, InlineImage, LiveTokenResponse } from '../services/ai/types';
+import { GeminiProvider } from '../services/ai/geminiProvider';
+import { HttpError, sendJson, type JsonBody } from './http';
+
+// --- One endpoint per AiProvider call. Bodies are checked here; the browser is never trusted. ---
+
+const MAX_PROMPT_LENGTH = 20000;
+const MAX_IMAGES = 4;
+const IMAGE_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif'];
+
+// Speech has a budget of its own, so downloading the whole phrasebook doesn't lock the visitor out of everything else.
+export type Budget = 'general' | 'speech';
+
+export interface Route {
+    // Counted against the client's rate limit budget.
+    cost: number;
+    // Which budget the cost comes out of; 'general' unless set.
+    budget?: Budget;
+    handle(body: JsonBody, req: IncomingMessage, res: ServerResponse): Promise<void>;
+}
+
+// Aborts once the browser hangs up, so we stop paying for an answer nobody is waiting for.
+function clientSignal(res: ServerResponse): AbortSignal {
+    const controller = new AbortController();
+    res.on('close', () => controller.abort());
+    return controller.signal;
+}
+
+function requireString(value: unknown, field: string, maxLength = MAX_PROMPT_LENGTH): string {
+    if (typeof value !== 'string' || !value.trim()) {
+        throw new HttpError(400, `"${field}" must be a non-empty string.`);
+    }
+    if (value.length > maxLength) {
+        throw new HttpError(413, `"${field}" is longer than ${maxLength} characters.`);
+    }
+    return value;
+}
+
+function optionalString(value: unknown, field: string): string | undefined {
+    return value === undefined || value === '' ? undefined : requireString(value, field);
+}
+
+function readImages(value: unknown, field = 'images'): InlineImage[] {
+    if (value === undefined) return [];
+    if (!Array.isArray(value) || value.length > MAX_IMAGES) {
+        throw new HttpError(400, `"${field}" must be an array of at most ${MAX_IMAGES} images.`);
+    }
+    return value.map(image => {
+        if (!IMAGE_MIME_TYPES.includes(image?.mimeType) || typeof image.data !== 'string') {
+            throw new HttpError(400, `"${field}" may only contain JPEG, PNG, WebP or HEIC images.`);
+        }
+        return { mimeType: image.mimeType, data: image.data };
+    });
+}
+
+function readHistory(value: unknown): ChatTurn[] {
+    if (!Array.isArray(value) || value.length > MAX_HISTORY_TURNS) {
+        throw new HttpError(400, `"history" must be an array of at most ${MAX_HISTORY_TURNS} turns.`);
+    }
+    return value.map((turn, i) => {
+        if (turn?.role !== 'user' && turn?.role !== 'model') {
+            throw new HttpError(400, `"history[${i}].role" must be "user" or "model".`);
+        }
+        // A reply can finish without any text, and the history that follows it still has to be usable.
+        const text = turn.role === 'model' && turn.text === '' ? '' : requireString(turn.text, `history[${i}].text`);
+        return { role: turn.role, text, images: readImages(turn.images, `history[${i}].images`) };
+    });
+}
+
+export function createRoutes(provider: AiProvider): Record<string, Route> {
+    return {
+        '/api/text': {
+            cost: 1,
+            async handle(body, req, res) {
+                const result = await provider.generateText({
+                    prompt: requireString(body.prompt, 'prompt'),
+                    images: readImages(body.images),
+                    systemInstruction: optionalString(body.systemInstruction, 'systemInstruction'),
+                    useSearch: Boolean(body.useSearch),
+                    signal: clientSignal(res),
+                });
+                sendJson(res, 200, result);
+            },
+        },
+        '/api/json': {
+            cost: 1,
+            async handle(body, req, res) {
+                if (typeof body.schema !== 'object' || body.schema === null) {
+                    throw new HttpError(400, '"schema" must be a JSON Schema object.');
+                }
+                const result = await provider.generateJson({
+                    prompt: requireString(body.prompt, 'prompt'),
+                    images: readImages(body.images),
+                    systemInstruction: optionalString(body.systemInstruction, 'systemInstruction'),
+                    schema: body.schema,
+                    signal: clientSignal(res),
+                });
+                sendJson(res, 200, result);
+            },
+        },
+        // Chats are stateless here: the browser sends the history each time and gets the reply as NDJSON.
+        '/api/chat': {
+            cost: 1,
+            async handle(body, req, res) {
+                const chat = provider.createChat({
+                    systemInstruction: requireString(body.systemInstruction, 'systemInstruction'),
+                    useSearch: Boolean(body.useSearch),
+                    history: readHistory(body.history),
+                });
+                const message = requireString(body.message, 'message');
+                const signal = clientSignal(res);
+                const stream = chat.sendMessageStream(message, { signal });
+                const first = await stream.next();
+                res.writeHead(200, { 'Content-Type': 'application/x-ndjson; charset=utf-8', 'Cache-Control': 'no-store' });
+                if (!first.done) {
+                    res.write(`${JSON.stringify(first.value)}\n`);
+                    try {
+                        for await (const chunk of stream) {
+                            res.write(`${JSON.stringify(chunk)}\n`);
+                        }
+                    } catch (err) {
+                        if (!signal.aborted) console.error('Chat stream failed:', err);
+                        // Headers are gone; ending early tells the browser the reply is incomplete.
+                        res.destroy();
+                        return;
+                    }
+                }
+                res.end();
+            },
+        },
+        '/api/image': {
+            cost: 5,
+            async handle(body, req, res) {
+                const image = await provider.generateImage({
+                    prompt: requireString(body.prompt, 'prompt'),
+                    images: readImages(body.images),
+                    signal: clientSignal(res),
+                });
+                sendJson(res, 200, { image });
+            },
+        },
+        '/api/speech': {
+            cost: 2,
+            budget: 'speech',
+            async handle(body, req, res) {
+                const { voice } = body;
+                if (typeof voice !== 'string' || !AVAILABLE_VOICES.includes(voice)) {
+                    throw new HttpError(400, `"voice" must be one of ${AVAILABLE_VOICES.join(', ')}.`);
+                }
+                const audio = await provider.generateSpeech({ text: requireString(body.text, 'text', 5000), voice, signal: clientSignal(res) });
+                sendJson(res, 200, { audio });
+            },
+        },
+        '/api/live-token': {
+            cost: 5,
+            async handle(body, req, res) {
+                const response: LiveTokenResponse = {
+                    token: provider instanceof GeminiProvider ? await provider.createLiveToken() : null,
+                };
+                sendJson(res, 200, response);
+            },
+        },
+    };
+}
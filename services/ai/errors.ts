@@ -0,0 +1,86 @@
+import { t } from '../i18n';
+
+// --- What went wrong with an AI request, in terms the app can act on ---
+
+export type AiErrorKind =
+    // No connection, or the AI service is down.
+    | 'network'
+    // Too many requests, from this user or overall.
+    | 'quota'
+    // The model refused the prompt or withheld its answer.
+    | 'safety'
+    // The request itself is wrong, e.g. too large or an unsupported image.
+    | 'invalid'
+    | 'timeout'
+    // The caller aborted it; never shown to the user.
+    | 'cancelled'
+    | 'unknown';
+
+export class AiError extends Error {
+    constructor(readonly kind: AiErrorKind, message: string, readonly retryAfterSeconds: number | null = null) {
+        super(message);
+        this.name = 'AiError';
+    }
+}
+
+// Status codes the proxy uses for each kind, and how the browser reads them back.
+export const AI_ERROR_STATUS: Record<AiErrorKind, number> = {
+    network: 502,
+    quota: 429,
+    safety: 422,
+    invalid: 400,
+    timeout: 504,
+    cancelled: 499,
+    unknown: 500,
+};
+
+export function kindFromStatus(status: number): AiErrorKind {
+    if (status === 429) return 'quota';
+    if (status === 408 || status === 504) return 'timeout';
+    if (status === 422) return 'safety';
+    if (status >= 400 && status < 500) return 'invalid';
+    if (status >= 500) return 'network';
+    return 'unknown';
+}
+
+// Turns whatever a provider threw (fetch failures, SDK errors with a status, aborts) into an AiError.
+export function classifyError(err: unknown): AiError {
+    if (err instanceof AiError) return err;
+    const error = err as { name?: string; message?: string; status?: number; code?: number };
+    const message = error?.message || String(err);
+    if (error?.name === 'AbortError') return new AiError('cancelled', message);
+    if (error?.name === 'TimeoutError') return new AiError('timeout', message);
+    const status = typeof error?.status === 'number' ? error.status : error?.code;
+    if (typeof status === 'number' && status >= 400) return new AiError(kindFromStatus(status), message);
+    // fetch rejects with a bare TypeError when the request never got an answer.
+    if (err instanceof TypeError || (typeof navigator !== 'undefined' && navigator.onLine === false)) {
+        return new AiError('network', message);
+    }
+    if (/safety|blocked|prohibited/i.test(message)) return new AiError('safety', message);
+    return new AiError('unknown', message);
+}
+
+export function isCancelled(err: unknown): boolean {
+    return classifyError(err).kind === 'cancelled';
+}
+
+// What the user can do about it. `fallback` is for failures we can't explain, so call sites can give their own advice.
+export function describeError(err: unknown, fallback = t('errors.retry')): string {
+    const error = classifyError(err);
+    switch (error.kind) {
+        case 'network':
+            return t('errors.network');
+        case 'quota':
+            return error.retryAfterSeconds
+                ? t('errors.quotaSeconds', { seconds: error.retryAfterSeconds })
+                : t('errors.quota');
+        case 'safety':
+            return t('errors.safety');
+        case 'invalid':
+            return t('errors.invalid');
+        case 'timeout':
+            return t('errors.timeout');
+        default:
+            return fallback;
+    }
+}
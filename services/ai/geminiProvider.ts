@@ -0,0 +1,188 @@
+import { GoogleGenAI, Modality } from "@google/genai";
+import { AiError } from './errors';
+import { LIVE_INPUT_SAMPLE_RATE } from './types';
+import type { AiProvider, ChatSession, ConnectLiveParams, CreateChatParams, GenerateImageParams, GenerateJsonParams, GenerateSpeechParams, GenerateTextParams, LiveSession, Source, TextResult } from './types';
+
+export const GEMINI_MODELS = {
+    text: 'gemini-2.5-flash',
+    image: 'gemini-2.5-flash-image',
+    tts: 'gemini-2.5-flash-preview-tts',
+    live: 'gemini-2.5-flash-native-audio-preview-09-2025',
+};
+
+function getGroundingSources(response): Source[] {
+    const chunks = response?.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+    return chunks
+        .filter(chunk => chunk.web?.uri)
+        .map(chunk => ({ uri: chunk.web.uri, title: chunk.web.title || chunk.web.uri }));
+}
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY'];
+
+// A blocked prompt or answer comes back as an empty success; make it an error the app can explain.
+function checkBlocked(response) {
+    const blockReason = response?.promptFeedback?.blockReason;
+    const finishReason = response?.candidates?.[0]?.finishReason;
+    if (blockReason || BLOCKED_FINISH_REASONS.includes(finishReason)) {
+        throw new AiError('safety', `Gemini blocked the request (${blockReason || finishReason}).`);
+    }
+    return response;
+}
+
+function toTextResult(response): TextResult {
+    checkBlocked(response);
+    return { text: response.text || '', sources: getGroundingSources(response) };
+}
+
+export class GeminiProvider implements AiProvider {
+    readonly name = 'gemini';
+    private client: GoogleGenAI;
+
+    constructor(apiKey: string) {
+        this.client = new GoogleGenAI({ apiKey });
+    }
+
+    async generateText({ prompt, images = [], systemInstruction, useSearch, signal }: GenerateTextParams): Promise<TextResult> {
+        const parts = [...images.map(image => ({ inlineData: image })), { text: prompt }];
+        const response = await this.client.models.generateContent({
+            model: GEMINI_MODELS.text,
+            contents: { parts },
+            config: {
+                systemInstruction,
+                tools: useSearch ? [{ googleSearch: {} }] : undefined,
+                abortSignal: signal,
+            },
+        });
+        return toTextResult(response);
+    }
+
+    async generateJson<T>({ prompt, images = [], systemInstruction, schema, signal }: GenerateJsonParams): Promise<T> {
+        const parts = [...images.map(image => ({ inlineData: image })), { text: prompt }];
+        const response = await this.client.models.generateContent({
+            model: GEMINI_MODELS.text,
+            contents: { parts },
+            config: {
+                systemInstruction,
+                responseMimeType: 'application/json',
+                responseJsonSchema: schema,
+                abortSignal: signal,
+            },
+        });
+        return JSON.parse(checkBlocked(response).text);
+    }
+
+    createChat({ systemInstruction, useSearch, history = [] }: CreateChatParams): ChatSession {
+        const config = {
+            systemInstruction,
+            tools: useSearch ? [{ googleSearch: {} }] : undefined,
+        };
+        const chat = this.client.chats.create({
+            model: GEMINI_MODELS.text,
+            config,
+            history: history.map(turn => ({
+                role: turn.role,
+                parts: [...(turn.images || []).map(image => ({ inlineData: image })), { text: turn.text }],
+            })),
+        });
+        return {
+            sendMessage: async (text, { signal } = {}) => toTextResult(await chat.sendMessage({ message: text, config: { ...config, abortSignal: signal } })),
+            sendMessageStream: async function* (text, { signal } = {}) {
+                // Per-request config replaces the chat's config rather than extending it, so repeat it here.
+                const stream = await chat.sendMessageStream({ message: text, config: { ...config, abortSignal: signal } });
+                for await (const chunk of stream) {
+                    if (signal?.aborted) throw new DOMException('The reply was cancelled.', 'AbortError');
+                    yield toTextResult(chunk);
+                }
+            },
+            setSystemInstruction: (instruction) => {
+                config.systemInstruction = instruction;
+            },
+        };
+    }
+
+    async generateImage({ prompt, images = [], signal }: GenerateImageParams): Promise<string | null> {
+        const parts = [...images.map(image => ({ inlineData: image })), { text: prompt }];
+        const response = await this.client.models.generateContent({
+            model: GEMINI_MODELS.image,
+            contents: { parts },
+            config: {
+                responseModalities: [Modality.IMAGE],
+                abortSignal: signal,
+            },
+        });
+        for (const part of checkBlocked(response).candidates?.[0]?.content?.parts || []) {
+            if (part.inlineData) {
+                return `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
+            }
+        }
+        return null;
+    }
+
+    async generateSpeech({ text, voice, signal }: GenerateSpeechParams): Promise<string | null> {
+        const response = await this.client.models.generateContent({
+            model: GEMINI_MODELS.tts,
+            contents: [{ parts: [{ text }] }],
+            config: {
+                responseModalities: [Modality.AUDIO],
+                speechConfig: {
+                    voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } },
+                },
+                abortSignal: signal,
+            },
+        });
+        return checkBlocked(response).candidates?.[0]?.content?.parts?.[0]?.inlineData?.data || null;
+    }
+
+    connectLive(params: ConnectLiveParams): Promise<LiveSession> {
+        return connectGeminiLive(this.client, params);
+    }
+
+    // A single-use token that lets a browser open one live session without ever seeing the API key.
+    async createLiveToken(): Promise<string> {
+        const token = await this.client.authTokens.create({
+            config: {
+                uses: 1,
+                expireTime: new Date(Date.now() + 30 * 60 * 1000).toISOString(),
+                newSessionExpireTime: new Date(Date.now() + 60 * 1000).toISOString(),
+                liveConnectConstraints: { model: GEMINI_MODELS.live },
+                httpOptions: { apiVersion: 'v1alpha' },
+            },
+        });
+        return token.name;
+    }
+}
+
+// Also used by the proxy provider, whose client holds a live token instead of the API key.
+export async function connectGeminiLive(client: GoogleGenAI, { systemInstruction, voice, callbacks }: ConnectLiveParams): Promise<LiveSession> {
+    const session = await client.live.connect({
+        model: GEMINI_MODELS.live,
+        config: {
+            responseModalities: [Modality.AUDIO],
+            systemInstruction,
+            speechConfig: {
+                voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } },
+            },
+            inputAudioTranscription: {},
+            outputAudioTranscription: {},
+        },
+        callbacks: {
+            onmessage: (message) => {
+                const content = message.serverContent;
+                if (!content) return;
+                for (const part of content.modelTurn?.parts || []) {
+                    if (part.inlineData?.data) callbacks.onAudio(part.inlineData.data);
+                }
+                if (content.inputTranscription?.text) callbacks.onTranscript('user', content.inputTranscription.text);
+                if (content.outputTranscription?.text) callbacks.onTranscript('model', content.outputTranscription.text);
+                if (content.interrupted) callbacks.onInterrupted();
+                if (content.turnComplete) callbacks.onTurnComplete();
+            },
+            onerror: (e) => callbacks.onError(new Error(e.message || 'The live session failed.')),
+            onclose: () => callbacks.onClose(),
+        },
+    });
+    return {
+        sendAudio: (data) => session.sendRealtimeInput({ audio: { data, mimeType: `audio/pcm;rate=${LIVE_INPUT_SAMPLE_RATE}` } }),
+        close: () => session.close(),
+    };
+}
@@ -0,0 +1,29 @@
+import { MockProvider } from './mockProvider';
+import { ProxyProvider } from './proxyProvider';
+import { ResilientProvider } from './resilientProvider';
+import type { AiProvider } from './types';
+
+export * from './types';
+export * from './errors';
+
+// `?ai=mock` in the URL wins over the AI_PROVIDER build setting. Otherwise every call goes through the API proxy,
+// which holds the Gemini key, or answers from the mock itself when it was started with AI_PROVIDER=mock.
+function resolveProviderName(): string {
+    const fromUrl = new URLSearchParams(window.location.search).get('ai');
+    const requested = fromUrl || process.env.AI_PROVIDER;
+    return requested === 'mock' ? 'mock' : 'proxy';
+}
+
+export function createAiProvider(name = resolveProviderName()): AiProvider {
+    switch (name) {
+        case 'mock':
+            return new MockProvider();
+        case 'proxy':
+            return new ProxyProvider();
+        default:
+            throw new Error(`Unknown AI provider: ${name}`);
+    }
+}
+
+// Every call from the app gets timeouts, retries and classified errors, whichever backend answers it.
+export const ai: AiProvider = new ResilientProvider(createAiProvider());
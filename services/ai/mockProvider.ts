@@ -0,0 +1,427 @@
+import { DESTINATIONS, type Destination } from '../../data/destinations';
+import { LIVE_INPUT_SAMPLE_RATE } from './types';
+import type { AiProvider, ChatSession, ConnectLiveParams, CreateChatParams, GenerateImageParams, GenerateJsonParams, GenerateSpeechParams, GenerateTextParams, LiveSession, LiveSessionCallbacks, Source, TextResult } from './types';
+
+// --- Deterministic offline backend for development, demos and tests. Same input, same output, no network. ---
+
+// Canned structured answers for prompts we know; anything else gets placeholder values built from the schema.
+const JSON_FIXTURES: { match: RegExp; build: (match: RegExpMatchArray) => object }[] = [
+    {
+        match: /^Detect the language of the following text and translate it to (.+?)\..*?\n\n([\s\S]*)$/s,
+        build: ([, target, text]) => ({ detectedLanguage: 'English', translation: `[${target}] ${text}` }),
+    },
+    {
+        match: /^This is a photo of a menu, sign or museum placard.*? translate each group to (.+?)\./s,
+        build: ([, target]) => ({
+            detectedLanguage: 'Italian',
+            items: [
+                { original: 'Pasta alla Norma', translation: `[${target}] Pasta alla Norma`, explanation: 'Pasta with fried aubergine, tomato sauce and salted ricotta.', box: [120, 100, 220, 900] },
+                { original: 'Arancine al ragù', translation: `[${target}] Rice balls with meat sauce`, explanation: 'Fried rice balls filled with slow-cooked meat ragù and peas.', box: [300, 100, 400, 900] },
+                { original: 'Cannolo siciliano', translation: `[${target}] Sicilian cannolo`, explanation: 'A crisp pastry tube filled with sweet sheep\'s-milk ricotta.', box: [480, 100, 580, 900] },
+            ],
+        }),
+    },
+    {
+        match: /^Identify the landmark in these photos of ([^,]+),.*?(?:The user has confirmed that this is (.+?), so|$)/s,
+        build: ([prompt, town, confirmedName]) => {
+            const landmarks = findLandmarks(town);
+            const landmark = landmarks.find(l => l.name === confirmedName) || pick(landmarks, prompt);
+            const confidence = confirmedName ? 'high' : pick(['high', 'medium', 'low'], prompt);
+            return {
+                name: confirmedName || landmark.name,
+                landmarkId: !confirmedName || landmark.name === confirmedName ? landmark.id : '',
+                confidence,
+                alternatives: confidence === 'high' ? [] : landmarks.filter(l => l !== landmark).slice(0, 2).map(l => l.name),
+                constructionPeriod: '',
+                architect: '',
+                architecturalStyle: landmark.category === 'church' || landmark.category === 'palazzo' ? 'Sicilian Baroque' : '',
+                history: landmark.summary,
+                montalbanoConnection: landmark.category === 'montalbano' ? 'It appears in the Inspector Montalbano TV series.' : '',
+                visitingHours: 'Usually open in the morning and late afternoon; hours may vary.',
+                notes: pick(mockFacts(findDestination(town)), prompt),
+            };
+        },
+    },
+    {
+        match: /^Explain the dish "(.+?)"/,
+        build: ([, dish]) => ({
+            name: dish,
+            description: `${dish} is a local speciality, usually baked or fried fresh every morning. (Offline demo answer from Mimi.)`,
+            allergens: ['gluten'],
+            unsuitableFor: ['gluten-free'],
+            orderPhrase: `Vorrei ${dish}, per favore.`,
+            orderPhraseMeaning: `I'd like ${dish}, please.`,
+        }),
+    },
+    {
+        match: /^Plan a self-guided walking tour of ([^,]+),.*?about (\d+) minutes/s,
+        build: ([, town, minutes]) => {
+            const landmarks = findLandmarks(town);
+            const stops = landmarks.slice(0, Math.max(2, Math.min(landmarks.length, Math.round(Number(minutes) / 20))));
+            return {
+                title: 'Mimi\'s Baroque Stroll',
+                intro: `Benvenuti! This offline demo tour strings together some of ${town}'s finest sights.`,
+                stops: stops.map((landmark, i) => ({
+                    name: landmark.name,
+                    landmarkId: landmark.id,
+                    story: landmark.summary,
+                    walkingMinutesFromPrevious: i === 0 ? 0 : 5,
+                    visitMinutes: 10,
+                })),
+            };
+        },
+    },
+];
+
+function hash(text: string): number {
+    let h = 2166136261;
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i);
+        h = Math.imul(h, 16777619);
+    }
+    return h >>> 0;
+}
+
+function pick<T>(items: T[], seed: string): T {
+    return items[hash(seed) % items.length];
+}
+
+// Prompts name the town, as "Scicli, Sicily, Italy", so the mock picks the right dataset even on the server, which never
+// sees the visitor's choice. `text` is either that name alone or a whole prompt.
+function findDestination(text: string): Destination {
+    return DESTINATIONS.find(({ name, region }) => text === name || text.includes(`${name}, ${region}`)) || DESTINATIONS[0];
+}
+
+function findLandmarks(town: string) {
+    return findDestination(town).landmarks;
+}
+
+function mockSources({ name }: Destination): Source[] {
+    return [
+        { uri: `https://en.wikipedia.org/wiki/${encodeURIComponent(name.replace(/ /g, '_'))}`, title: `${name} - Wikipedia` },
+        { uri: 'https://whc.unesco.org/en/list/1024', title: 'Late Baroque Towns of the Val di Noto - UNESCO' },
+    ];
+}
+
+// Whatever Mimi is asked, the mock answers with something true about the town she's guiding.
+function mockFacts(destination: Destination): string[] {
+    return [
+        destination.personaIntro,
+        `Don't leave ${destination.name} without trying ${destination.specialities[0]}.`,
+        ...destination.landmarks.map(landmark => `${landmark.name}: ${landmark.summary}`),
+    ];
+}
+
+// A photo is always of one of the town's own landmarks.
+function describePhoto(destination: Destination, seed: string): string {
+    const landmark = pick(destination.landmarks, seed);
+    return `This is ${landmark.name}. ${landmark.summary}`;
+}
+
+function encodeBase64(bytes: Uint8Array): string {
+    let binary = '';
+    const chunkSize = 0x8000;
+    for (let i = 0; i < bytes.length; i += chunkSize) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+    }
+    return btoa(binary);
+}
+
+const SPEECH_SAMPLE_RATE = 24000;
+
+// A gently pulsing tone stands in for speech. `start` keeps the pulse continuous across chunks.
+function toneSamples(seconds: number, frequency: number, start = 0): Int16Array {
+    const samples = new Int16Array(Math.round(SPEECH_SAMPLE_RATE * seconds));
+    for (let i = 0; i < samples.length; i++) {
+        const t = (start + i) / SPEECH_SAMPLE_RATE;
+        const envelope = 0.5 + 0.5 * Math.sin(2 * Math.PI * 3 * t);
+        samples[i] = Math.round(Math.sin(2 * Math.PI * frequency * t) * envelope * 6000);
+    }
+    return samples;
+}
+
+function fillFromSchema(schema, seed: string) {
+    switch (schema?.type) {
+        case 'object':
+            return Object.fromEntries(Object.entries(schema.properties || {}).map(([key, value]) => [key, fillFromSchema(value, `${seed}.${key}`)]));
+        case 'array':
+            return [0, 1].map(i => fillFromSchema(schema.items, `${seed}[${i}]`));
+        case 'number':
+        case 'integer':
+            return (hash(seed) % 10) + 1;
+        case 'boolean':
+            return hash(seed) % 2 === 0;
+        default:
+            return schema?.enum ? pick(schema.enum, seed) : `Mock ${seed.split('.').pop()}`;
+    }
+}
+
+type Rgb = [number, number, number];
+
+function hslToRgb(hue: number, saturation: number, lightness: number): Rgb {
+    const a = saturation * Math.min(lightness, 1 - lightness);
+    const channel = (n: number) => {
+        const k = (n + hue / 30) % 12;
+        return Math.round(255 * (lightness - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))));
+    };
+    return [channel(0), channel(8), channel(4)];
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+    const chunk = new Uint8Array(12 + data.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    chunk.set(new TextEncoder().encode(type), 4);
+    chunk.set(data, 8);
+    view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+    return chunk;
+}
+
+// A real PNG (the API only takes photo formats back when refining), stored without compression so it
+// needs no zlib in the browser. Rows must fit in one stored deflate block.
+function encodePng(width: number, height: number, pixel: (x: number, y: number) => Rgb): Uint8Array {
+    const rowLength = 1 + width * 3;
+    const header = new Uint8Array(13);
+    const headerView = new DataView(header.buffer);
+    headerView.setUint32(0, width);
+    headerView.setUint32(4, height);
+    header.set([8, 2, 0, 0, 0], 8);
+
+    const blocks: Uint8Array[] = [new Uint8Array([0x78, 0x01])];
+    let a = 1;
+    let b = 0;
+    for (let y = 0; y < height; y++) {
+        const row = new Uint8Array(rowLength);
+        for (let x = 0; x < width; x++) row.set(pixel(x, y), 1 + x * 3);
+        for (const byte of row) {
+            a = (a + byte) % 65521;
+            b = (b + a) % 65521;
+        }
+        const block = new Uint8Array(5);
+        block[0] = y === height - 1 ? 1 : 0;
+        new DataView(block.buffer).setUint16(1, rowLength, true);
+        new DataView(block.buffer).setUint16(3, ~rowLength & 0xffff, true);
+        blocks.push(block, row);
+    }
+    const adler = new Uint8Array(4);
+    new DataView(adler.buffer).setUint32(0, ((b << 16) | a) >>> 0);
+    blocks.push(adler);
+
+    return concatBytes([
+        new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+        pngChunk('IHDR', header),
+        pngChunk('IDAT', concatBytes(blocks)),
+        pngChunk('IEND', new Uint8Array()),
+    ]);
+}
+
+export class MockProvider implements AiProvider {
+    readonly name = 'mock';
+
+    // A small delay keeps loaders visible so the UI behaves as it does against the real backend.
+    constructor(readonly latencyMs = 300) {}
+
+    private wait(signal?: AbortSignal): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const cancel = () => {
+                clearTimeout(timeout);
+                reject(new DOMException('The request was cancelled.', 'AbortError'));
+            };
+            const timeout = setTimeout(() => {
+                signal?.removeEventListener('abort', cancel);
+                resolve();
+            }, this.latencyMs);
+            if (signal?.aborted) cancel();
+            else signal?.addEventListener('abort', cancel, { once: true });
+        });
+    }
+
+    private answer(prompt: string, hasImages: boolean): string {
+        const destination = findDestination(prompt);
+        if (hasImages) {
+            return describePhoto(destination, prompt);
+        }
+        const translation = prompt.match(/^Translate the following text from (.+?) to (.+?)\..*?\n\n([\s\S]*)$/s);
+        if (translation) {
+            return `[${translation[2]}] ${translation[3]}`;
+        }
+        return `${pick(mockFacts(destination), prompt)} (Offline demo answer from Mimi.)`;
+    }
+
+    async generateText({ prompt, images = [], useSearch, signal }: GenerateTextParams): Promise<TextResult> {
+        await this.wait(signal);
+        return { text: this.answer(prompt, images.length > 0), sources: useSearch ? mockSources(findDestination(prompt)) : [] };
+    }
+
+    async generateJson<T>({ prompt, schema, signal }: GenerateJsonParams): Promise<T> {
+        await this.wait(signal);
+        for (const fixture of JSON_FIXTURES) {
+            const match = prompt.match(fixture.match);
+            if (match) return fixture.build(match) as T;
+        }
+        return fillFromSchema(schema, 'result') as T;
+    }
+
+    createChat({ systemInstruction, useSearch, history = [] }: CreateChatParams): ChatSession {
+        const destination = findDestination(systemInstruction);
+        let turn = history.filter(t => t.role === 'user').length;
+        const reply = (text: string): TextResult => {
+            turn++;
+            return {
+                text: `${pick(mockFacts(destination), `${turn}:${text}`)} (Offline demo answer to "${text}".)`,
+                sources: useSearch ? mockSources(destination) : [],
+            };
+        };
+        const provider = this;
+        return {
+            sendMessage: async (text, { signal } = {}) => {
+                await this.wait(signal);
+                return reply(text);
+            },
+            sendMessageStream: async function* (text, { signal } = {}) {
+                await provider.wait(signal);
+                const { text: fullText, sources } = reply(text);
+                const words = fullText.split(/(?<= )/);
+                for (let i = 0; i < words.length; i++) {
+                    if (signal?.aborted) throw new DOMException('The reply was cancelled.', 'AbortError');
+                    yield { text: words[i], sources: i === words.length - 1 ? sources : [] };
+                    await new Promise(resolve => setTimeout(resolve, provider.latencyMs / 10));
+                }
+            },
+            setSystemInstruction: () => {},
+        };
+    }
+
+    async generateImage({ prompt, signal }: GenerateImageParams): Promise<string | null> {
+        await this.wait(signal);
+        const hue = hash(prompt) % 360;
+        const sky = hslToRgb(hue, 0.45, 0.88);
+        const wall = hslToRgb((hue + 30) % 360, 0.5, 0.7);
+        const roof = hslToRgb((hue + 60) % 360, 0.45, 0.6);
+        // A house under a pitched roof, like the picture a real model would paint of the prompt.
+        const png = encodePng(256, 192, (x, y) => {
+            if (x >= 78 && x < 178 && y >= 60 && y < 160) return wall;
+            if (y >= 25 && y < 60 && Math.abs(x - 128) <= (y - 25) * 55 / 35) return roof;
+            return sky;
+        });
+        return `data:image/png;base64,${encodeBase64(png)}`;
+    }
+
+    async generateSpeech({ text, voice, signal }: GenerateSpeechParams): Promise<string | null> {
+        await this.wait(signal);
+        const seconds = Math.min(8, 0.5 + text.length * 0.03);
+        const samples = toneSamples(seconds, 220 + (hash(voice) % 220));
+        return encodeBase64(new Uint8Array(samples.buffer));
+    }
+
+    async connectLive({ systemInstruction, voice, callbacks }: ConnectLiveParams): Promise<LiveSession> {
+        await this.wait();
+        return new MockLiveSession(220 + (hash(voice) % 220), mockFacts(findDestination(systemInstruction)), callbacks);
+    }
+}
+
+// Stub transport for the live voice mode: notices when the user stops talking, answers with a tone and a
+// canned transcript in real time, and stops mid-answer when the user talks over it.
+class MockLiveSession implements LiveSession {
+    private static readonly SPEECH_LEVEL = 1000;
+    private static readonly END_OF_TURN_MS = 700;
+    private static readonly CHUNK_MS = 200;
+
+    private speechMs = 0;
+    private silenceMs = 0;
+    private turn = 0;
+    private reply = null;
+    private closed = false;
+
+    constructor(private readonly frequency: number, private readonly facts: string[], private readonly callbacks: LiveSessionCallbacks) {}
+
+    sendAudio(data: string) {
+        if (this.closed) return;
+        const bytes = Uint8Array.from(atob(data), c => c.charCodeAt(0));
+        const samples = new Int16Array(bytes.buffer, 0, bytes.length >> 1);
+        let sumOfSquares = 0;
+        for (const sample of samples) {
+            sumOfSquares += sample * sample;
+        }
+        const chunkMs = (samples.length / LIVE_INPUT_SAMPLE_RATE) * 1000;
+        const isSpeech = samples.length > 0 && Math.sqrt(sumOfSquares / samples.length) > MockLiveSession.SPEECH_LEVEL;
+
+        if (isSpeech) {
+            if (this.reply) {
+                this.stopReply();
+                this.callbacks.onInterrupted();
+                this.callbacks.onTurnComplete();
+            }
+            this.speechMs += chunkMs;
+            this.silenceMs = 0;
+        } else if (this.speechMs > 0) {
+            this.silenceMs += chunkMs;
+            if (this.silenceMs >= MockLiveSession.END_OF_TURN_MS) {
+                this.startReply();
+            }
+        }
+    }
+
+    close() {
+        if (this.closed) return;
+        this.closed = true;
+        this.stopReply();
+        this.callbacks.onClose();
+    }
+
+    private startReply() {
+        this.turn++;
+        this.callbacks.onTranscript('user', `(${(this.speechMs / 1000).toFixed(1)} seconds of speech)`);
+        this.speechMs = 0;
+        this.silenceMs = 0;
+
+        const words = `${pick(this.facts, `live:${this.turn}`)} (Offline demo voice reply.)`.split(/(?<= )/);
+        const chunkSeconds = MockLiveSession.CHUNK_MS / 1000;
+        const chunkCount = Math.ceil(words.length / 2);
+        let chunk = 0;
+        const sendChunk = () => {
+            const start = chunk * chunkSeconds * SPEECH_SAMPLE_RATE;
+            const samples = toneSamples(chunkSeconds, this.frequency, start);
+            this.callbacks.onAudio(encodeBase64(new Uint8Array(samples.buffer)));
+            this.callbacks.onTranscript('model', words.slice(chunk * 2, chunk * 2 + 2).join(''));
+            chunk++;
+            if (chunk === chunkCount) {
+                this.stopReply();
+                this.callbacks.onTurnComplete();
+            }
+        };
+        sendChunk();
+        if (chunk < chunkCount) {
+            this.reply = setInterval(sendChunk, MockLiveSession.CHUNK_MS);
+        }
+    }
+
+    private stopReply() {
+        if (this.reply) {
+            clearInterval(this.reply);
+            this.reply = null;
+        }
+    }
+}
@@ -0,0 +1,111 @@
+import { GoogleGenAI } from "@google/genai";
+import { AiError, kindFromStatus } from './errors';
+import { connectGeminiLive } from './geminiProvider';
+import { MockProvider } from './mockProvider';
+import { recentTurns } from './types';
+import type { AiProvider, ChatRequest, ChatSession, ChatTurn, ConnectLiveParams, CreateChatParams, ErrorResponse, GenerateImageParams, GenerateJsonParams, GenerateSpeechParams, GenerateTextParams, LiveSession, LiveTokenResponse, RequestOptions, TextResult } from './types';
+
+// --- Talks to the API proxy in server/, which holds the Gemini key. Nothing secret is shipped to the browser. ---
+
+async function post(path: string, body: unknown, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(`/api/${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal,
+    });
+    if (!response.ok) {
+        const { error, kind } = (await response.json().catch(() => ({}))) as Partial<ErrorResponse>;
+        const retryAfter = Number(response.headers.get('Retry-After'));
+        throw new AiError(kind || kindFromStatus(response.status), error || `The AI service answered ${response.status}.`, retryAfter || null);
+    }
+    return response;
+}
+
+// The signal stays in the browser; everything else is the request body.
+async function postJson<T>(path: string, { signal, ...body }: { signal?: AbortSignal }): Promise<T> {
+    return (await post(path, body, signal)).json();
+}
+
+// Reads a newline-delimited JSON stream, yielding one parsed object per line.
+async function* readNdjson<T>(response: Response): AsyncGenerator<T> {
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = '';
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffered += decoder.decode(value, { stream: true });
+            const lines = buffered.split('\n');
+            buffered = lines.pop();
+            for (const line of lines) {
+                if (line.trim()) yield JSON.parse(line);
+            }
+        }
+        if (buffered.trim()) yield JSON.parse(buffered);
+    } finally {
+        reader.releaseLock();
+    }
+}
+
+export class ProxyProvider implements AiProvider {
+    readonly name = 'proxy';
+
+    generateText(params: GenerateTextParams): Promise<TextResult> {
+        return postJson('text', params);
+    }
+
+    generateJson<T>(params: GenerateJsonParams): Promise<T> {
+        return postJson('json', params);
+    }
+
+    // The server keeps no chat state, so the conversation lives here and goes up with every message.
+    createChat({ systemInstruction, useSearch, history = [] }: CreateChatParams): ChatSession {
+        let turns: ChatTurn[] = recentTurns(history);
+        let instruction = systemInstruction;
+        const stream = async function* (text: string, { signal }: RequestOptions = {}): AsyncGenerator<TextResult> {
+            const request: ChatRequest = { systemInstruction: instruction, useSearch, history: turns, message: text };
+            const response = await post('chat', request, signal);
+            let reply = '';
+            for await (const chunk of readNdjson<TextResult>(response)) {
+                reply += chunk.text;
+                yield chunk;
+            }
+            // Only a finished reply with something in it joins the history, and only the latest turns are kept.
+            if (reply) {
+                turns = recentTurns([...turns, { role: 'user', text }, { role: 'model', text: reply }]);
+            }
+        };
+        return {
+            sendMessage: async (text, options) => {
+                const result: TextResult = { text: '', sources: [] };
+                for await (const chunk of stream(text, options)) {
+                    result.text += chunk.text;
+                    result.sources.push(...chunk.sources);
+                }
+                return result;
+            },
+            sendMessageStream: stream,
+            setSystemInstruction: (next) => {
+                instruction = next;
+            },
+        };
+    }
+
+    async generateImage(params: GenerateImageParams): Promise<string | null> {
+        return (await postJson<{ image: string | null }>('image', params)).image;
+    }
+
+    async generateSpeech(params: GenerateSpeechParams): Promise<string | null> {
+        return (await postJson<{ audio: string | null }>('speech', params)).audio;
+    }
+
+    // Live audio goes straight to Gemini over a WebSocket, authorised by a single-use token from the server.
+    async connectLive(params: ConnectLiveParams): Promise<LiveSession> {
+        const { token } = await postJson<LiveTokenResponse>('live-token', {});
+        if (!token) return new MockProvider().connectLive(params);
+        const client = new GoogleGenAI({ apiKey: token, httpOptions: { apiVersion: 'v1alpha' } });
+        return connectGeminiLive(client, params);
+    }
+}
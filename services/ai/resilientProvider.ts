@@ -0,0 +1,153 @@
+import { AiError, classifyError } from './errors';
+import type { AiProvider, ChatSession, ConnectLiveParams, CreateChatParams, GenerateImageParams, GenerateJsonParams, GenerateSpeechParams, GenerateTextParams, LiveSession, RequestOptions, TextResult } from './types';
+
+// --- Wraps any provider with timeouts, retries with backoff, and classified errors (see errors.ts) ---
+
+export interface RetryPolicy {
+    retries: number;
+    // Doubled after every attempt, with jitter.
+    baseDelayMs: number;
+    // A quota error asking us to wait longer than this is passed on to the user instead.
+    maxRetryAfterSeconds: number;
+}
+
+const DEFAULT_POLICY: RetryPolicy = { retries: 2, baseDelayMs: 800, maxRetryAfterSeconds: 10 };
+
+// Pictures take far longer than text, so each call gets its own limit.
+const TIMEOUTS_MS = {
+    text: 45000,
+    json: 60000,
+    chat: 60000,
+    image: 90000,
+    speech: 45000,
+};
+
+function isRetryable(error: AiError, policy: RetryPolicy): boolean {
+    if (error.kind === 'quota') return (error.retryAfterSeconds ?? 0) <= policy.maxRetryAfterSeconds;
+    return error.kind === 'network' || error.kind === 'timeout';
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const cancel = () => {
+            clearTimeout(timeout);
+            reject(new AiError('cancelled', 'The request was cancelled.'));
+        };
+        const timeout = setTimeout(() => {
+            signal?.removeEventListener('abort', cancel);
+            resolve();
+        }, ms);
+        if (signal?.aborted) cancel();
+        else signal?.addEventListener('abort', cancel, { once: true });
+    });
+}
+
+// Runs one attempt with its own deadline. The combined signal reaches the provider, and the race makes sure
+// we stop waiting even if the provider ignores it.
+async function attempt<T>(run: (signal: AbortSignal) => Promise<T>, timeoutMs: number, signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) throw new AiError('cancelled', 'The request was cancelled.');
+    const controller = new AbortController();
+    let timedOut = false;
+    const timeout = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+    }, timeoutMs);
+    const forward = () => controller.abort();
+    signal?.addEventListener('abort', forward, { once: true });
+    const aborted = new Promise<never>((_, reject) => {
+        controller.signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')), { once: true });
+    });
+    try {
+        return await Promise.race([run(controller.signal), aborted]);
+    } catch (err) {
+        if (timedOut) throw new AiError('timeout', `No answer after ${timeoutMs / 1000} seconds.`);
+        throw classifyError(err);
+    } finally {
+        clearTimeout(timeout);
+        signal?.removeEventListener('abort', forward);
+    }
+}
+
+export async function withRetries<T>(
+    run: (signal: AbortSignal) => Promise<T>,
+    { timeoutMs, signal, policy = DEFAULT_POLICY }: { timeoutMs: number; signal?: AbortSignal; policy?: RetryPolicy },
+): Promise<T> {
+    for (let attemptNumber = 0; ; attemptNumber++) {
+        try {
+            return await attempt(run, timeoutMs, signal);
+        } catch (err) {
+            const error = err as AiError;
+            if (attemptNumber >= policy.retries || !isRetryable(error, policy)) throw error;
+            const backoff = policy.baseDelayMs * 2 ** attemptNumber * (0.75 + Math.random() * 0.5);
+            await delay(Math.max(backoff, (error.retryAfterSeconds ?? 0) * 1000), signal);
+        }
+    }
+}
+
+export class ResilientProvider implements AiProvider {
+    constructor(private readonly inner: AiProvider, private readonly policy = DEFAULT_POLICY) {}
+
+    get name() {
+        return this.inner.name;
+    }
+
+    generateText(params: GenerateTextParams): Promise<TextResult> {
+        return withRetries(signal => this.inner.generateText({ ...params, signal }), { timeoutMs: TIMEOUTS_MS.text, signal: params.signal, policy: this.policy });
+    }
+
+    generateJson<T>(params: GenerateJsonParams): Promise<T> {
+        return withRetries(signal => this.inner.generateJson<T>({ ...params, signal }), { timeoutMs: TIMEOUTS_MS.json, signal: params.signal, policy: this.policy });
+    }
+
+    createChat(params: CreateChatParams): ChatSession {
+        const chat = this.inner.createChat(params);
+        const policy = this.policy;
+        return {
+            sendMessage: (text, options: RequestOptions = {}) =>
+                withRetries(signal => chat.sendMessage(text, { signal }), { timeoutMs: TIMEOUTS_MS.chat, signal: options.signal, policy }),
+            // Retried only until the first chunk arrives; after that a retry would repeat what the user already read.
+            sendMessageStream: async function* (text, { signal } = {}) {
+                // Each attempt gets a controller that outlives it, so the caller can still stop the rest of the reply.
+                let controller: AbortController;
+                const forward = () => controller?.abort();
+                signal?.addEventListener('abort', forward);
+                try {
+                    let stream: AsyncGenerator<TextResult>;
+                    const first = await withRetries(attemptSignal => {
+                        const attemptController = new AbortController();
+                        controller = attemptController;
+                        attemptSignal.addEventListener('abort', () => attemptController.abort(), { once: true });
+                        stream = chat.sendMessageStream(text, { signal: attemptController.signal });
+                        return stream.next();
+                    }, { timeoutMs: TIMEOUTS_MS.chat, signal, policy });
+                    if (first.done) return;
+                    yield first.value;
+                    for await (const chunk of stream) yield chunk;
+                } catch (err) {
+                    throw classifyError(err);
+                } finally {
+                    signal?.removeEventListener('abort', forward);
+                }
+            },
+            setSystemInstruction: (instruction) => chat.setSystemInstruction(instruction),
+        };
+    }
+
+    generateImage(params: GenerateImageParams): Promise<string | null> {
+        return withRetries(signal => this.inner.generateImage({ ...params, signal }), { timeoutMs: TIMEOUTS_MS.image, signal: params.signal, policy: this.policy });
+    }
+
+    generateSpeech(params: GenerateSpeechParams): Promise<string | null> {
+        return withRetries(signal => this.inner.generateSpeech({ ...params, signal }), { timeoutMs: TIMEOUTS_MS.speech, signal: params.signal, policy: this.policy });
+    }
+
+    // Not timed out or retried: a session we gave up on could still open and hold the microphone.
+    // Errors during the session arrive through the callbacks.
+    async connectLive(params: ConnectLiveParams): Promise<LiveSession> {
+        try {
+            return await this.inner.connectLive(params);
+        } catch (err) {
+            throw classifyError(err);
+        }
+    }
+}
@@ -0,0 +1,139 @@
+import type { AiErrorKind } from './errors';
+
+// --- The contract every AI backend (Gemini, the offline mock, ...) must fulfil ---
+
+export interface Source {
+    uri: string;
+    title: string;
+}
+
+export interface InlineImage {
+    mimeType: string;
+    // Base64 without the data URL prefix.
+    data: string;
+}
+
+export interface TextResult {
+    text: string;
+    sources: Source[];
+}
+
+export interface RequestOptions {
+    // Aborting rejects the request with an AbortError, e.g. when the component that asked is gone.
+    signal?: AbortSignal;
+}
+
+export interface GenerateTextParams extends RequestOptions {
+    prompt: string;
+    images?: InlineImage[];
+    systemInstruction?: string;
+    // Ground the answer with web search.
+    useSearch?: boolean;
+}
+
+export interface ChatTurn {
+    role: 'user' | 'model';
+    text: string;
+    // Photos sent with a user turn, kept in context for every later message.
+    images?: InlineImage[];
+}
+
+export interface GenerateJsonParams extends GenerateTextParams {
+    // A JSON Schema describing the object the model must return.
+    schema: object;
+}
+
+export interface CreateChatParams {
+    systemInstruction: string;
+    useSearch?: boolean;
+    // Earlier turns to replay so the model remembers a restored conversation.
+    history?: ChatTurn[];
+}
+
+export interface ChatSession {
+    sendMessage(text: string, options?: RequestOptions): Promise<TextResult>;
+    // Yields the reply as it arrives; each chunk's text is the new delta, not the whole reply so far.
+    // Aborting the signal rejects with an AbortError.
+    sendMessageStream(text: string, options?: RequestOptions): AsyncGenerator<TextResult>;
+    // Applies to the next message onwards without losing the conversation so far.
+    setSystemInstruction(systemInstruction: string): void;
+}
+
+export interface GenerateImageParams extends RequestOptions {
+    prompt: string;
+    // Images to work from, e.g. the user's photo to restyle or a previous result to edit.
+    images?: InlineImage[];
+}
+
+export interface GenerateSpeechParams extends RequestOptions {
+    text: string;
+    voice: string;
+}
+
+// Microphone audio goes up as 16-bit PCM, mono, at this rate; replies come back at 24 kHz like TTS.
+export const LIVE_INPUT_SAMPLE_RATE = 16000;
+
+export interface LiveSessionCallbacks {
+    // A chunk of the spoken reply as base64 16-bit PCM at 24 kHz mono, to be played as soon as it arrives.
+    onAudio(data: string): void;
+    // Running transcripts of both sides; each call carries the new text, not the whole turn so far.
+    onTranscript(role: 'user' | 'model', text: string): void;
+    // The user spoke over the reply, so any of it still queued for playback should be dropped.
+    onInterrupted(): void;
+    onTurnComplete(): void;
+    onClose(): void;
+    onError(error: Error): void;
+}
+
+export interface ConnectLiveParams {
+    systemInstruction: string;
+    voice: string;
+    callbacks: LiveSessionCallbacks;
+}
+
+export interface LiveSession {
+    // Base64 16-bit PCM at LIVE_INPUT_SAMPLE_RATE, mono.
+    sendAudio(data: string): void;
+    close(): void;
+}
+
+export interface AiProvider {
+    readonly name: string;
+    generateText(params: GenerateTextParams): Promise<TextResult>;
+    generateJson<T>(params: GenerateJsonParams): Promise<T>;
+    createChat(params: CreateChatParams): ChatSession;
+    // Resolves to a data URL, or null when the model returned no image.
+    generateImage(params: GenerateImageParams): Promise<string | null>;
+    // Resolves to base64 16-bit PCM at 24 kHz mono, or null when the model returned no audio.
+    generateSpeech(params: GenerateSpeechParams): Promise<string | null>;
+    // Opens a real-time voice session: microphone audio in, spoken replies and transcripts out.
+    connectLive(params: ConnectLiveParams): Promise<LiveSession>;
+}
+
+// --- Wire format between the browser and the API proxy in server/ ---
+
+// The server refuses longer histories, so clients send only the latest turns. Even, so question/answer pairs stay together.
+export const MAX_HISTORY_TURNS = 100;
+
+export function recentTurns(turns: ChatTurn[]): ChatTurn[] {
+    return turns.slice(-MAX_HISTORY_TURNS);
+}
+
+export interface ChatRequest {
+    systemInstruction: string;
+    useSearch?: boolean;
+    history: ChatTurn[];
+    message: string;
+}
+
+export interface LiveTokenResponse {
+    // Null when the server runs the mock backend; the browser then uses its local live stub.
+    token: string | null;
+}
+
+export interface ErrorResponse {
+    error: string;
+    kind: AiErrorKind;
+}
+
+export const AVAILABLE_VOICES = ['Kore', 'Puck', 'Charon', 'Fenrir', 'Zephyr'];
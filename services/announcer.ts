@@ -0,0 +1,27 @@
+import { useSyncExternalStore } from 'react';
+
+// --- Short spoken updates for screen readers, read from a single live region in the App ---
+
+let announcement = '';
+const listeners = new Set<() => void>();
+
+function subscribe(listener: () => void) {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+function getAnnouncement() {
+    return announcement;
+}
+
+// Screen readers only speak when the region's text changes, so a repeated message gets a different trailing space.
+export function announce(message: string) {
+    announcement = announcement === message ? `${message} ` : message;
+    listeners.forEach(listener => listener());
+}
+
+export function useAnnouncement(): string {
+    return useSyncExternalStore(subscribe, getAnnouncement);
+}
@@ -0,0 +1,45 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { buildArtworkPrompt } from './artwork';
+import type { LandmarkAnalysis } from './landmarkAnalysis';
+
+// The picture is painted from what the Magic Lens found out, not just the landmark's name.
+
+const details: LandmarkAnalysis = {
+    name: 'Chiesa di San Bartolomeo',
+    landmarkId: 'san-bartolomeo',
+    confidence: 'high',
+    alternatives: [],
+    constructionPeriod: '1693-1752',
+    architect: 'Salvatore Alì',
+    architecturalStyle: 'Sicilian Baroque',
+    history: '',
+    montalbanoConnection: '',
+    visitingHours: '',
+    notes: '',
+};
+
+describe('artwork prompts', () => {
+    it.each([
+        ['a photo', { mimeType: 'image/jpeg', data: 'AAAA' }],
+        ['no photo', null],
+    ])('describe the building from its analysis with %s', (_, photo) => {
+        const prompt = buildArtworkPrompt({ landmarkName: details.name, details, styleId: 'watercolor', photo });
+        expect(prompt).toContain('Chiesa di San Bartolomeo in Scicli, Sicily, Italy');
+        expect(prompt).toContain('a Sicilian Baroque building');
+        expect(prompt).toContain('built 1693-1752');
+        expect(prompt).toContain('designed by Salvatore Alì');
+        expect(prompt).toContain('watercolor');
+    });
+
+    it('leave out what the analysis does not know', () => {
+        const prompt = buildArtworkPrompt({ landmarkName: 'Palazzo Beneventano', details: { ...details, architect: '', constructionPeriod: '' }, styleId: 'ink-sketch' });
+        expect(prompt).toContain('Palazzo Beneventano in Scicli, Sicily, Italy (a Sicilian Baroque building)');
+        expect(prompt).not.toContain('designed by');
+    });
+
+    it('still work for places saved before analyses were structured', () => {
+        const prompt = buildArtworkPrompt({ landmarkName: 'Palazzo Beneventano', details: null, styleId: 'ink-sketch' });
+        expect(prompt).toContain('Palazzo Beneventano in Scicli, Sicily, Italy,');
+    });
+});
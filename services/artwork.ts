@@ -0,0 +1,98 @@
+import { ai } from './ai';
+import type { InlineImage, RequestOptions } from './ai';
+import { describePlace } from './destination';
+import type { MessageKey } from './i18n';
+import type { LandmarkAnalysis } from './landmarkAnalysis';
+
+// --- "Mimi's Artistic Impression": the user's photo reimagined in a chosen style, and postcards made from it ---
+
+export const ART_STYLES: { id: string; label: MessageKey; prompt: string }[] = [
+    { id: 'watercolor', label: 'artwork.style.watercolor', prompt: 'a beautiful, artistic watercolor illustration with soft washes of colour' },
+    { id: 'ink-sketch', label: 'artwork.style.inkSketch', prompt: 'a loose pen-and-ink travel sketch with fine hatching on cream paper' },
+    { id: 'vintage-postcard', label: 'artwork.style.vintagePostcard', prompt: 'a hand-tinted vintage postcard from the 1950s, with faded colours and a slightly grainy print' },
+    { id: 'baroque-oil', label: 'artwork.style.baroqueOil', prompt: 'a dramatic 18th-century Baroque oil painting with rich chiaroscuro and golden light' },
+    // A mood, not a frame from the show: no actors or characters.
+    { id: 'tv-still', label: 'artwork.style.tvStill', prompt: 'a still from a 1990s Italian TV detective series shot on film, with warm sun-bleached colours, soft grain and no recognisable people' },
+];
+
+export const DEFAULT_ART_STYLE = 'watercolor';
+
+export interface GenerateArtworkParams extends RequestOptions {
+    landmarkName: string;
+    // What the Magic Lens found out about the building, so the picture gets its style and age right. Missing for
+    // places saved before analyses were structured.
+    details?: LandmarkAnalysis | null;
+    styleId: string;
+    // The user's photo, so the picture shows their view of the place rather than a generic one.
+    photo?: InlineImage | null;
+}
+
+function findStyle(styleId: string) {
+    return ART_STYLES.find(style => style.id === styleId) || ART_STYLES[0];
+}
+
+function fromDataUrl(dataUrl: string): InlineImage {
+    const [header, data] = dataUrl.split(',');
+    return { mimeType: header.match(/^data:(.*?);/)?.[1] || 'image/png', data };
+}
+
+// "a Sicilian Baroque building, built 1693-1750, designed by Rosario Gagliardi", from whichever fields the analysis filled.
+function describeBuilding(details?: LandmarkAnalysis | null): string {
+    return [
+        details?.architecturalStyle && `a ${details.architecturalStyle} building`,
+        details?.constructionPeriod && `built ${details.constructionPeriod}`,
+        details?.architect && `designed by ${details.architect}`,
+    ].filter(Boolean).join(', ');
+}
+
+export function buildArtworkPrompt({ landmarkName, details, styleId, photo }: Omit<GenerateArtworkParams, 'signal'>): string {
+    const style = findStyle(styleId);
+    const building = describeBuilding(details);
+    const subject = `${landmarkName} in ${describePlace()}${building ? ` (${building})` : ''}`;
+    return photo
+        ? `Turn this photo of ${subject}, into ${style.prompt}. Keep the building and its surroundings recognisable from the same viewpoint.`
+        : `Generate ${style.prompt} of ${subject}, showing its façade in golden limestone under a bright Sicilian sky.`;
+}
+
+export function generateArtwork({ signal, ...params }: GenerateArtworkParams): Promise<string | null> {
+    return ai.generateImage({ prompt: buildArtworkPrompt(params), images: params.photo ? [params.photo] : [], signal });
+}
+
+// Edits an existing picture with a short instruction such as "add a sunset".
+export function refineArtwork(artwork: string, instruction: string, styleId: string, signal?: AbortSignal): Promise<string | null> {
+    const style = findStyle(styleId);
+    const prompt = `Edit this picture: ${instruction}. Keep everything else, including its style as ${style.prompt}.`;
+    return ai.generateImage({ prompt, images: [fromDataUrl(artwork)], signal });
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error('Could not load the artwork.'));
+        img.src = src;
+    });
+}
+
+// A postcard-sized JPEG: the artwork on a white card with a handwritten-style caption underneath.
+export async function createPostcard(artwork: string, caption: string): Promise<string> {
+    const img = await loadImage(artwork);
+    const width = 1500;
+    const margin = 60;
+    const captionHeight = 140;
+    const pictureWidth = width - margin * 2;
+    const pictureHeight = Math.round(pictureWidth * (img.height / img.width));
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = margin + pictureHeight + captionHeight;
+    const ctx = canvas.getContext('2d');
+    ctx.fillStyle = '#FFFDF5';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(img, margin, margin, pictureWidth, pictureHeight);
+    ctx.fillStyle = '#4B5320';
+    ctx.font = 'italic 48px Georgia, serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(caption, width / 2, margin + pictureHeight + captionHeight / 2, pictureWidth);
+    return canvas.toDataURL('image/jpeg', 0.92);
+}
@@ -0,0 +1,235 @@
+import { useSyncExternalStore } from 'react';
+import { decode, decodeAudioData, getAudioContext, TTS_SAMPLE_RATE } from './audio';
+import { getSpeech } from './ttsCache';
+import { readSetting, writeSetting } from './settings';
+
+// --- One player for every bit of narration, so nothing ever talks over anything else ---
+
+export type PlaybackStatus = 'idle' | 'loading' | 'playing' | 'paused';
+
+export interface AudioEngineState {
+    status: PlaybackStatus;
+    label: string;
+    // Seconds.
+    duration: number;
+    position: number;
+    rate: number;
+    queueLength: number;
+}
+
+export interface PlayRequest {
+    text: string;
+    voice: string;
+    // What the player shows; defaults to the text itself.
+    label?: string;
+    // 'interrupt' stops whatever is playing; 'queue' waits its turn.
+    mode?: 'interrupt' | 'queue';
+}
+
+// 'ended' when it played to the end, 'stopped' when it was interrupted or never got to play.
+export type PlayOutcome = 'ended' | 'stopped';
+
+interface QueueItem extends PlayRequest {
+    buffer?: AudioBuffer;
+    resolve: (outcome: PlayOutcome) => void;
+    reject: (err: unknown) => void;
+}
+
+export const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5];
+
+class AudioEngine {
+    private state: AudioEngineState = {
+        status: 'idle',
+        label: '',
+        duration: 0,
+        position: 0,
+        rate: readSetting('playbackRate', 1),
+        queueLength: 0,
+    };
+    private listeners = new Set<() => void>();
+    private queue: QueueItem[] = [];
+    private current: QueueItem | null = null;
+    private source: AudioBufferSourceNode | null = null;
+    // Where in the buffer the current source started, and the context time it started at.
+    private offset = 0;
+    private startedAt = 0;
+    private ticker = null;
+    // Bumped on stop so loads still in flight know they've been cancelled.
+    private generation = 0;
+
+    getState = () => this.state;
+
+    subscribe = (listener: () => void) => {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    };
+
+    play(request: PlayRequest): Promise<PlayOutcome> {
+        return new Promise((resolve, reject) => {
+            if ((request.mode || 'interrupt') === 'interrupt') {
+                this.stop();
+            }
+            this.queue.push({ ...request, label: request.label || request.text, resolve, reject });
+            if (this.current) {
+                this.setState({ queueLength: this.queue.length });
+            } else {
+                this.playNext();
+            }
+        });
+    }
+
+    pause() {
+        if (this.state.status !== 'playing') return;
+        this.offset = this.currentPosition();
+        this.stopSource();
+        this.setState({ status: 'paused', position: this.offset });
+    }
+
+    resume() {
+        if (this.state.status !== 'paused') return;
+        this.startSource();
+    }
+
+    togglePause() {
+        if (this.state.status === 'playing') {
+            this.pause();
+        } else {
+            this.resume();
+        }
+    }
+
+    seek(seconds: number) {
+        if (!this.current?.buffer) return;
+        this.offset = Math.max(0, Math.min(seconds, this.current.buffer.duration));
+        if (this.state.status === 'playing') {
+            this.stopSource();
+            this.startSource();
+        } else {
+            this.setState({ position: this.offset });
+        }
+    }
+
+    setRate(rate: number) {
+        if (this.source) {
+            this.offset = this.currentPosition();
+            this.startedAt = getAudioContext().currentTime;
+            this.source.playbackRate.value = rate;
+        }
+        writeSetting('playbackRate', rate);
+        this.setState({ rate });
+    }
+
+    stop() {
+        this.generation++;
+        this.stopSource();
+        const pending = [this.current, ...this.queue].filter(Boolean);
+        this.current = null;
+        this.queue = [];
+        pending.forEach(item => item.resolve('stopped'));
+        this.setState({ status: 'idle', label: '', duration: 0, position: 0, queueLength: 0 });
+    }
+
+    private async playNext() {
+        const item = this.queue.shift();
+        if (!item) {
+            this.current = null;
+            this.setState({ status: 'idle', label: '', duration: 0, position: 0, queueLength: 0 });
+            return;
+        }
+        this.current = item;
+        const generation = this.generation;
+        this.setState({ status: 'loading', label: item.label, duration: 0, position: 0, queueLength: this.queue.length });
+        try {
+            const audio = await getSpeech(item.text, item.voice);
+            if (generation !== this.generation) return;
+            if (!audio) {
+                this.finishCurrent('ended');
+                return;
+            }
+            const audioContext = getAudioContext();
+            if (audioContext.state === 'suspended') {
+                await audioContext.resume();
+            }
+            item.buffer = await decodeAudioData(decode(audio), audioContext, TTS_SAMPLE_RATE, 1);
+            if (generation !== this.generation) return;
+            this.offset = 0;
+            this.startSource();
+        } catch (err) {
+            if (generation !== this.generation) return;
+            this.current = null;
+            item.reject(err);
+            this.playNext();
+        }
+    }
+
+    private finishCurrent(outcome: PlayOutcome) {
+        const item = this.current;
+        this.current = null;
+        item?.resolve(outcome);
+        this.playNext();
+    }
+
+    private startSource() {
+        const audioContext = getAudioContext();
+        const source = audioContext.createBufferSource();
+        source.buffer = this.current.buffer;
+        source.playbackRate.value = this.state.rate;
+        source.connect(audioContext.destination);
+        source.onended = () => {
+            // Pausing and seeking stop the source too; only a natural end moves the queue on.
+            if (this.source !== source) return;
+            this.source = null;
+            this.stopTicker();
+            this.finishCurrent('ended');
+        };
+        this.source = source;
+        this.startedAt = audioContext.currentTime;
+        source.start(0, this.offset);
+        this.setState({ status: 'playing', duration: this.current.buffer.duration, position: this.offset });
+        this.startTicker();
+    }
+
+    private stopSource() {
+        this.stopTicker();
+        if (!this.source) return;
+        const source = this.source;
+        this.source = null;
+        source.onended = null;
+        try {
+            source.stop();
+        } catch {
+            // Already stopped.
+        }
+    }
+
+    private currentPosition() {
+        if (!this.source) return this.offset;
+        const elapsed = (getAudioContext().currentTime - this.startedAt) * this.state.rate;
+        return Math.min(this.state.duration, this.offset + elapsed);
+    }
+
+    private startTicker() {
+        this.stopTicker();
+        this.ticker = setInterval(() => this.setState({ position: this.currentPosition() }), 250);
+    }
+
+    private stopTicker() {
+        if (this.ticker) {
+            clearInterval(this.ticker);
+            this.ticker = null;
+        }
+    }
+
+    private setState(update: Partial<AudioEngineState>) {
+        this.state = { ...this.state, ...update };
+        this.listeners.forEach(listener => listener());
+    }
+}
+
+export const audioEngine = new AudioEngine();
+
+export function useAudioEngine(): AudioEngineState {
+    return useSyncExternalStore(audioEngine.subscribe, audioEngine.getState);
+}
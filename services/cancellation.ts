@@ -0,0 +1,15 @@
+import { useEffect, useRef } from 'react';
+
+// --- Cancelling AI requests whose answer would land in a component that's gone or has moved on ---
+
+// Returns a function that hands out a fresh AbortSignal per request. Starting a request aborts the previous one
+// from the same hook, and unmounting aborts whatever is still running, so stale answers reject as 'cancelled'.
+export function useRequestSignal(): () => AbortSignal {
+    const controllerRef = useRef<AbortController | null>(null);
+    useEffect(() => () => controllerRef.current?.abort(), []);
+    return () => {
+        controllerRef.current?.abort();
+        controllerRef.current = new AbortController();
+        return controllerRef.current.signal;
+    };
+}
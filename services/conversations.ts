@@ -0,0 +1,60 @@
+import { STORES, getAll, put, remove } from './db';
+import { recentTurns, type ChatTurn, type Source } from './ai';
+
+// --- Local Guide conversations kept on the device ---
+
+export interface ChatMessage {
+    id: string;
+    role: 'user' | 'model';
+    text: string;
+    // Model messages only: 'streaming' | 'done' | 'cancelled' | 'interrupted' | 'error'.
+    status?: string;
+    // Web pages the reply was grounded on.
+    sources?: Source[];
+}
+
+export interface Conversation {
+    id: string;
+    title: string;
+    createdAt: number;
+    updatedAt: number;
+    messages: ChatMessage[];
+}
+
+export function createConversation(): Conversation {
+    const now = Date.now();
+    return { id: crypto.randomUUID(), title: '', createdAt: now, updatedAt: now, messages: [] };
+}
+
+export async function listConversations(): Promise<Conversation[]> {
+    const conversations = await getAll<Conversation>(STORES.conversations);
+    return conversations.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export function saveConversation(conversation: Conversation): Promise<void> {
+    return put(STORES.conversations, conversation);
+}
+
+export function deleteConversation(id: string): Promise<void> {
+    return remove(STORES.conversations, id);
+}
+
+export function getConversationTitle(messages: ChatMessage[]): string {
+    const firstQuestion = messages.find(msg => msg.role === 'user')?.text || '';
+    return firstQuestion.length > 40 ? `${firstQuestion.slice(0, 40)}…` : firstQuestion;
+}
+
+// Only replays question/answer pairs that actually got an answer, so the model sees a well-formed history, and only the
+// latest of them, so a long conversation can still be picked up again.
+export function toChatHistory(messages: ChatMessage[]): ChatTurn[] {
+    const history: ChatTurn[] = [];
+    for (let i = 0; i < messages.length - 1; i++) {
+        const question = messages[i];
+        const answer = messages[i + 1];
+        if (question.role === 'user' && answer.role === 'model' && answer.text && answer.status !== 'error' && answer.status !== 'streaming') {
+            history.push({ role: 'user', text: question.text }, { role: 'model', text: answer.text });
+            i++;
+        }
+    }
+    return recentTurns(history);
+}
@@ -0,0 +1,90 @@
+// --- IndexedDB helpers shared by everything Mimi keeps on the device ---
+
+const DB_NAME = 'mimi-tour-guide';
+const DB_VERSION = 5;
+
+export const STORES = {
+    savedPlaces: 'savedPlaces',
+    conversations: 'conversations',
+    offlineContent: 'offlineContent',
+    ttsCache: 'ttsCache',
+    journal: 'journal',
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDb(): Promise<IDBDatabase> {
+    if (dbPromise) return dbPromise;
+    dbPromise = new Promise((resolve, reject) => {
+        if (!('indexedDB' in window)) {
+            reject(new Error('IndexedDB is not supported by this browser.'));
+            return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(STORES.savedPlaces)) {
+                const store = db.createObjectStore(STORES.savedPlaces, { keyPath: 'id' });
+                store.createIndex('createdAt', 'createdAt');
+            }
+            if (!db.objectStoreNames.contains(STORES.conversations)) {
+                const store = db.createObjectStore(STORES.conversations, { keyPath: 'id' });
+                store.createIndex('updatedAt', 'updatedAt');
+            }
+            if (!db.objectStoreNames.contains(STORES.offlineContent)) {
+                db.createObjectStore(STORES.offlineContent, { keyPath: 'key' });
+            }
+            if (!db.objectStoreNames.contains(STORES.ttsCache)) {
+                db.createObjectStore(STORES.ttsCache, { keyPath: 'key' });
+            }
+            // Speech cached before version 5 had no index to evict the oldest clips by.
+            const ttsCache = request.transaction.objectStore(STORES.ttsCache);
+            if (!ttsCache.indexNames.contains('createdAt')) {
+                ttsCache.createIndex('createdAt', 'createdAt');
+            }
+            if (!db.objectStoreNames.contains(STORES.journal)) {
+                const store = db.createObjectStore(STORES.journal, { keyPath: 'id' });
+                store.createIndex('createdAt', 'createdAt');
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            dbPromise = null;
+            reject(request.error);
+        };
+    });
+    return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+export async function getAll<T>(storeName: string): Promise<T[]> {
+    const db = await openDb();
+    return promisify(db.transaction(storeName, 'readonly').objectStore(storeName).getAll());
+}
+
+export async function getOne<T>(storeName: string, key: IDBValidKey): Promise<T | undefined> {
+    const db = await openDb();
+    return promisify(db.transaction(storeName, 'readonly').objectStore(storeName).get(key));
+}
+
+// Primary keys only, ordered by the index, so large records aren't read just to find them.
+export async function getKeysByIndex(storeName: string, indexName: string): Promise<IDBValidKey[]> {
+    const db = await openDb();
+    return promisify(db.transaction(storeName, 'readonly').objectStore(storeName).index(indexName).getAllKeys());
+}
+
+export async function put<T>(storeName: string, value: T): Promise<void> {
+    const db = await openDb();
+    await promisify(db.transaction(storeName, 'readwrite').objectStore(storeName).put(value));
+}
+
+export async function remove(storeName: string, key: IDBValidKey): Promise<void> {
+    const db = await openDb();
+    await promisify(db.transaction(storeName, 'readwrite').objectStore(storeName).delete(key));
+}
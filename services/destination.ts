@@ -0,0 +1,64 @@
+import { useSyncExternalStore } from 'react';
+import { DESTINATIONS, DEFAULT_DESTINATION_ID, type Destination } from '../data/destinations';
+import { readSetting, writeSetting } from './settings';
+
+// --- The town Mimi is guiding the visitor around, chosen in the header or with `?destination=` ---
+
+const URL_PARAM = 'destination';
+
+function findDestination(id: string): Destination | undefined {
+    return DESTINATIONS.find(destination => destination.id === id);
+}
+
+function readUrlDestination(): string {
+    return typeof location === 'undefined' ? '' : new URLSearchParams(location.search).get(URL_PARAM) || '';
+}
+
+// A shared link wins over the last town picked on this device, and becomes the new choice.
+const linked = findDestination(readUrlDestination());
+let current: Destination = linked || findDestination(readSetting('destination', '')) || findDestination(DEFAULT_DESTINATION_ID);
+const listeners = new Set<() => void>();
+
+if (linked) writeSetting('destination', linked.id);
+
+export function getDestination(): Destination {
+    return current;
+}
+
+export function setDestination(id: string) {
+    const destination = findDestination(id);
+    if (!destination || destination === current) return;
+    current = destination;
+    writeSetting('destination', id);
+    // Keeps the address bar shareable without adding a history entry per switch.
+    const url = new URL(location.href);
+    url.searchParams.set(URL_PARAM, id);
+    history.replaceState(history.state, '', url);
+    listeners.forEach(listener => listener());
+}
+
+function subscribe(listener: () => void) {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+// "Scicli, Sicily, Italy", for prompts.
+export function describePlace(destination = current): string {
+    return `${destination.name}, ${destination.region}`;
+}
+
+export function themesInstruction(destination = current): string {
+    return `Visitors to ${destination.name} come for ${destination.themes.map(theme => theme.prompt).join('; and for ')}.`;
+}
+
+// Opens Mimi's system instructions: who she is, where, and what visitors come for.
+export function personaInstruction(destination = current): string {
+    return `You are Mimi, a friendly and knowledgeable tour guide for ${describePlace(destination)}. ${destination.personaIntro} ${themesInstruction(destination)}`;
+}
+
+// Re-renders the component whenever the visitor switches town.
+export function useDestination(): Destination {
+    return useSyncExternalStore(subscribe, getDestination);
+}
@@ -0,0 +1,70 @@
+import { ai } from './ai';
+import type { RequestOptions, TextResult } from './ai';
+import type { Coordinates } from './geo';
+import { languageInstruction, type MessageKey } from './i18n';
+import { getDestination, describePlace, personaInstruction } from './destination';
+
+// --- Food: where to eat nearby and what the dishes on the menu actually are, for the visitor's dietary needs ---
+
+export type DietaryNeed = 'vegetarian' | 'gluten-free' | 'nut-allergy' | 'halal';
+
+export const DIETARY_NEEDS: { id: DietaryNeed; label: MessageKey; prompt: string }[] = [
+    { id: 'vegetarian', label: 'food.need.vegetarian', prompt: 'vegetarian (no meat or fish, including in stocks and fillings)' },
+    { id: 'gluten-free', label: 'food.need.glutenFree', prompt: 'gluten-free (coeliac, so cross-contamination matters too)' },
+    { id: 'nut-allergy', label: 'food.need.nutAllergy', prompt: 'allergic to nuts, including almonds and pistachios' },
+    { id: 'halal', label: 'food.need.halal', prompt: 'halal (no pork, no alcohol, including in cooking)' },
+];
+
+export interface DishExplanation {
+    name: string;
+    description: string;
+    // In the visitor's language, e.g. "gluten" or "almonds".
+    allergens: string[];
+    // Which of the visitor's needs the usual recipe breaks.
+    unsuitableFor: DietaryNeed[];
+    orderPhrase: string;
+    orderPhraseMeaning: string;
+}
+
+const DISH_SCHEMA = {
+    type: 'object',
+    properties: {
+        name: { type: 'string', description: 'The dish name as it appears on local menus, untranslated.' },
+        description: { type: 'string', description: 'What the dish is and how it is made, in 2-3 sentences, told by Mimi.' },
+        allergens: { type: 'array', items: { type: 'string' }, description: 'Common allergens in the usual recipe, such as gluten, nuts, dairy, eggs, fish, shellfish or sesame, plus pork or alcohol.' },
+        unsuitableFor: { type: 'array', items: { type: 'string', enum: DIETARY_NEEDS.map(need => need.id) }, description: "Which of the visitor's dietary needs the usual recipe does not meet." },
+        orderPhrase: { type: 'string', description: "A short, polite phrase in Italian to order the dish, mentioning the visitor's dietary needs if any." },
+        orderPhraseMeaning: { type: 'string', description: 'What the Italian phrase means.' },
+    },
+    required: ['name', 'description', 'allergens', 'unsuitableFor', 'orderPhrase', 'orderPhraseMeaning'],
+};
+
+function describeNeeds(needs: DietaryNeed[]): string {
+    const prompts = DIETARY_NEEDS.filter(need => needs.includes(need.id)).map(need => need.prompt);
+    return prompts.length ? `The visitor is ${prompts.join('; ')}.` : 'The visitor has no dietary restrictions.';
+}
+
+export interface SuggestFoodParams extends RequestOptions {
+    needs: DietaryNeed[];
+    location: Coordinates | null;
+}
+
+// Searches for real places, so the answer is prose with sources rather than structured data.
+export function suggestFood({ needs, location, signal }: SuggestFoodParams): Promise<TextResult> {
+    const destination = getDestination();
+    const locationPrompt = location
+        ? `The visitor is at latitude ${location.latitude}, longitude ${location.longitude}; suggest places within a short walk.`
+        : 'Suggest places in the town centre.';
+    const prompt = `${personaInstruction(destination)} Use search to suggest 3 to 5 places to eat, drink or buy pastries in ${describePlace(destination)}. ${locationPrompt} ${describeNeeds(needs)} Only suggest places that can cater for that, and say what to order there. List them as Markdown bullets that start with the bold name, like "- **Name**: why it's worth it". Then, under a heading of its own, list the local specialities that suit the visitor, such as ${destination.specialities.join(', ')}, as plain bullets without bold names. ${languageInstruction()}`;
+    return ai.generateText({ prompt, useSearch: true, signal });
+}
+
+export interface ExplainDishParams extends RequestOptions {
+    dish: string;
+    needs: DietaryNeed[];
+}
+
+export function explainDish({ dish, needs, signal }: ExplainDishParams): Promise<DishExplanation> {
+    const prompt = `Explain the dish "${dish}" to a visitor in ${describePlace()}, as the tour guide Mimi. ${describeNeeds(needs)} Flag its allergens and whether it suits those needs. If recipes vary, go by the usual local one and say so. ${languageInstruction()} The order phrase is the exception and is always in Italian.`;
+    return ai.generateJson<DishExplanation>({ prompt, schema: DISH_SCHEMA, signal });
+}
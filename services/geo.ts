@@ -0,0 +1,28 @@
+// --- Small geographic helpers ---
+
+export interface Coordinates {
+    latitude: number;
+    longitude: number;
+}
+
+const EARTH_RADIUS_METERS = 6371000;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Haversine distance; plenty accurate at walking scale.
+export function distanceInMeters(a: Coordinates, b: Coordinates): number {
+    const dLat = toRadians(b.latitude - a.latitude);
+    const dLon = toRadians(b.longitude - a.longitude);
+    const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+    return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h));
+}
+
+export function formatDistance(meters: number): string {
+    return meters < 1000 ? `${Math.round(meters / 10) * 10} m` : `${(meters / 1000).toFixed(1)} km`;
+}
+
+export function sortByDistance<T extends Coordinates>(items: T[], from: Coordinates): (T & { distance: number })[] {
+    return items
+        .map(item => ({ ...item, distance: distanceInMeters(from, item) }))
+        .sort((a, b) => a.distance - b.distance);
+}
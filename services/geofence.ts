@@ -0,0 +1,63 @@
+import { distanceInMeters } from './geo';
+import type { Coordinates } from './geo';
+import { readSetting, writeSetting } from './settings';
+
+// --- Decides when the user has walked up to a landmark ---
+
+export interface GeofenceTarget extends Coordinates {
+    id: string;
+}
+
+export interface Fix extends Coordinates {
+    accuracy: number;
+}
+
+export interface GeofenceOptions {
+    radiusMeters?: number;
+    // Fixes less precise than this could put the user on the wrong street, so they never trigger anything.
+    maxAccuracyMeters?: number;
+    cooldownMs?: number;
+}
+
+const COOLDOWN_SETTING = 'geofenceTriggers';
+
+export class GeofenceEngine<T extends GeofenceTarget> {
+    private inside = new Set<string>();
+    private lastTriggered: Record<string, number>;
+    private radiusMeters: number;
+    private maxAccuracyMeters: number;
+    private cooldownMs: number;
+
+    constructor(private targets: T[], { radiusMeters = 40, maxAccuracyMeters = 60, cooldownMs = 30 * 60 * 1000 }: GeofenceOptions = {}) {
+        this.radiusMeters = radiusMeters;
+        this.maxAccuracyMeters = maxAccuracyMeters;
+        this.cooldownMs = cooldownMs;
+        // Remembered across reloads so refreshing the page doesn't replay the same intro.
+        this.lastTriggered = readSetting(COOLDOWN_SETTING, {});
+    }
+
+    // Returns the targets the user has just entered and that aren't cooling down.
+    update(fix: Fix, now = Date.now()): T[] {
+        if (fix.accuracy > this.maxAccuracyMeters) return [];
+
+        const entered: T[] = [];
+        for (const target of this.targets) {
+            const isInside = distanceInMeters(fix, target) <= this.radiusMeters;
+            const wasInside = this.inside.has(target.id);
+            if (isInside && !wasInside) {
+                this.inside.add(target.id);
+                if (now - (this.lastTriggered[target.id] || 0) >= this.cooldownMs) {
+                    this.lastTriggered[target.id] = now;
+                    entered.push(target);
+                }
+            } else if (!isInside && wasInside && distanceInMeters(fix, target) > this.radiusMeters * 1.5) {
+                // A little hysteresis so GPS jitter at the edge doesn't count as leaving and coming back.
+                this.inside.delete(target.id);
+            }
+        }
+        if (entered.length) {
+            writeSetting(COOLDOWN_SETTING, this.lastTriggered);
+        }
+        return entered;
+    }
+}
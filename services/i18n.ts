@@ -0,0 +1,94 @@
+import { useSyncExternalStore } from 'react';
+import { en, type Messages } from '../data/messages/en';
+import { it } from '../data/messages/it';
+import { de } from '../data/messages/de';
+import { fr } from '../data/messages/fr';
+import { es } from '../data/messages/es';
+import { findLanguage } from './languages';
+import { readSetting, writeSetting } from './settings';
+import { getDestination } from './destination';
+
+// --- The language Mimi's interface speaks, and the language she answers in ---
+
+export type MessageKey = keyof Messages;
+
+export type UiLanguageCode = 'en' | 'it' | 'de' | 'fr' | 'es';
+
+export interface UiLanguage {
+    code: UiLanguageCode;
+    // English name, as used in prompts and by the Translator's language list.
+    name: string;
+    nativeName: string;
+}
+
+export const UI_LANGUAGES: UiLanguage[] = [
+    { code: 'en', name: 'English', nativeName: 'English' },
+    { code: 'it', name: 'Italian', nativeName: 'Italiano' },
+    { code: 'de', name: 'German', nativeName: 'Deutsch' },
+    { code: 'fr', name: 'French', nativeName: 'Français' },
+    { code: 'es', name: 'Spanish', nativeName: 'Español' },
+];
+
+const CATALOGUES: Record<UiLanguageCode, Messages> = { en, it, de, fr, es };
+
+function findUiLanguage(code: string): UiLanguage | undefined {
+    return UI_LANGUAGES.find(lang => lang.code === code);
+}
+
+// The first of the browser's preferred languages we have a catalogue for.
+function detectLanguage(): UiLanguageCode {
+    const preferred = typeof navigator === 'undefined' ? [] : (navigator.languages?.length ? navigator.languages : [navigator.language]);
+    for (const tag of preferred) {
+        const match = findUiLanguage(tag?.split('-')[0].toLowerCase());
+        if (match) return match.code;
+    }
+    return 'en';
+}
+
+let current: UiLanguage = findUiLanguage(readSetting('uiLanguage', '')) || findUiLanguage(detectLanguage());
+const listeners = new Set<() => void>();
+
+if (typeof document !== 'undefined') document.documentElement.lang = current.code;
+
+export function getUiLanguage(): UiLanguage {
+    return current;
+}
+
+export function setUiLanguage(code: UiLanguageCode) {
+    const language = findUiLanguage(code);
+    if (!language || language === current) return;
+    current = language;
+    writeSetting('uiLanguage', code);
+    if (typeof document !== 'undefined') document.documentElement.lang = code;
+    listeners.forEach(listener => listener());
+}
+
+function subscribe(listener: () => void) {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+// Looks the key up in the current language, falling back to English, and fills in `{name}` placeholders.
+// `{town}` is always available and names the current destination.
+export function t(key: MessageKey, params: Record<string, string | number> = {}): string {
+    const template = CATALOGUES[current.code][key] ?? en[key] ?? key;
+    const values = { town: getDestination().name, ...params };
+    return template.replace(/\{(\w+)\}/g, (match, name) => (name in values ? String(values[name]) : match));
+}
+
+// Appended to prompts so Mimi answers in the visitor's language rather than defaulting to English.
+export function languageInstruction(): string {
+    return `Always answer in ${current.name}, whatever language the question or the sources are in. Keep proper names of places and people as they are.`;
+}
+
+export function getUiSpeechCode(): string {
+    return findLanguage(current.name)?.speechCode || 'en-US';
+}
+
+// Re-renders the component whenever the visitor picks another language.
+export function useTranslation() {
+    const language = useSyncExternalStore(subscribe, getUiLanguage);
+    return { t, language };
+}
@@ -0,0 +1,62 @@
+import type { InlineImage } from './ai';
+
+// --- Getting photos small enough to upload quickly without losing what the model needs to see ---
+
+export interface PreparedImage extends InlineImage {
+    id: string;
+    dataUrl: string;
+}
+
+// Long edge in pixels; plenty for recognising a building, and a fraction of a phone photo's size.
+export const MAX_UPLOAD_DIMENSION = 1280;
+const UPLOAD_QUALITY = 0.85;
+
+function fromCanvas(canvas: HTMLCanvasElement): PreparedImage {
+    const dataUrl = canvas.toDataURL('image/jpeg', UPLOAD_QUALITY);
+    return { id: crypto.randomUUID(), mimeType: 'image/jpeg', data: dataUrl.split(',')[1], dataUrl };
+}
+
+function drawScaled(source: CanvasImageSource, width: number, height: number, maxDimension: number): HTMLCanvasElement {
+    const scale = Math.min(1, maxDimension / Math.max(width, height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    canvas.getContext('2d').drawImage(source, 0, 0, canvas.width, canvas.height);
+    return canvas;
+}
+
+async function loadUpright(file: Blob): Promise<{ source: CanvasImageSource; width: number; height: number; release: () => void }> {
+    // Re-encoding drops the EXIF block, so the rotation a phone recorded there has to be baked into the pixels first.
+    if ('createImageBitmap' in window) {
+        try {
+            const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+            return { source: bitmap, width: bitmap.width, height: bitmap.height, release: () => bitmap.close() };
+        } catch {
+            // Some formats (e.g. HEIC on older browsers) only decode through <img>; fall through.
+        }
+    }
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    // <img> honours EXIF orientation by default (image-orientation: from-image).
+    await new Promise((resolve, reject) => {
+        img.onload = resolve;
+        img.onerror = () => reject(new Error('Could not load image.'));
+        img.src = url;
+    });
+    return { source: img, width: img.naturalWidth, height: img.naturalHeight, release: () => URL.revokeObjectURL(url) };
+}
+
+// Upright, downscaled JPEG ready to send to the model.
+export async function prepareImage(file: Blob, maxDimension = MAX_UPLOAD_DIMENSION): Promise<PreparedImage> {
+    const { source, width, height, release } = await loadUpright(file);
+    try {
+        return fromCanvas(drawScaled(source, width, height, maxDimension));
+    } finally {
+        release();
+    }
+}
+
+// Grabs whatever the camera is showing right now.
+export function captureVideoFrame(video: HTMLVideoElement, maxDimension = MAX_UPLOAD_DIMENSION): PreparedImage {
+    return fromCanvas(drawScaled(video, video.videoWidth, video.videoHeight, maxDimension));
+}
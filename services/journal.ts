@@ -0,0 +1,48 @@
+import { STORES, getAll, put, remove } from './db';
+import type { Source } from './ai';
+import type { Coordinates } from './geo';
+import type { MessageKey } from './i18n';
+
+// --- The trip journal: what Mimi told the user, kept in order so it can be exported at the end ---
+
+export type JournalEntryKind = 'analysis' | 'chat' | 'translation';
+
+export interface JournalEntry {
+    id: string;
+    createdAt: number;
+    kind: JournalEntryKind;
+    title: string;
+    // Markdown for chat answers, plain text otherwise.
+    text: string;
+    // Thumbnail of the user's photo, as a data URL.
+    photo?: string;
+    // Mimi's watercolor of the place, as a data URL.
+    artwork?: string;
+    sources: Source[];
+    location: Coordinates | null;
+}
+
+export const JOURNAL_KIND_LABELS: Record<JournalEntryKind, { label: MessageKey; icon: string }> = {
+    analysis: { label: 'tabs.lens', icon: 'photo_camera' },
+    chat: { label: 'tabs.guide', icon: 'chat' },
+    translation: { label: 'journal.kind.translation', icon: 'translate' },
+};
+
+export async function listJournalEntries(): Promise<JournalEntry[]> {
+    const entries = await getAll<JournalEntry>(STORES.journal);
+    return entries.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export async function addJournalEntry(entry: Omit<JournalEntry, 'id' | 'createdAt'>): Promise<JournalEntry> {
+    const saved = { ...entry, id: crypto.randomUUID(), createdAt: Date.now() };
+    await put(STORES.journal, saved);
+    return saved;
+}
+
+export function updateJournalEntry(entry: JournalEntry): Promise<void> {
+    return put(STORES.journal, entry);
+}
+
+export function deleteJournalEntry(id: string): Promise<void> {
+    return remove(STORES.journal, id);
+}
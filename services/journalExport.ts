@@ -0,0 +1,183 @@
+import { JOURNAL_KIND_LABELS } from './journal';
+import type { JournalEntry } from './journal';
+import type { Coordinates } from './geo';
+import { getDestination } from './destination';
+import { t, getUiLanguage, type MessageKey } from './i18n';
+import { parseInline, parseBlocks, headingLevel, isSafeUrl, type InlineToken } from './markdown';
+
+// --- Turning the journal into a file the user can keep: self-contained HTML, Markdown, or a PDF via print ---
+
+export const JOURNAL_FORMATS: Record<'html' | 'markdown', { label: MessageKey; extension: string; mimeType: string }> = {
+    html: { label: 'journal.format.html', extension: 'html', mimeType: 'text/html' },
+    // Share targets rarely accept text/markdown, but take plain text happily.
+    markdown: { label: 'journal.format.markdown', extension: 'md', mimeType: 'text/plain' },
+};
+
+export type JournalFormat = keyof typeof JOURNAL_FORMATS;
+
+const journalTitle = () => t('journal.exportTitle');
+
+const formatDate = (time: number) => new Date(time).toLocaleString();
+
+const mapsLink = (location: Coordinates) =>
+    `https://www.google.com/maps/search/?api=1&query=${location.latitude},${location.longitude}`;
+
+const formatCoordinates = (location: Coordinates) => `${location.latitude.toFixed(4)}, ${location.longitude.toFixed(4)}`;
+
+function escapeHtml(text: string): string {
+    return text.replace(/[<>&"']/g, c => `&#${c.charCodeAt(0)};`);
+}
+
+function tokensToHtml(tokens: InlineToken[]): string {
+    return tokens.map(token => {
+        switch (token.type) {
+            case 'strong':
+                return `<strong>${tokensToHtml(token.children)}</strong>`;
+            case 'em':
+                return `<em>${tokensToHtml(token.children)}</em>`;
+            case 'code':
+                return `<code>${escapeHtml(token.text)}</code>`;
+            case 'link':
+                return `<a href="${escapeHtml(token.href)}">${tokensToHtml(token.children)}</a>`;
+            default:
+                return escapeHtml(token.text);
+        }
+    }).join('');
+}
+
+const inlineToHtml = (text: string) => tokensToHtml(parseInline(text));
+
+// Mimi's replies are Markdown; they go through the same parser and link rules as in the app, with every bit of text escaped.
+function markdownToHtml(markdown: string): string {
+    return parseBlocks(markdown).map(block => {
+        switch (block.type) {
+            case 'heading': {
+                const level = headingLevel(block.level);
+                return `<h${level}>${inlineToHtml(block.text)}</h${level}>`;
+            }
+            case 'list': {
+                const tag = block.ordered ? 'ol' : 'ul';
+                return `<${tag}>${block.items.map(item => `<li>${inlineToHtml(item)}</li>`).join('')}</${tag}>`;
+            }
+            default:
+                return `<p>${inlineToHtml(block.text)}</p>`;
+        }
+    }).join('\n');
+}
+
+function entryToHtml(entry: JournalEntry): string {
+    const meta = [
+        t(JOURNAL_KIND_LABELS[entry.kind].label),
+        formatDate(entry.createdAt),
+        entry.location && `<a href="${mapsLink(entry.location)}">${formatCoordinates(entry.location)}</a>`,
+    ].filter(Boolean).join(' · ');
+    const images = [
+        entry.photo && `<img src="${escapeHtml(entry.photo)}" alt="${escapeHtml(t('journal.photoAlt'))}">`,
+        entry.artwork && `<img src="${escapeHtml(entry.artwork)}" alt="${escapeHtml(t('journal.artworkAlt'))}">`,
+    ].filter(Boolean).join('');
+    const body = entry.kind === 'chat'
+        ? markdownToHtml(entry.text)
+        : entry.text
+            .split(/\n{2,}/)
+            .map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+            .join('');
+    const sources = entry.sources.filter(source => isSafeUrl(source.uri));
+    return `<article>
+<h2>${escapeHtml(entry.title)}</h2>
+<p class="meta">${meta}</p>
+${images ? `<div class="images">${images}</div>` : ''}
+${body}
+${sources.length ? `<ul class="sources">${sources.map(source => `<li><a href="${escapeHtml(source.uri)}">${escapeHtml(source.title)}</a></li>`).join('')}</ul>` : ''}
+</article>`;
+}
+
+export function journalToHtml(entries: JournalEntry[]): string {
+    return `<!DOCTYPE html>
+<html lang="${getUiLanguage().code}">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(journalTitle())}</title>
+<style>
+body { font-family: Georgia, serif; max-width: 760px; margin: 2rem auto; padding: 0 1rem; color: #333; background: #F5F5DC; }
+h1 { color: #4B5320; }
+article { background: #fff; border-radius: 8px; padding: 1rem 1.5rem; margin-bottom: 1.5rem; break-inside: avoid; }
+h2 { color: #D48C46; margin-bottom: 0.25rem; }
+.meta { color: #777; font-size: 0.85rem; margin-top: 0; }
+.images { display: flex; gap: 8px; flex-wrap: wrap; }
+.images img { max-width: calc(50% - 4px); border-radius: 8px; }
+.sources { font-size: 0.85rem; }
+a { color: #4B5320; }
+@media print { body { background: #fff; } article { padding: 0; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(journalTitle())}</h1>
+${entries.map(entryToHtml).join('\n')}
+</body>
+</html>`;
+}
+
+export function journalToMarkdown(entries: JournalEntry[]): string {
+    const sections = entries.map(entry => {
+        const meta = [
+            t(JOURNAL_KIND_LABELS[entry.kind].label),
+            formatDate(entry.createdAt),
+            entry.location && `[${formatCoordinates(entry.location)}](${mapsLink(entry.location)})`,
+        ].filter(Boolean).join(' · ');
+        const lines = [`## ${entry.title}`, '', `*${meta}*`, ''];
+        if (entry.photo) lines.push(`![${t('journal.photoAlt')}](${entry.photo})`, '');
+        if (entry.artwork) lines.push(`![${t('journal.artworkAlt')}](${entry.artwork})`, '');
+        lines.push(entry.text, '');
+        const sources = entry.sources.filter(source => isSafeUrl(source.uri));
+        if (sources.length) {
+            lines.push(t('analysis.sources'), ...sources.map(source => `- [${source.title}](${source.uri})`), '');
+        }
+        return lines.join('\n');
+    });
+    return `# ${journalTitle()}\n\n${sections.join('\n')}`;
+}
+
+export function exportJournal(entries: JournalEntry[], format: JournalFormat): File {
+    const { extension, mimeType } = JOURNAL_FORMATS[format];
+    const content = format === 'html' ? journalToHtml(entries) : journalToMarkdown(entries);
+    const date = new Date().toISOString().slice(0, 10);
+    return new File([content], `${getDestination().id}-journal-${date}.${extension}`, { type: mimeType });
+}
+
+export function canShareJournal(format: JournalFormat): boolean {
+    const { extension, mimeType } = JOURNAL_FORMATS[format];
+    const probe = new File([''], `journal.${extension}`, { type: mimeType });
+    return typeof navigator.canShare === 'function' && navigator.canShare({ files: [probe] });
+}
+
+// Resolves to false when the user closes the share sheet without sharing.
+export async function shareJournalFile(file: File): Promise<boolean> {
+    try {
+        await navigator.share({ files: [file], title: journalTitle() });
+        return true;
+    } catch (err) {
+        if (err.name === 'AbortError') return false;
+        throw err;
+    }
+}
+
+export function downloadJournalFile(file: File) {
+    const url = URL.createObjectURL(file);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.name;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// The browser's print dialog offers "Save as PDF" everywhere, so that's our PDF export.
+export function printJournal(entries: JournalEntry[]) {
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+        throw new Error('The print window was blocked.');
+    }
+    printWindow.document.write(journalToHtml(entries));
+    printWindow.document.close();
+    printWindow.addEventListener('load', () => printWindow.print());
+}
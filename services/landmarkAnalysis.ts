@@ -0,0 +1,96 @@
+import { ai } from './ai';
+import type { InlineImage, RequestOptions, Source } from './ai';
+import { wikipedia } from '../data/landmarks';
+import type { Coordinates } from './geo';
+import { t, languageInstruction, type MessageKey } from './i18n';
+import { getDestination, describePlace } from './destination';
+
+// --- Magic Lens identifications as a typed structure rather than one block of prose ---
+
+export type Confidence = 'high' | 'medium' | 'low';
+
+export interface LandmarkAnalysis {
+    name: string;
+    // Id from the bundled landmark dataset, or empty for places it doesn't cover.
+    landmarkId: string;
+    confidence: Confidence;
+    // Other places it could be, most likely first. Offered to the user when confidence is low.
+    alternatives: string[];
+    constructionPeriod: string;
+    architect: string;
+    architecturalStyle: string;
+    history: string;
+    // Empty when the place doesn't appear in the series.
+    montalbanoConnection: string;
+    visitingHours: string;
+    notes: string;
+}
+
+// Fields shown as sections of the card, in order. Empty ones are skipped.
+export const ANALYSIS_SECTIONS: { key: keyof LandmarkAnalysis; label: MessageKey; icon: string }[] = [
+    { key: 'constructionPeriod', label: 'analysis.section.constructionPeriod', icon: 'calendar_month' },
+    { key: 'architect', label: 'analysis.section.architect', icon: 'architecture' },
+    { key: 'architecturalStyle', label: 'analysis.section.architecturalStyle', icon: 'account_balance' },
+    { key: 'history', label: 'analysis.section.history', icon: 'history_edu' },
+    { key: 'montalbanoConnection', label: 'analysis.section.montalbanoConnection', icon: 'movie' },
+    { key: 'visitingHours', label: 'analysis.section.visitingHours', icon: 'schedule' },
+    { key: 'notes', label: 'analysis.section.notes', icon: 'lightbulb' },
+];
+
+const LANDMARK_ANALYSIS_SCHEMA = {
+    type: 'object',
+    properties: {
+        name: { type: 'string', description: 'The name of the landmark, as locals would write it, untranslated.' },
+        landmarkId: { type: 'string', description: 'The id of the matching known landmark, or an empty string.' },
+        confidence: { type: 'string', enum: ['high', 'medium', 'low'], description: 'How sure you are of the identification.' },
+        alternatives: { type: 'array', items: { type: 'string' }, description: 'Up to three other places in the same town it could be, most likely first. Empty when confidence is high.' },
+        constructionPeriod: { type: 'string', description: 'When it was built or rebuilt, e.g. "1693-1750".' },
+        architect: { type: 'string', description: 'The architect or master builder, or an empty string if unknown.' },
+        architecturalStyle: { type: 'string' },
+        history: { type: 'string', description: 'Its history and cultural significance in 3-4 sentences, told by Mimi.' },
+        montalbanoConnection: { type: 'string', description: 'How it appears in the Inspector Montalbano TV series, or an empty string if it does not.' },
+        visitingHours: { type: 'string', description: 'Typical opening hours, or an empty string if unknown. Say they may vary.' },
+        notes: { type: 'string', description: 'A practical tip or a detail worth looking out for.' },
+    },
+    required: ['name', 'landmarkId', 'confidence', 'alternatives', 'constructionPeriod', 'architect', 'architecturalStyle', 'history', 'montalbanoConnection', 'visitingHours', 'notes'],
+};
+
+export interface AnalyzeLandmarkParams extends RequestOptions {
+    images: InlineImage[];
+    location: Coordinates | null;
+    // A name the user confirmed or picked after a low-confidence identification.
+    confirmedName?: string;
+}
+
+export async function analyzeLandmark({ images, location, confirmedName, signal }: AnalyzeLandmarkParams): Promise<LandmarkAnalysis> {
+    const knownLandmarks = getDestination().landmarks.map(landmark => `- ${landmark.id}: ${landmark.name}`).join('\n');
+    const photosPrompt = images.length > 1 ? ` The ${images.length} photos show the same place from different angles, for example its façade, a detail and the interior.` : '';
+    const locationPrompt = location ? ` The user is currently at latitude: ${location.latitude}, longitude: ${location.longitude}.` : '';
+    const identifyPrompt = confirmedName
+        ? ` The user has confirmed that this is ${confirmedName}, so describe that place with high confidence.`
+        : ' Identify the landmark and be honest about how sure you are.';
+    const prompt = `Identify the landmark in these photos of ${describePlace()}, and describe it as the tour guide Mimi.${photosPrompt}${locationPrompt}${identifyPrompt} ${languageInstruction()} Use these ids for the known landmarks:\n${knownLandmarks}`;
+    const result = await ai.generateJson<LandmarkAnalysis>({ prompt, images, schema: LANDMARK_ANALYSIS_SCHEMA, signal });
+    return confirmedName ? { ...result, name: result.name || confirmedName, confidence: 'high', alternatives: [] } : result;
+}
+
+export function getAnalysisSources(analysis: LandmarkAnalysis): Source[] {
+    const destination = getDestination();
+    const known = destination.landmarks.find(landmark => landmark.id === analysis.landmarkId);
+    return known ? known.sources : [wikipedia(`${analysis.name} ${destination.name}`)];
+}
+
+// Plain prose for narration, searching and excerpts, in the visitor's language like the fields themselves.
+export function describeLandmark(analysis: LandmarkAnalysis): string {
+    const built = [
+        analysis.constructionPeriod && t('analysis.builtIn', { period: analysis.constructionPeriod }),
+        analysis.architect && t('analysis.builtBy', { architect: analysis.architect }),
+        analysis.architecturalStyle && t('analysis.builtStyle', { style: analysis.architecturalStyle }),
+    ].filter(Boolean).join(' ');
+    return [
+        built ? t('analysis.thisIsBuilt', { name: analysis.name, built }) : t('analysis.thisIs', { name: analysis.name }),
+        analysis.history,
+        analysis.montalbanoConnection,
+        analysis.notes,
+    ].filter(Boolean).join(' ');
+}
@@ -0,0 +1,31 @@
+// --- Languages the Translator understands ---
+
+export interface Language {
+    // English name, used in prompts and as the identifier throughout the app.
+    name: string;
+    nativeName: string;
+    // BCP-47 tag for the Web Speech API.
+    speechCode: string;
+}
+
+export const AUTO_DETECT = 'auto';
+
+export const LANGUAGES: Language[] = [
+    { name: 'English', nativeName: 'English', speechCode: 'en-US' },
+    { name: 'Italian', nativeName: 'Italiano', speechCode: 'it-IT' },
+    // Browsers have no Sicilian recogniser; the Italian one copes with it far better than anything else.
+    { name: 'Sicilian', nativeName: 'Sicilianu', speechCode: 'it-IT' },
+    { name: 'German', nativeName: 'Deutsch', speechCode: 'de-DE' },
+    { name: 'French', nativeName: 'Français', speechCode: 'fr-FR' },
+    { name: 'Spanish', nativeName: 'Español', speechCode: 'es-ES' },
+    { name: 'Dutch', nativeName: 'Nederlands', speechCode: 'nl-NL' },
+];
+
+export function findLanguage(name: string): Language | undefined {
+    return LANGUAGES.find(lang => lang.name.toLowerCase() === name?.trim().toLowerCase());
+}
+
+// Falls back to the browser's own language, which is the best guess when the source is auto-detected.
+export function getSpeechCode(name: string): string {
+    return findLanguage(name)?.speechCode || navigator.language || 'en-US';
+}
@@ -0,0 +1,155 @@
+import { ai, LIVE_INPUT_SAMPLE_RATE } from './ai';
+import type { LiveSession } from './ai';
+import { decode, decodeAudioData, encode, getAudioContext, TTS_SAMPLE_RATE } from './audio';
+import { audioEngine } from './audioEngine';
+
+// --- Hands-free voice conversation: microphone in, Mimi's spoken replies out, both as they happen ---
+
+export type LiveStatus = 'connecting' | 'listening' | 'speaking' | 'closed';
+
+export interface LiveConversationHandlers {
+    onStatus(status: LiveStatus): void;
+    // Each call carries the new text only, not the whole turn so far.
+    onTranscript(role: 'user' | 'model', text: string): void;
+    // The user talked over Mimi and the rest of the reply was dropped.
+    onInterrupted(): void;
+    onError(error: Error): void;
+}
+
+export interface StartLiveParams {
+    systemInstruction: string;
+    voice: string;
+}
+
+// Averages the microphone's native-rate samples down to 16-bit PCM at the live input rate.
+function toPcm16(input: Float32Array, inputRate: number): Uint8Array {
+    const ratio = inputRate / LIVE_INPUT_SAMPLE_RATE;
+    const output = new Int16Array(Math.floor(input.length / ratio));
+    for (let i = 0; i < output.length; i++) {
+        const start = Math.floor(i * ratio);
+        const end = Math.max(start + 1, Math.floor((i + 1) * ratio));
+        let sum = 0;
+        for (let j = start; j < end; j++) sum += input[j];
+        const sample = Math.max(-1, Math.min(1, sum / (end - start)));
+        output[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+    }
+    return new Uint8Array(output.buffer);
+}
+
+export class LiveConversation {
+    private session: LiveSession | null = null;
+    private stream: MediaStream | null = null;
+    private micContext: AudioContext | null = null;
+    private processor: ScriptProcessorNode | null = null;
+    // Reply chunks are scheduled back to back on the shared output context.
+    private playing = new Set<AudioBufferSourceNode>();
+    private nextStartTime = 0;
+    private stopped = false;
+
+    constructor(private readonly handlers: LiveConversationHandlers) {}
+
+    async start({ systemInstruction, voice }: StartLiveParams) {
+        // Narration and a live conversation at once would be unintelligible.
+        audioEngine.stop();
+        this.handlers.onStatus('connecting');
+        try {
+            this.stream = await navigator.mediaDevices.getUserMedia({
+                audio: { echoCancellation: true, noiseSuppression: true, channelCount: 1 },
+            });
+            if (this.stopped) return this.release();
+            this.session = await ai.connectLive({
+                systemInstruction,
+                voice,
+                callbacks: {
+                    onAudio: (data) => this.playChunk(data),
+                    onTranscript: (role, text) => this.handlers.onTranscript(role, text),
+                    onInterrupted: () => {
+                        this.flushPlayback();
+                        this.handlers.onInterrupted();
+                    },
+                    onTurnComplete: () => {},
+                    onClose: () => this.stop(),
+                    onError: (error) => this.fail(error),
+                },
+            });
+            if (this.stopped) return this.release();
+            this.startCapture();
+            this.handlers.onStatus('listening');
+        } catch (err) {
+            this.fail(err instanceof Error ? err : new Error(String(err)));
+        }
+    }
+
+    stop() {
+        if (this.stopped) return;
+        this.stopped = true;
+        this.release();
+        this.handlers.onStatus('closed');
+    }
+
+    private fail(error: Error) {
+        if (this.stopped) return;
+        this.handlers.onError(error);
+        this.stop();
+    }
+
+    private startCapture() {
+        this.micContext = new AudioContext();
+        const source = this.micContext.createMediaStreamSource(this.stream);
+        // ScriptProcessorNode is deprecated but, unlike an AudioWorklet, needs no separate module file.
+        this.processor = this.micContext.createScriptProcessor(4096, 1, 1);
+        this.processor.onaudioprocess = (e) => {
+            const pcm = toPcm16(e.inputBuffer.getChannelData(0), this.micContext.sampleRate);
+            this.session?.sendAudio(encode(pcm));
+        };
+        source.connect(this.processor);
+        this.processor.connect(this.micContext.destination);
+    }
+
+    private async playChunk(data: string) {
+        if (this.stopped) return;
+        const audioContext = getAudioContext();
+        if (audioContext.state === 'suspended') {
+            await audioContext.resume();
+        }
+        const buffer = await decodeAudioData(decode(data), audioContext, TTS_SAMPLE_RATE, 1);
+        const source = audioContext.createBufferSource();
+        source.buffer = buffer;
+        source.connect(audioContext.destination);
+        source.onended = () => {
+            this.playing.delete(source);
+            if (this.playing.size === 0 && !this.stopped) this.handlers.onStatus('listening');
+        };
+        this.nextStartTime = Math.max(this.nextStartTime, audioContext.currentTime);
+        source.start(this.nextStartTime);
+        this.nextStartTime += buffer.duration;
+        this.playing.add(source);
+        this.handlers.onStatus('speaking');
+    }
+
+    private flushPlayback() {
+        for (const source of this.playing) {
+            source.onended = null;
+            source.stop();
+        }
+        this.playing.clear();
+        this.nextStartTime = 0;
+        if (!this.stopped) this.handlers.onStatus('listening');
+    }
+
+    private release() {
+        if (this.processor) {
+            this.processor.onaudioprocess = null;
+            this.processor.disconnect();
+            this.processor = null;
+        }
+        this.micContext?.close();
+        this.micContext = null;
+        this.stream?.getTracks().forEach(track => track.stop());
+        this.stream = null;
+        const session = this.session;
+        this.session = null;
+        session?.close();
+        this.flushPlayback();
+    }
+}
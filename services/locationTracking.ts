@@ -0,0 +1,77 @@
+import { useState, useEffect, useRef } from 'react';
+import { distanceInMeters } from './geo';
+import type { MessageKey } from './i18n';
+
+// --- Continuous position tracking that tries to be kind to the battery ---
+
+// Smaller moves than this aren't worth re-rendering (and re-prompting) the whole app for.
+const MIN_MOVE_METERS = 10;
+
+// A message key rather than text, so the status bar can show it in the visitor's language.
+const errorMessageKey = (error): MessageKey => {
+    switch (error.code) {
+        case error.PERMISSION_DENIED:
+            return 'location.denied';
+        case error.POSITION_UNAVAILABLE:
+            return 'location.unavailable';
+        case error.TIMEOUT:
+            return 'location.timeout';
+        default:
+            return 'location.unknown';
+    }
+};
+
+export function useLocationTracking({ highAccuracy = false, onFix = null }) {
+    const [location, setLocation] = useState(null);
+    const [error, setError] = useState<MessageKey | ''>('');
+    const lastLocationRef = useRef(null);
+    const onFixRef = useRef(onFix);
+    onFixRef.current = onFix;
+
+    useEffect(() => {
+        if (!navigator.geolocation) {
+            setError('location.unsupported');
+            return;
+        }
+
+        let watchId = null;
+        const start = () => {
+            if (watchId !== null) return;
+            watchId = navigator.geolocation.watchPosition(
+                (position) => {
+                    const fix = {
+                        latitude: position.coords.latitude,
+                        longitude: position.coords.longitude,
+                        accuracy: position.coords.accuracy,
+                    };
+                    setError('');
+                    onFixRef.current?.(fix);
+                    const last = lastLocationRef.current;
+                    if (!last || distanceInMeters(last, fix) >= MIN_MOVE_METERS || fix.accuracy < last.accuracy / 2) {
+                        lastLocationRef.current = fix;
+                        setLocation(fix);
+                    }
+                },
+                (err) => setError(errorMessageKey(err)),
+                { enableHighAccuracy: highAccuracy, maximumAge: highAccuracy ? 5000 : 30000, timeout: 30000 }
+            );
+        };
+        const stop = () => {
+            if (watchId !== null) {
+                navigator.geolocation.clearWatch(watchId);
+                watchId = null;
+            }
+        };
+        // Nobody is looking at the screen, so stop the GPS until they come back.
+        const handleVisibilityChange = () => document.hidden ? stop() : start();
+
+        start();
+        document.addEventListener('visibilitychange', handleVisibilityChange);
+        return () => {
+            stop();
+            document.removeEventListener('visibilitychange', handleVisibilityChange);
+        };
+    }, [highAccuracy]);
+
+    return { location, error };
+}
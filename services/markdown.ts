@@ -0,0 +1,84 @@
+// --- Parsing the Markdown Mimi writes, shared by the in-app renderer and the journal export ---
+// The result is plain data, so each renderer decides how to output it and nothing the model writes is
+// ever passed through as markup. Only http(s) and mailto links are kept as links.
+
+const INLINE_PATTERN = /(\*\*[^*]+\*\*|__[^_]+__|\*[^*\s][^*]*\*|_[^_\s][^_]*_|`[^`]+`|\[[^\]]+\]\([^)\s]+\))/;
+const LINK_PATTERN = /^\[([^\]]+)\]\(([^)\s]+)\)$/;
+const SAFE_URL_PATTERN = /^(https?:|mailto:)/i;
+
+export function isSafeUrl(url: string): boolean {
+    return SAFE_URL_PATTERN.test(url.trim());
+}
+
+export type InlineToken =
+    | { type: 'text' | 'code'; text: string }
+    | { type: 'strong' | 'em'; children: InlineToken[] }
+    | { type: 'link'; href: string; children: InlineToken[] };
+
+export function parseInline(text: string): InlineToken[] {
+    return text.split(INLINE_PATTERN).filter(Boolean).map((token): InlineToken => {
+        if ((token.startsWith('**') && token.endsWith('**')) || (token.startsWith('__') && token.endsWith('__'))) {
+            return { type: 'strong', children: parseInline(token.slice(2, -2)) };
+        }
+        if (token.length > 2 && ((token.startsWith('*') && token.endsWith('*')) || (token.startsWith('_') && token.endsWith('_')))) {
+            return { type: 'em', children: parseInline(token.slice(1, -1)) };
+        }
+        if (token.startsWith('`') && token.endsWith('`')) {
+            return { type: 'code', text: token.slice(1, -1) };
+        }
+        const link = token.match(LINK_PATTERN);
+        if (link) {
+            // An unsafe link keeps its text but loses the target.
+            return isSafeUrl(link[2])
+                ? { type: 'link', href: link[2], children: parseInline(link[1]) }
+                : { type: 'text', text: link[1] };
+        }
+        return { type: 'text', text: token };
+    });
+}
+
+export type Block =
+    | { type: 'heading'; level: number; text: string }
+    | { type: 'paragraph'; text: string }
+    | { type: 'list'; ordered: boolean; items: string[] };
+
+export function parseBlocks(markdown: string): Block[] {
+    const blocks: Block[] = [];
+    let paragraph: string[] = [];
+    let list: { type: 'list'; ordered: boolean; items: string[] } | null = null;
+
+    const flush = () => {
+        if (paragraph.length) blocks.push({ type: 'paragraph', text: paragraph.join(' ') });
+        if (list) blocks.push(list);
+        paragraph = [];
+        list = null;
+    };
+
+    for (const line of markdown.split('\n')) {
+        const heading = line.match(/^(#{1,6})\s+(.*)$/);
+        const bullet = line.match(/^\s*[-*+]\s+(.*)$/);
+        const numbered = line.match(/^\s*\d+[.)]\s+(.*)$/);
+        if (!line.trim()) {
+            flush();
+        } else if (heading) {
+            flush();
+            blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+        } else if (bullet || numbered) {
+            const ordered = Boolean(numbered);
+            if (paragraph.length || (list && list.ordered !== ordered)) flush();
+            if (!list) list = { type: 'list', ordered, items: [] };
+            list.items.push((bullet || numbered)[1]);
+        } else if (list && /^\s+/.test(line)) {
+            // An indented line continues the previous list item.
+            list.items[list.items.length - 1] += ` ${line.trim()}`;
+        } else {
+            if (list) flush();
+            paragraph.push(line.trim());
+        }
+    }
+    flush();
+    return blocks;
+}
+
+// Headings start at h3 wherever Mimi's replies appear, below the page and card titles.
+export const headingLevel = (level: number) => Math.min(level + 2, 6);
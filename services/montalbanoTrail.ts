@@ -0,0 +1,39 @@
+import { ai } from './ai';
+import type { InlineImage, RequestOptions, TextResult } from './ai';
+import { MONTALBANO_TRAILS, type FilmingLocation } from '../data/montalbanoTrail';
+import type { Landmark } from '../data/landmarks';
+import { languageInstruction } from './i18n';
+import { getDestination, describePlace } from './destination';
+
+// --- The Montalbano trail: filming locations in walking order, and photos of them compared with the series ---
+
+export interface TrailStop extends FilmingLocation {
+    landmark: Landmark;
+}
+
+// Empty for towns without a curated trail. Stops whose landmark is missing from the dataset are skipped.
+export function getTrail(destination = getDestination()): TrailStop[] {
+    return (MONTALBANO_TRAILS[destination.id] || [])
+        .map(location => ({ ...location, landmark: destination.landmarks.find(landmark => landmark.id === location.landmarkId) }))
+        .filter(stop => stop.landmark);
+}
+
+function describeStop(stop: TrailStop): string {
+    return `${stop.landmark.name} in ${describePlace()}, which plays ${stop.inStoryName} in the Inspector Montalbano TV series (${stop.episodes}). On screen: ${stop.scene}`;
+}
+
+export interface SceneParams extends RequestOptions {
+    stop: TrailStop;
+    photo: InlineImage;
+}
+
+export function compareWithScene({ stop, photo, signal }: SceneParams): Promise<TextResult> {
+    const prompt = `This photo was taken today at ${describeStop(stop)} As the tour guide Mimi, compare then and now: what still looks as it does in the series, what has changed, and where to stand to line up the shot. Use search for specific episodes filmed here, and only name episodes you find. ${languageInstruction()}`;
+    return ai.generateText({ prompt, images: [photo], useSearch: true, signal });
+}
+
+// A picture of the same spot as it might look in the series, without recognisable actors.
+export function recreateScene({ stop, photo, signal }: SceneParams): Promise<string | null> {
+    const prompt = `Turn this photo of ${describeStop(stop)} into a still of that scene from the series, with warm, sun-bleached film colours and soft grain. Keep the place recognisable from the same viewpoint, and show no recognisable people.`;
+    return ai.generateImage({ prompt, images: [photo], signal });
+}
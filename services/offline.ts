@@ -0,0 +1,65 @@
+import { useState, useEffect } from 'react';
+import { STORES, getOne, put } from './db';
+import type { Source } from './ai';
+import type { LandmarkAnalysis } from './landmarkAnalysis';
+
+// --- Content kept around for when the connection drops ---
+
+const MAX_RECENT_ANALYSES = 20;
+
+export const CONTENT_KEYS = {
+    townOverview: 'townOverview',
+    recentAnalyses: 'recentAnalyses',
+};
+
+export interface RecentAnalysis {
+    id: string;
+    createdAt: number;
+    thumbnail: string;
+    text: string;
+    sources: Source[];
+    // The structured identification; missing on entries from before the lens returned one.
+    analysis?: LandmarkAnalysis;
+    location: { latitude: number; longitude: number } | null;
+}
+
+export async function getCachedContent<T>(key: string): Promise<T | undefined> {
+    const entry = await getOne<{ key: string; value: T }>(STORES.offlineContent, key);
+    return entry?.value;
+}
+
+export function setCachedContent<T>(key: string, value: T): Promise<void> {
+    return put(STORES.offlineContent, { key, value, updatedAt: Date.now() });
+}
+
+export async function listRecentAnalyses(): Promise<RecentAnalysis[]> {
+    return (await getCachedContent<RecentAnalysis[]>(CONTENT_KEYS.recentAnalyses)) || [];
+}
+
+export async function rememberAnalysis(analysis: Omit<RecentAnalysis, 'id' | 'createdAt'>): Promise<void> {
+    const recent = await listRecentAnalyses();
+    const entry = { ...analysis, id: crypto.randomUUID(), createdAt: Date.now() };
+    await setCachedContent(CONTENT_KEYS.recentAnalyses, [entry, ...recent].slice(0, MAX_RECENT_ANALYSES));
+}
+
+export function useOnlineStatus(): boolean {
+    const [isOnline, setIsOnline] = useState(navigator.onLine);
+    useEffect(() => {
+        const update = () => setIsOnline(navigator.onLine);
+        window.addEventListener('online', update);
+        window.addEventListener('offline', update);
+        return () => {
+            window.removeEventListener('online', update);
+            window.removeEventListener('offline', update);
+        };
+    }, []);
+    return isOnline;
+}
+
+export function registerServiceWorker() {
+    if ('serviceWorker' in navigator) {
+        window.addEventListener('load', () => {
+            navigator.serviceWorker.register('/sw.js').catch(err => console.error("Service worker registration failed:", err));
+        });
+    }
+}
@@ -0,0 +1,53 @@
+import { STORES, getAll, put, remove } from './db';
+import type { Source } from './ai';
+import type { LandmarkAnalysis } from './landmarkAnalysis';
+
+// --- "My Scicli": Magic Lens results the user has starred ---
+
+export interface SavedPlace {
+    id: string;
+    createdAt: number;
+    thumbnail: string;
+    text: string;
+    sources: Source[];
+    // The structured identification; missing on entries from before the lens returned one.
+    analysis?: LandmarkAnalysis;
+    stylizedImage: string;
+    location: { latitude: number; longitude: number } | null;
+}
+
+export async function listSavedPlaces(): Promise<SavedPlace[]> {
+    const places = await getAll<SavedPlace>(STORES.savedPlaces);
+    return places.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function savePlace(place: Omit<SavedPlace, 'id' | 'createdAt'>): Promise<SavedPlace> {
+    const saved = { ...place, id: crypto.randomUUID(), createdAt: Date.now() };
+    await put(STORES.savedPlaces, saved);
+    return saved;
+}
+
+export function updateSavedPlace(place: SavedPlace): Promise<void> {
+    return put(STORES.savedPlaces, place);
+}
+
+export function deleteSavedPlace(id: string): Promise<void> {
+    return remove(STORES.savedPlaces, id);
+}
+
+// Downscales an image data URL to a small JPEG so hundreds of saved places don't blow the storage quota.
+export function createThumbnail(dataUrl: string, maxSize = 320): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => {
+            const scale = Math.min(1, maxSize / Math.max(img.width, img.height));
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.round(img.width * scale);
+            canvas.height = Math.round(img.height * scale);
+            canvas.getContext('2d').drawImage(img, 0, 0, canvas.width, canvas.height);
+            resolve(canvas.toDataURL('image/jpeg', 0.8));
+        };
+        img.onerror = () => reject(new Error('Could not load image for thumbnail.'));
+        img.src = dataUrl;
+    });
+}
@@ -0,0 +1,31 @@
+import { useState, useEffect } from 'react';
+
+// --- Small user preferences, kept in localStorage ---
+
+const PREFIX = 'mimi:';
+
+export function readSetting<T>(key: string, fallback: T): T {
+    try {
+        const raw = localStorage.getItem(PREFIX + key);
+        return raw === null ? fallback : JSON.parse(raw);
+    } catch {
+        return fallback;
+    }
+}
+
+export function writeSetting<T>(key: string, value: T) {
+    try {
+        localStorage.setItem(PREFIX + key, JSON.stringify(value));
+    } catch (err) {
+        console.error("Failed to save setting:", err);
+    }
+}
+
+// Like useState, but remembered across visits.
+export function useSetting<T>(key: string, fallback: T): [T, (value: T) => void] {
+    const [value, setValue] = useState<T>(() => readSetting(key, fallback));
+    useEffect(() => {
+        writeSetting(key, value);
+    }, [key, value]);
+    return [value, setValue];
+}
@@ -0,0 +1,113 @@
+import { ai, AiError } from './ai';
+import type { Coordinates } from './geo';
+import { languageInstruction, type MessageKey } from './i18n';
+import { getDestination, describePlace } from './destination';
+import type { DestinationTheme } from '../data/destinations';
+
+// --- Self-guided walking tours planned by Mimi ---
+
+export const TOUR_DURATIONS: { minutes: number; label: MessageKey }[] = [
+    { minutes: 60, label: 'tours.duration.oneHour' },
+    { minutes: 120, label: 'tours.duration.twoHours' },
+    { minutes: 240, label: 'tours.duration.halfDay' },
+];
+
+// A town's themes double as interests, so an interest reads the same way: an id, a label and a phrase for the prompt.
+export type TourInterest = DestinationTheme;
+
+const COMMON_INTERESTS: TourInterest[] = [
+    { id: 'food', label: 'tours.interest.food', prompt: 'its food, from street snacks to pastry shops' },
+    { id: 'churches', label: 'tours.interest.churches', prompt: 'its churches' },
+];
+
+// The destination's own themes, then the ones every town has.
+export function getTourInterests(destination = getDestination()): TourInterest[] {
+    return [...destination.themes, ...COMMON_INTERESTS];
+}
+
+export const MOBILITY_LEVELS: { id: string; label: MessageKey; prompt: string }[] = [
+    { id: 'step-free', label: 'tours.mobility.stepFree', prompt: 'The visitor needs a step-free route: avoid stairs, steep climbs and uneven paths.' },
+    { id: 'easy', label: 'tours.mobility.easy', prompt: 'Keep the route gentle: short distances and no long climbs.' },
+    { id: 'active', label: 'tours.mobility.active', prompt: 'The visitor is happy to climb, including steep stairways up to viewpoints.' },
+];
+
+export interface TourPreferences {
+    durationMinutes: number;
+    // TourInterest ids.
+    interests: string[];
+    mobility: string;
+}
+
+export interface TourStop {
+    name: string;
+    // Id from the bundled landmark dataset, or empty for places it doesn't cover (cafés, pastry shops...).
+    landmarkId: string;
+    story: string;
+    walkingMinutesFromPrevious: number;
+    visitMinutes: number;
+}
+
+export interface Tour {
+    id: string;
+    title: string;
+    intro: string;
+    // The tour only makes sense in the town it was planned for.
+    destinationId: string;
+    preferences: TourPreferences;
+    stops: TourStop[];
+    visited: boolean[];
+    currentStop: number;
+    createdAt: number;
+}
+
+const TOUR_SCHEMA = {
+    type: 'object',
+    properties: {
+        title: { type: 'string' },
+        intro: { type: 'string', description: 'Two sentences welcoming the visitor to the tour.' },
+        stops: {
+            type: 'array',
+            description: 'Stops in walking order.',
+            minItems: 1,
+            items: {
+                type: 'object',
+                properties: {
+                    name: { type: 'string' },
+                    landmarkId: { type: 'string', description: 'The id of the matching known landmark, or an empty string.' },
+                    story: { type: 'string', description: 'A short, vivid story for this stop, told by Mimi, in 3-4 sentences.' },
+                    walkingMinutesFromPrevious: { type: 'integer' },
+                    visitMinutes: { type: 'integer' },
+                },
+                required: ['name', 'landmarkId', 'story', 'walkingMinutesFromPrevious', 'visitMinutes'],
+            },
+        },
+    },
+    required: ['title', 'intro', 'stops'],
+};
+
+export async function generateTour(preferences: TourPreferences, location: Coordinates | null, signal?: AbortSignal): Promise<Tour> {
+    const mobility = MOBILITY_LEVELS.find(level => level.id === preferences.mobility);
+    const destination = getDestination();
+    const interests = getTourInterests(destination).filter(interest => preferences.interests.includes(interest.id));
+    const knownLandmarks = destination.landmarks.map(landmark => `- ${landmark.id}: ${landmark.name}`).join('\n');
+    const startPrompt = location
+        ? `Start from the stop closest to latitude ${location.latitude}, longitude ${location.longitude}.`
+        : 'Start from the main square in the town centre.';
+    const prompt = `Plan a self-guided walking tour of ${describePlace(destination)}, as the tour guide Mimi. It must take about ${preferences.durationMinutes} minutes in total, including walking and visiting time. The visitor is interested in ${interests.map(interest => interest.prompt).join('; and in ') || 'a bit of everything'}. ${mobility?.prompt || ''} ${startPrompt} Order the stops so that the walk is efficient. ${languageInstruction()} Prefer these known landmarks where they fit, using their ids:\n${knownLandmarks}`;
+    const result = await ai.generateJson<{ title: string; intro: string; stops: TourStop[] }>({ prompt, schema: TOUR_SCHEMA, signal });
+    // A tour without stops can't be walked, and would otherwise be saved as the current tour.
+    if (!result.stops?.length) throw new AiError('unknown', 'The planned tour has no stops.');
+    return {
+        ...result,
+        id: crypto.randomUUID(),
+        destinationId: destination.id,
+        preferences,
+        visited: result.stops.map(() => false),
+        currentStop: 0,
+        createdAt: Date.now(),
+    };
+}
+
+export function getTourMinutes(tour: Tour): number {
+    return tour.stops.reduce((total, stop) => total + stop.walkingMinutesFromPrevious + stop.visitMinutes, 0);
+}
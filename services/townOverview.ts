@@ -0,0 +1,33 @@
+import { ai } from './ai';
+import type { Destination } from '../data/destinations';
+import { describePlace, themesInstruction } from './destination';
+import { getUiLanguage, languageInstruction } from './i18n';
+import { CONTENT_KEYS, getCachedContent, setCachedContent } from './offline';
+
+// --- The Help tab's overview of the town, fetched ahead of time so it's there once the connection drops ---
+
+// Cached per town and language, so going offline never brings back the wrong overview.
+const overviewKey = (destination: Destination) => `${CONTENT_KEYS.townOverview}:${destination.id}:${getUiLanguage().code}`;
+
+export function getCachedTownOverview(destination: Destination): Promise<string | undefined> {
+    return getCachedContent<string>(overviewKey(destination));
+}
+
+// Asks Mimi for a fresh overview and keeps it for offline use.
+export async function fetchTownOverview(destination: Destination, signal?: AbortSignal): Promise<string> {
+    // Read before the request, in case the language changes while it runs.
+    const key = overviewKey(destination);
+    const { text } = await ai.generateText({
+        prompt: `Provide a brief and engaging overview of ${describePlace(destination)} for a tourist, highlighting its history. ${themesInstruction(destination)} Explain why each of those matters. ${languageInstruction()}`,
+        useSearch: true,
+        signal,
+    });
+    setCachedContent(key, text).catch(err => console.error("Failed to cache town info:", err));
+    return text;
+}
+
+// Only fetches when nothing is cached yet for this town and language; "Tell me" in the Help tab refreshes it.
+export async function prefetchTownOverview(destination: Destination, signal?: AbortSignal): Promise<void> {
+    if (await getCachedTownOverview(destination)) return;
+    await fetchTownOverview(destination, signal);
+}
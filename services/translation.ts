@@ -0,0 +1,91 @@
+import { ai } from './ai';
+import type { InlineImage, RequestOptions } from './ai';
+import { AUTO_DETECT } from './languages';
+import { getDestination, describePlace } from './destination';
+
+// --- Translation requests shared by the Translator's text and conversation modes ---
+
+export interface TranslateParams extends RequestOptions {
+    text: string;
+    // A language name, or AUTO_DETECT.
+    from: string;
+    to: string;
+    context?: string;
+}
+
+export interface TranslationResult {
+    translation: string;
+    // Only set when the source language was auto-detected.
+    detectedLanguage?: string;
+}
+
+export interface PhotoTextItem {
+    original: string;
+    translation: string;
+    // What a dish actually is; empty for anything that isn't food.
+    explanation: string;
+    // [ymin, xmin, ymax, xmax], normalised to 0-1000.
+    box: number[];
+}
+
+export interface PhotoTranslation {
+    detectedLanguage: string;
+    items: PhotoTextItem[];
+}
+
+export async function translate({ text, from, to, context, signal }: TranslateParams): Promise<TranslationResult> {
+    const contextPrompt = context ? ` Provide the translation in the context of: "${context}".` : '';
+
+    if (from === AUTO_DETECT) {
+        const dialects = getDestination().defaultLanguages.slice(1);
+        const dialectPrompt = dialects.length ? ` The text may be in ${dialects.join(' or ')} dialect.` : '';
+        const prompt = `Detect the language of the following text and translate it to ${to}.${dialectPrompt}${contextPrompt}\n\n${text}`;
+        return ai.generateJson<{ detectedLanguage: string; translation: string }>({
+            prompt,
+            signal,
+            schema: {
+                type: 'object',
+                properties: {
+                    detectedLanguage: { type: 'string', description: 'English name of the language the text is written in, e.g. "German" or "Sicilian".' },
+                    translation: { type: 'string', description: 'The translated text only, without any introductory phrases.' },
+                },
+                required: ['detectedLanguage', 'translation'],
+            },
+        });
+    }
+
+    const prompt = `Translate the following text from ${from} to ${to}. Only return the translated text, without any introductory phrases.${contextPrompt}\n\n${text}`;
+    const response = await ai.generateText({ prompt, signal });
+    return { translation: response.text };
+}
+
+// Reads the text on a menu, sign or placard photo and translates it piece by piece, with positions for overlay labels.
+export function translatePhoto({ image, to, context, signal }: { image: InlineImage; to: string; context?: string } & RequestOptions): Promise<PhotoTranslation> {
+    const contextPrompt = context ? ` Provide the translation in the context of: "${context}".` : '';
+    const prompt = `This is a photo of a menu, sign or museum placard in ${describePlace()}. Read every piece of text in it, grouping lines that belong together (for example a dish with its description), and translate each group to ${to}.${contextPrompt} For every dish or food item, add a one-sentence explanation in ${to} of what it actually is; leave the explanation empty for anything else. Give each group's bounding box as [ymin, xmin, ymax, xmax] normalised to 0-1000.`;
+    return ai.generateJson<PhotoTranslation>({
+        prompt,
+        images: [image],
+        signal,
+        schema: {
+            type: 'object',
+            properties: {
+                detectedLanguage: { type: 'string', description: 'English name of the language the text in the photo is written in.' },
+                items: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            original: { type: 'string' },
+                            translation: { type: 'string' },
+                            explanation: { type: 'string' },
+                            box: { type: 'array', items: { type: 'integer' }, minItems: 4, maxItems: 4 },
+                        },
+                        required: ['original', 'translation', 'explanation', 'box'],
+                    },
+                },
+            },
+            required: ['detectedLanguage', 'items'],
+        },
+    });
+}
@@ -0,0 +1,40 @@
+import { ai } from './ai';
+import { STORES, getOne, getKeysByIndex, put, remove } from './db';
+import { PHRASEBOOK_TEXTS, PHRASEBOOK_VOICE } from '../data/phrasebook';
+
+// --- Generated speech, kept per text and voice so replaying (or playing offline) costs no API call ---
+
+const MAX_CACHED_SPEECH = 100;
+
+const cacheKey = (text: string, voice: string) => `${voice}:${text}`;
+
+// The phrasebook's clips are downloaded on purpose for offline use, so they never count against the cap.
+const PINNED_KEYS = new Set(PHRASEBOOK_TEXTS.map(text => cacheKey(text, PHRASEBOOK_VOICE)));
+
+export async function getCachedSpeech(text: string, voice: string): Promise<string | null> {
+    const entry = await getOne<{ key: string; audio: string }>(STORES.ttsCache, cacheKey(text, voice));
+    return entry?.audio || null;
+}
+
+// Keeps only the newest MAX_CACHED_SPEECH clips besides the phrasebook's.
+async function evictOldSpeech(): Promise<void> {
+    const keys = (await getKeysByIndex(STORES.ttsCache, 'createdAt')).filter(key => !PINNED_KEYS.has(key as string));
+    const stale = keys.slice(0, Math.max(0, keys.length - MAX_CACHED_SPEECH));
+    await Promise.all(stale.map(key => remove(STORES.ttsCache, key)));
+}
+
+export async function cacheSpeech(text: string, voice: string, audio: string): Promise<void> {
+    await put(STORES.ttsCache, { key: cacheKey(text, voice), audio, createdAt: Date.now() });
+    await evictOldSpeech();
+}
+
+// Resolves to base64 PCM, from the cache when possible.
+export async function getSpeech(text: string, voice: string): Promise<string | null> {
+    const cached = await getCachedSpeech(text, voice).catch(() => null);
+    if (cached) return cached;
+    const audio = await ai.generateSpeech({ text, voice });
+    if (audio) {
+        await cacheSpeech(text, voice, audio).catch(err => console.error("Failed to cache speech:", err));
+    }
+    return audio;
+}
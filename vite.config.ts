@@ -1,6 +1,19 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import type { Plugin } from 'vite';
+
+// Lists every file in the build so the service worker can pre-cache the whole app on install.
+function assetManifest(): Plugin {
+    return {
+      name: 'mimi-asset-manifest',
+      apply: 'build',
+      generateBundle(_options, bundle) {
+        const files = Object.keys(bundle).map(fileName => `/${fileName}`);
+        this.emitFile({ type: 'asset', fileName: 'asset-manifest.json', source: JSON.stringify(files, null, 2) });
+      },
+    };
+}
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -8,11 +21,14 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // The API proxy (npm run server) holds the Gemini key; the browser only ever calls /api.
+        proxy: {
+          '/api': 'http://localhost:8787',
+        },
       },
-      plugins: [react()],
+      plugins: [react(), assetManifest()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER)
       },
       resolve: {
         alias: {